@@ -30,7 +30,7 @@ const config: HardhatUserConfig = {
     },
     arbitrum: {
       url: process.env.ARBITRUM_MAINNET_RPC || "",
-      accounts: [process.env.MAINNET_PRIVATE_KEY || ""],
+      accounts: process.env.MAINNET_PRIVATE_KEY !== undefined ? [process.env.MAINNET_PRIVATE_KEY] : [],
     },
     arb_goerli: {
       url: process.env.ARBITRUM_GOERLI_RPC || "",
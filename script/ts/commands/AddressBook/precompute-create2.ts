@@ -0,0 +1,130 @@
+// Precomputes the CREATE2 addresses of the stack or of one contract, and prefills the empty address book entries
+import { Command } from "commander";
+import * as readlineSync from "readline-sync";
+import { ethers } from "hardhat";
+import chains from "../../entities/chains";
+import signers from "../../entities/signers";
+import { isDryRun } from "../../utils/cli-context";
+import { listAddressBook, loadConfig, setAddressBookEntry, writeNetworkConfigFile } from "../../utils/config";
+import { CREATE2_FACTORY, getCreate2Address, getCreate2Salt, getInitCode } from "../../utils/create2";
+import { PrecomputedAddress, precomputeDeployment } from "../../utils/deployment-orchestrator";
+import { getNetworkByChainId } from "../../utils/network";
+import { getMissingRequirements } from "../../utils/requirements";
+
+type Options = {
+  chainId: number;
+  version?: string;
+  deployer?: string;
+  only: Array<string>;
+  contract?: string;
+  args: Array<any>;
+  key?: string;
+  prefill: boolean;
+  yes: boolean;
+};
+
+async function main(options: Options) {
+  if (!options.version) throw new Error("[cmds/AddressBook] Pass --version or set DEPLOY_CREATE2_VERSION");
+  const config = loadConfig(options.chainId);
+
+  let rows: Array<PrecomputedAddress>;
+  let deployer = "";
+  if (options.contract) {
+    const factory = await ethers.getContractFactory(options.contract);
+    const address = getCreate2Address(
+      getInitCode(factory, options.args),
+      getCreate2Salt(options.contract, options.version)
+    );
+    rows = [{ key: options.key || "", contract: options.contract, address, detail: "" }];
+  } else {
+    // Proxies are salted with their deployer
+    deployer = options.deployer || (await signers.deployer(options.chainId).getAddress());
+    rows = await precomputeDeployment(options.chainId, options.version, deployer, options.only);
+  }
+
+  // Without an RPC the addresses are still known, only whether they are taken is not
+  const online = getMissingRequirements(options.chainId, ["rpc"]).length === 0;
+  const provider = online ? chains[options.chainId].jsonRpcProvider : undefined;
+  const table = [];
+  for (const row of rows) {
+    const deployed =
+      provider && row.address ? ((await provider.getCode(row.address)) !== "0x" ? "yes" : "no") : "unknown";
+    table.push({ ...row, implementation: row.implementation || "", deployed });
+  }
+  console.log(`[cmds/AddressBook] CREATE2 addresses for version ${options.version}, factory ${CREATE2_FACTORY}`);
+  console.table(table);
+  if (rows.some((row) => row.implementation))
+    console.log(`[cmds/AddressBook] Proxies share their addresses across chains when deployed by ${deployer}`);
+
+  if (!options.prefill) return;
+  const taken = new Set(listAddressBook(options.chainId).map((entry) => entry.key));
+  const prefill = rows.filter((row) => row.key && row.address && !taken.has(row.key));
+  if (prefill.length === 0) {
+    console.log("[cmds/AddressBook] No empty address book entry to prefill");
+    return;
+  }
+  console.log(`[cmds/AddressBook] Would prefill ${prefill.map((row) => row.key).join(", ")}`);
+  if (isDryRun()) return;
+  if (!options.yes && readlineSync.question("Confirm to prefill? (y/n): ").toLowerCase() !== "y") {
+    console.log("[cmds/AddressBook] Prefill cancelled!");
+    return;
+  }
+
+  const note = `create2 ${options.version}, precomputed`;
+  for (const row of prefill) setAddressBookEntry(config, row.key, row.address);
+  writeNetworkConfigFile(
+    getNetworkByChainId(options.chainId),
+    config,
+    prefill.reduce((acc, row) => {
+      acc[row.key] = { contract: row.contract, note };
+      return acc;
+    }, {} as { [key: string]: { contract: string; note: string } })
+  );
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chain-id>", "chain id", parseInt);
+program.option(
+  "--version <version>",
+  "salt version, defaults to DEPLOY_CREATE2_VERSION",
+  process.env.DEPLOY_CREATE2_VERSION
+);
+program.option("--deployer <address>", "address that will deploy the stack, defaults to the configured deployer");
+program.option(
+  "--only <keys>",
+  "comma-separated address book keys of the stack, the rest has to be in the address book",
+  (value: string) => value.split(",").map((key) => key.trim()),
+  []
+);
+program.option("--contract <name>", "one contract outside of the stack, e.g. EcoPythCalldataBuilder3");
+program.option(
+  "--args <json>",
+  "JSON array of constructor arguments of --contract",
+  (value: string) => JSON.parse(value),
+  []
+);
+program.option("--key <key>", "address book key of --contract, to prefill");
+program.option("--prefill", "write the addresses to the empty address book entries", false);
+program.option("--yes", "skip confirmation", false);
+
+const opts = program.parse(process.argv).opts();
+
+main({
+  chainId: opts.chainId,
+  version: opts.version,
+  deployer: opts.deployer,
+  only: opts.only,
+  contract: opts.contract,
+  args: opts.args,
+  key: opts.key,
+  prefill: opts.prefill,
+  yes: opts.yes,
+})
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,49 @@
+import { Command } from "commander";
+import * as readlineSync from "readline-sync";
+import { loadConfig, writeNetworkConfigFile } from "../../utils/config";
+import { getNetworkByChainId } from "../../utils/network";
+import { diffConfigs, getSnapshot } from "../../utils/deployment-history";
+
+async function main(chainId: number, snapshotId: number, yes: boolean) {
+  const network = getNetworkByChainId(chainId);
+  const snapshot = getSnapshot(network, snapshotId);
+  const changes = diffConfigs(loadConfig(chainId), snapshot.config);
+
+  if (changes.length === 0) {
+    console.log(`[cmds/AddressBook] Config already matches snapshot #${snapshotId}`);
+    return;
+  }
+  console.log(`[cmds/AddressBook] Rolling ${network.configPath} back to snapshot #${snapshotId}`);
+  console.table(changes.map((c) => ({ key: c.key, current: c.oldAddress, rollbackTo: c.newAddress })));
+  if (!yes && readlineSync.question("Confirm to roll back? (y/n): ").toLowerCase() !== "y") {
+    console.log("[cmds/AddressBook] Rollback cancelled!");
+    return;
+  }
+
+  const note = `rollback to #${snapshotId}`;
+  writeNetworkConfigFile(
+    network,
+    snapshot.config,
+    changes.reduce((acc, c) => {
+      acc[c.key] = { note };
+      return acc;
+    }, {} as { [key: string]: { note: string } })
+  );
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chain-id>", "chain id", parseInt);
+program.requiredOption("--snapshot <snapshot>", "snapshot id to restore", parseInt);
+program.option("--yes", "skip confirmation", false);
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, opts.snapshot, opts.yes)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -6,11 +6,14 @@ import { loadConfig } from "../../utils/config";
 import { getUpdatePriceData } from "../../utils/price";
 import signers from "../../entities/signers";
 import chains from "../../entities/chains";
+import { requireCapabilities } from "../../utils/requirements";
+import { setSignerOverride } from "../../utils/signer-config";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer:liquidator"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
-  const deployer = signers.deployer(chainId);
+  const deployer = signers.liquidator(chainId);
   const botHandler = BotHandler__factory.connect(config.handlers.bot, deployer);
 
   const chunkSize = 5;
@@ -491,11 +494,14 @@ async function main(chainId: number) {
 const prog = new Command();
 
 prog.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+prog.option("--signer <spec>", "liquidator signer spec, e.g. keystore:./keys/liquidator.json");
 
 prog.parse(process.argv);
 
 const opts = prog.opts();
 
+if (opts.signer) setSignerOverride("liquidator", opts.signer);
+
 main(opts.chainId)
   .then(() => {
     process.exit(0);
@@ -7,8 +7,10 @@ import collaterals from "../../entities/collaterals";
 import { ethers } from "ethers";
 import { OwnerWrapper } from "../../wrappers/OwnerWrapper";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number, token: string, amount: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
 
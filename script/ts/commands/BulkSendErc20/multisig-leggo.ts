@@ -5,6 +5,8 @@ import { TREASURY_ADDRESS } from "../../constants/important-addresses";
 import { readCsv } from "../../utils/file";
 import { BulkSendErc20__factory, ERC20__factory } from "../../../../typechain";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
+import { setSignerOverride } from "../../utils/signer-config";
 
 interface DataRow {
   to: string;
@@ -14,8 +16,9 @@ interface DataRow {
   amount: string;
 }
 
-async function main(chainId: number, inputPath: string, nonce: number) {
-  const deployer = signers.deployer(chainId);
+async function main(chainId: number, inputPath: string, nonce?: number, replace: boolean = false) {
+  requireCapabilities(chainId, ["rpc", "signer:treasuryProposer", "safe"]);
+  const deployer = signers.treasuryProposer(chainId);
   const safeWrapper = new SafeWrapper(chainId, TREASURY_ADDRESS, deployer);
   const bulkSendErc20 = BulkSendErc20__factory.connect("0x80825A51AFa8bFafe6B0640f605C169c5f58d670", deployer);
 
@@ -25,30 +28,31 @@ async function main(chainId: number, inputPath: string, nonce: number) {
 
   const tokenAddresses = rows.map((row) => row.token_address);
   const distinctTokenAddresses = [...new Set(tokenAddresses)];
+  // Approvals and the transfer go in one proposal, the transfer relies on the approvals
+  const batch = safeWrapper.createBatch({ nonce, replace });
   for (const tokenAddress of distinctTokenAddresses) {
     const erc20 = ERC20__factory.connect(tokenAddress, deployer);
     const allowance = await erc20.allowance(safeWrapper.getAddress(), bulkSendErc20.address);
     if (allowance.eq(0)) {
-      console.log(`[cmds/BulkSendErc20] Proposing tx to approve ${bulkSendErc20.address} to spend ${tokenAddress}...`);
-      const tx = await safeWrapper.proposeTransaction(
+      batch.add(
         ethers.utils.getAddress(erc20.address),
         0,
-        erc20.interface.encodeFunctionData("approve", [bulkSendErc20.address, ethers.constants.MaxUint256])
+        erc20.interface.encodeFunctionData("approve", [bulkSendErc20.address, ethers.constants.MaxUint256]),
+        `approve ${bulkSendErc20.address} to spend ${tokenAddress}`
       );
-      console.log(`[cmds/BulkSendErc20] Proposed tx: ${tx}`);
     }
   }
 
   const tokenAmounts = rows.map((row) => ethers.utils.parseUnits(row.amount.replace(",", ""), row.decimals));
   const recepients = rows.map((row) => ethers.utils.getAddress(row.to));
 
-  console.log(`[cmds/BulkSendErc20] Proposing tx to bulk transfer tokens...`);
-  const tx = await safeWrapper.proposeTransaction(
+  batch.add(
     bulkSendErc20.address,
     0,
     bulkSendErc20.interface.encodeFunctionData("leggo", [tokenAddresses, recepients, tokenAmounts]),
-    { nonce: nonce++ }
+    `bulk transfer to ${recepients.length} recipients`
   );
+  const [tx] = await batch.propose();
   console.log(`[cmds/BulkSendErc20] Proposed tx: ${tx}`);
 }
 
@@ -56,11 +60,15 @@ const program = new Command();
 
 program.requiredOption("--chain-id <number>", "chain id", parseInt);
 program.requiredOption("--input-path <string>", "input path");
-program.requiredOption("--nonce <number>", "nonce", parseInt);
+program.option("--nonce <number>", "nonce, defaults to the next free one", parseInt);
+program.option("--replace", "replace the transactions pending at --nonce", false);
+program.option("--signer <spec>", "treasuryProposer signer spec, e.g. keystore:./keys/treasuryProposer.json");
 
 const opts = program.parse(process.argv).opts();
 
-main(opts.chainId, opts.inputPath, opts.nonce)
+if (opts.signer) setSignerOverride("treasuryProposer", opts.signer);
+
+main(opts.chainId, opts.inputPath, opts.nonce, opts.replace)
   .then(() => {
     process.exit(0);
   })
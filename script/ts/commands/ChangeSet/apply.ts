@@ -0,0 +1,115 @@
+// Resolves a governance change set, simulates it on a fork with a before/after diff of the touched getters and routes it to the owners
+import * as fs from "fs";
+import { Command } from "commander";
+import * as readlineSync from "readline-sync";
+import signers from "../../entities/signers";
+import { loadConfig } from "../../utils/config";
+import { requireCapabilities } from "../../utils/requirements";
+import { isForkSimulation } from "../../utils/simulation";
+import {
+  ChangeSetSimulation,
+  describeOperation,
+  readChangeSet,
+  renderChangeSetReport,
+  simulateChangeSet,
+} from "../../utils/change-set";
+import { OwnerWrapper } from "../../wrappers/OwnerWrapper";
+import { OwnerRoute } from "../../wrappers/OwnerWrapper/type";
+
+type Options = {
+  report?: string;
+  submit: boolean;
+  eta?: number;
+  skipSimulation: boolean;
+  yes: boolean;
+};
+
+async function main(chainId: number, filePath: string, options: Options) {
+  requireCapabilities(chainId, options.submit ? ["rpc", "signer", "safe"] : ["rpc", "signer"]);
+  const config = loadConfig(chainId);
+  const deployer = signers.deployer(chainId);
+  const ownerWrapper = new OwnerWrapper(chainId, deployer);
+  const changeSet = readChangeSet(chainId, filePath);
+
+  console.log(`[cmds/ChangeSet] ${changeSet.title}`);
+  if (changeSet.description) console.log(`[cmds/ChangeSet] ${changeSet.description}`);
+  const routes: Array<OwnerRoute> = [];
+  for (const operation of changeSet.operations) routes.push(await ownerWrapper.getRoute(operation.to));
+  changeSet.operations.forEach((operation, i) => {
+    console.log(
+      `\n[cmds/ChangeSet] ${i + 1}. ${operation.contractKey} (${operation.to}), executed by the ${routes[i]}`
+    );
+    console.log(describeOperation(operation));
+  });
+  if (new Set(routes).size > 1)
+    console.warn("\n[cmds/ChangeSet] ⚠️ The operations have several owners, each owner executes its part separately");
+
+  let simulation: ChangeSetSimulation | undefined;
+  if (isForkSimulation()) {
+    const owners = { signer: await deployer.getAddress(), safe: config.safe, timelock: config.timelock };
+    simulation = await simulateChangeSet(
+      chainId,
+      changeSet,
+      routes.map((route) => owners[route])
+    );
+    console.log(`\n[cmds/ChangeSet] State changes:`);
+    console.table(
+      simulation.diffs.map((diff) => ({ ...diff, after: diff.before === diff.after ? "unchanged" : diff.after }))
+    );
+    for (const failure of simulation.failures)
+      console.error(`[cmds/ChangeSet] ❌ Operation ${failure.operation} reverts: ${failure.revertReason}`);
+  } else {
+    console.warn("\n[cmds/ChangeSet] ⚠️ DRY_RUN_FORK_RPC is not set, the change set is not simulated");
+  }
+
+  if (options.report) {
+    fs.writeFileSync(options.report, renderChangeSetReport(changeSet, routes, simulation) + "\n");
+    console.log(`[cmds/ChangeSet] Report written to ${options.report}`);
+  }
+
+  if (!options.submit) return;
+  if (!simulation && !options.skipSimulation)
+    throw new Error("[cmds/ChangeSet] Simulate on a fork before submitting, or pass --skip-simulation");
+  if (simulation && !simulation.success) throw new Error("[cmds/ChangeSet] The change set fails in simulation");
+  if (!options.yes && readlineSync.question("Confirm to submit the change set? (y/n): ").toLowerCase() !== "y") {
+    console.log("[cmds/ChangeSet] Cancelled!");
+    return;
+  }
+  await ownerWrapper.authExecMany(
+    changeSet.operations.map((operation) => ({
+      to: operation.to,
+      data: operation.data,
+      info: `${changeSet.title}: ${operation.contractKey}.${operation.fragment.name}`,
+    })),
+    { eta: options.eta }
+  );
+  console.log("[cmds/ChangeSet] Submitted");
+}
+
+const program = new Command();
+
+program.argument("<file>", "YAML or JSON change set, see configs/change-sets");
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--report <path>", "write a markdown report for reviewers");
+program.option("--submit", "send the operations to their owners once simulated", false);
+program.option("--eta <timestamp>", "Timelock eta, defaults to the earliest one", parseInt);
+program.option("--skip-simulation", "submit without simulating on a fork", false);
+program.option("--yes", "skip confirmation", false);
+
+program.parse(process.argv);
+const opts = program.opts();
+
+main(opts.chainId, program.args[0], {
+  report: opts.report,
+  submit: opts.submit,
+  eta: opts.eta,
+  skipSimulation: opts.skipSimulation,
+  yes: opts.yes,
+})
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -4,8 +4,10 @@ import signers from "../../entities/signers";
 import { DistributeSTIPARBStrategy__factory } from "../../../../typechain";
 import SafeWrapper from "../../wrappers/SafeWrapper";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const signer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, signer);
@@ -8,11 +8,14 @@ import signers from "../../entities/signers";
 import chains from "../../entities/chains";
 import HmxApiWrapper from "../../wrappers/HMXApiWrapper";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
+import { setSignerOverride } from "../../utils/signer-config";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer:priceFeeder", "hmxApi"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
-  const deployer = signers.deployer(chainId);
+  const deployer = signers.priceFeeder(chainId);
   const hmxApi = new HmxApiWrapper(chainId);
 
   const pyth = EcoPyth__factory.connect(config.oracles.ecoPyth2, deployer);
@@ -49,11 +52,14 @@ async function main(chainId: number) {
 const prog = new Command();
 
 prog.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+prog.option("--signer <spec>", "priceFeeder signer spec, e.g. keystore:./keys/priceFeeder.json");
 
 prog.parse(process.argv);
 
 const opts = prog.opts();
 
+if (opts.signer) setSignerOverride("priceFeeder", opts.signer);
+
 main(opts.chainId)
   .then(() => {
     process.exit(0);
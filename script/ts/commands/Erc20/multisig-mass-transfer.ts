@@ -5,6 +5,7 @@ import { TREASURY_ADDRESS } from "../../constants/important-addresses";
 import { readCsv } from "../../utils/file";
 import { ethers } from "ethers";
 import { ERC20__factory } from "../../../../typechain";
+import { requireCapabilities } from "../../utils/requirements";
 
 interface DataRow {
   to: string;
@@ -15,20 +16,23 @@ interface DataRow {
 }
 
 async function main(chainId: number, inputPath: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, TREASURY_ADDRESS, deployer);
 
   console.log(`[cmds/Erc20] Proposing multiple txs to transfer tokens...`);
   console.log(`[cmds/Erc20] Input path: ${inputPath}`);
   const rows = (await readCsv(inputPath)) as DataRow[];
-  for (const row of rows) {
+  const nonces = await safeWrapper.reserveNonces(rows.length);
+  for (const [i, row] of rows.entries()) {
     console.log(`[cmds/Erc20] Proposing tx to transfer ${row.amount} ${row.token_symbol} to ${row.to}...`);
     const erc20 = ERC20__factory.connect(row.token_address, deployer);
     const amount = ethers.utils.parseUnits(row.amount.replace(",", ""), row.decimals);
     const tx = await safeWrapper.proposeTransaction(
       ethers.utils.getAddress(erc20.address),
       0,
-      erc20.interface.encodeFunctionData("transfer", [row.to, amount])
+      erc20.interface.encodeFunctionData("transfer", [row.to, amount]),
+      { nonce: nonces[i] }
     );
     console.log(`[cmds/Erc20] Proposed tx: ${tx}`);
   }
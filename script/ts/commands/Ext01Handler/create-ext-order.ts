@@ -4,11 +4,13 @@ import signers from "../../entities/signers";
 import { Ext01Handler__factory } from "../../../../typechain";
 import { ethers } from "ethers";
 import { getSubAccount } from "../../utils/account";
+import { requireCapabilities } from "../../utils/requirements";
 
 // OrderType 1 = Create switch collateral order
 const SWITCH_COLLATERAL_ORDER_TYPE = 1;
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const signer = signers.deployer(chainId);
   const signerAddress = await signer.getAddress();
@@ -3,8 +3,10 @@ import { loadConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import { LimitTradeHandler__factory, ERC20__factory } from "../../../../typechain";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const signer = signers.deployer(chainId);
   const signerAddress = await signer.getAddress();
@@ -6,11 +6,14 @@ import { getUpdatePriceData } from "../../utils/price";
 import { ecoPythPriceFeedIdsByIndex } from "../../constants/eco-pyth-index";
 import chains from "../../entities/chains";
 import * as readlineSync from "readline-sync";
+import { requireCapabilities } from "../../utils/requirements";
+import { setSignerOverride } from "../../utils/signer-config";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer:orderExecutor"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
-  const signer = signers.deployer(chainId);
+  const signer = signers.orderExecutor(chainId);
 
   const accounts = ["0x6629eC35c8Aa279BA45Dbfb575c728d3812aE31a"];
   const subAccountIds = [0];
@@ -53,11 +56,14 @@ async function main(chainId: number) {
 const prog = new Command();
 
 prog.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+prog.option("--signer <spec>", "orderExecutor signer spec, e.g. keystore:./keys/orderExecutor.json");
 
 prog.parse(process.argv);
 
 const opts = prog.opts();
 
+if (opts.signer) setSignerOverride("orderExecutor", opts.signer);
+
 main(opts.chainId)
   .then(() => {
     process.exit(0);
@@ -0,0 +1,120 @@
+// Brings up a local deployment: mocks, the protocol stack, every registry market, fed prices and funded test accounts
+import * as fs from "fs";
+import { spawn } from "child_process";
+import { Command } from "commander";
+import { ethers } from "ethers";
+import { ethers as hardhatEthers, network } from "hardhat";
+import chains from "../../entities/chains";
+import signers from "../../entities/signers";
+import { isDryRun } from "../../utils/cli-context";
+import { executeDeployment, planDeployment } from "../../utils/deployment-orchestrator";
+import { fundLocalAccounts, readLocalSeed, seedLocalDeployment } from "../../utils/local-seed";
+import { getNetworkByChainId, REPO_ROOT, resolveRepoPath } from "../../utils/network";
+import { requireCapabilities } from "../../utils/requirements";
+
+const NODE_LOG = "cache_hardhat/hardhat-node.log";
+const NODE_START_TIMEOUT_MS = 60 * 1000;
+
+type Options = {
+  chainId: number;
+  input: string;
+  startNode: boolean;
+};
+
+async function _isUp(provider: ethers.providers.JsonRpcProvider): Promise<boolean> {
+  try {
+    await provider.send("eth_chainId", []);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+async function _startNode(provider: ethers.providers.JsonRpcProvider) {
+  fs.mkdirSync(resolveRepoPath("cache_hardhat"), { recursive: true });
+  const log = fs.openSync(resolveRepoPath(NODE_LOG), "a");
+  const node = spawn("npx", ["hardhat", "node"], { cwd: REPO_ROOT, detached: true, stdio: ["ignore", log, log] });
+  node.unref();
+  console.log(`[cmds/Local] Starting a hardhat node (pid ${node.pid}), logging to ${NODE_LOG}...`);
+  const deadline = Date.now() + NODE_START_TIMEOUT_MS;
+  while (!(await _isUp(provider))) {
+    if (node.exitCode !== null) throw new Error(`[cmds/Local] Hardhat node exited, see ${NODE_LOG}`);
+    if (Date.now() > deadline) throw new Error(`[cmds/Local] Hardhat node did not come up in time, see ${NODE_LOG}`);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  console.log(`[cmds/Local] Hardhat node is up, stop it with \`kill ${node.pid}\``);
+}
+
+async function main(options: Options) {
+  if (!getNetworkByChainId(options.chainId).hardhatNetworks.includes("hardhat"))
+    throw new Error(`[cmds/Local] Chain ${options.chainId} is not a local chain`);
+  // The in-process hardhat network is gone once the script exits, the address book would point at nothing
+  if (network.name !== "localhost")
+    throw new Error(`[cmds/Local] Hardhat network is ${network.name}, run with HARDHAT_NETWORK=localhost`);
+  const seed = readLocalSeed(options.input);
+
+  requireCapabilities(options.chainId, ["rpc", "signer"]);
+  const provider = chains[options.chainId].jsonRpcProvider;
+  if (!(await _isUp(provider))) {
+    if (!options.startNode)
+      throw new Error(`[cmds/Local] No node at ${chains[options.chainId].rpc}, start one or pass --start-node`);
+    await _startNode(provider);
+  }
+  const chainId = (await hardhatEthers.provider.getNetwork()).chainId;
+  if (chainId !== options.chainId)
+    throw new Error(`[cmds/Local] Node at ${chains[options.chainId].rpc} is on chain ${chainId}`);
+
+  const deployer = signers.deployer(chainId);
+  const deployerAddress = await deployer.getAddress();
+  // The first account of the node holds the ether when the deployer is not one of its accounts
+  const nodeAccount = provider.getSigner(0);
+  const accounts = (await provider.listAccounts()).slice(0, seed.accounts.count);
+  if (!accounts.some((account) => account.toLowerCase() === deployerAddress.toLowerCase()))
+    accounts.push(deployerAddress);
+
+  const plan = await planDeployment(chainId, deployer);
+  console.table(plan.map((item) => ({ id: item.id, status: item.status, detail: item.detail })));
+  if (isDryRun()) {
+    console.log(
+      `[cmds/Local] Would seed ${seed.markets.length} markets, ${seed.collaterals.length} collaterals, ` +
+        `${seed.prices.length} prices and fund ${accounts.length} accounts`
+    );
+    return;
+  }
+
+  await fundLocalAccounts(chainId, nodeAccount, [deployerAddress], { ...seed, collaterals: [] });
+  const result = await executeDeployment(chainId, deployer, plan);
+  console.log(`[cmds/Local] Deployed: ${result.deployed.join(", ") || "none"}`);
+  console.log(`[cmds/Local] Wired: ${result.wired.join(", ") || "none"}`);
+  if (result.upgraded.length > 0) console.log(`[cmds/Local] Upgraded: ${result.upgraded.join(", ")}`);
+  if (result.pending.length > 0)
+    throw new Error(`[cmds/Local] Not carried out by the deployer: ${result.pending.join(", ")}`);
+
+  await seedLocalDeployment(chainId, deployer, seed);
+  await fundLocalAccounts(chainId, nodeAccount, accounts, seed);
+
+  console.log(`[cmds/Local] Funded accounts: ${accounts.join(", ")}`);
+  console.log(`[cmds/Local] Local deployment is ready, its address book is ${getNetworkByChainId(chainId).configPath}`);
+  console.log(`[cmds/Local] Prices go stale after ${seed.trustPriceAge}s, run again to feed fresh ones`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option(
+  "--input <path>",
+  "YAML or JSON seed of the local deployment",
+  resolveRepoPath("configs/inputs/Local/bootstrap.yaml")
+);
+program.option("--start-node", "start a hardhat node in the background when none is running", false);
+
+const opts = program.parse(process.argv).opts();
+
+main({ chainId: opts.chainId, input: opts.input, startNode: opts.startNode })
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -3,11 +3,14 @@ import { loadConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import chains from "../../entities/chains";
 import HmxApiWrapper from "../../wrappers/HMXApiWrapper";
+import { requireCapabilities } from "../../utils/requirements";
+import { setSignerOverride } from "../../utils/signer-config";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer:priceFeeder", "hmxApi"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
-  const deployer = signers.deployer(chainId);
+  const deployer = signers.priceFeeder(chainId);
   const hmxApi = new HmxApiWrapper(chainId);
   console.log("[cmds/OrderbookOracle] Feed Orderbook Oracle Data...");
   await hmxApi.feedOrderbookOracle();
@@ -17,11 +20,14 @@ async function main(chainId: number) {
 const prog = new Command();
 
 prog.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+prog.option("--signer <spec>", "priceFeeder signer spec, e.g. keystore:./keys/priceFeeder.json");
 
 prog.parse(process.argv);
 
 const opts = prog.opts();
 
+if (opts.signer) setSignerOverride("priceFeeder", opts.signer);
+
 main(opts.chainId)
   .then(() => {
     process.exit(0);
@@ -0,0 +1,99 @@
+// Reconstructs executors, updaters and whitelisted callers from events and getters, diffs them against the permission manifest and converges
+import { Command } from "commander";
+import * as readlineSync from "readline-sync";
+import chains from "../../entities/chains";
+import signers from "../../entities/signers";
+import { requireCapabilities } from "../../utils/requirements";
+import {
+  diffPermissions,
+  encodePermissionChanges,
+  labelAddress,
+  readPermissionManifest,
+  readPermissions,
+} from "../../utils/permission-audit";
+import { OwnerWrapper } from "../../wrappers/OwnerWrapper";
+
+type Options = {
+  manifest: string;
+  fromBlock: number;
+  apply: boolean;
+  yes: boolean;
+};
+
+async function main(chainId: number, options: Options) {
+  requireCapabilities(chainId, options.apply ? ["rpc", "signer", "safe"] : ["rpc"]);
+  const provider = chains[chainId].jsonRpcProvider;
+  const manifest = readPermissionManifest(chainId, options.manifest);
+  const label = (address: string) => labelAddress(chainId, address, manifest.labels);
+
+  console.log(`[cmds/Permissions] Reading permissions from block ${options.fromBlock}...`);
+  const current = await readPermissions(chainId, provider, manifest, options.fromBlock);
+  console.table(
+    current.map((permission) => ({
+      contract: permission.contractKey,
+      mapping: permission.getter,
+      subject: permission.subject.map(label).join(" → "),
+      value: typeof permission.value === "boolean" ? permission.value : label(permission.value),
+      managed: manifest.managedSets.includes(`${permission.contractKey}.${permission.getter}`),
+    }))
+  );
+
+  const changes = diffPermissions(manifest, current);
+  if (changes.length === 0) {
+    console.log("[cmds/Permissions] ✅ Permissions match the manifest");
+    return;
+  }
+  console.log(`[cmds/Permissions] ❌ ${changes.length} permissions differ from ${options.manifest}`);
+  console.table(
+    changes.map((change) => ({
+      contract: change.contractKey,
+      mapping: change.getter,
+      subject: change.subject.map(label).join(" → "),
+      current: typeof change.current === "boolean" ? change.current : label(change.current),
+      expected: typeof change.value === "boolean" ? change.value : label(change.value),
+    }))
+  );
+
+  const transactions = encodePermissionChanges(chainId, changes, manifest.labels);
+  console.log("[cmds/Permissions] Transactions to converge:");
+  for (const tx of transactions)
+    console.log(`[cmds/Permissions]   ${tx.contractKey} (${tx.to}) ${tx.description}\n${tx.data}`);
+  if (!options.apply) {
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!options.yes && readlineSync.question("Confirm to send these transactions? (y/n): ").toLowerCase() !== "y") {
+    console.log("[cmds/Permissions] Cancelled!");
+    return;
+  }
+  const ownerWrapper = new OwnerWrapper(chainId, signers.deployer(chainId));
+  for (const tx of transactions) {
+    console.log(`[cmds/Permissions] ${tx.contractKey}: ${tx.description}`);
+    await ownerWrapper.authExec(tx.to, tx.data);
+  }
+  console.log("[cmds/Permissions] Finished");
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--manifest <path>", "expected permissions", "configs/policies/permissions.yaml");
+program.requiredOption(
+  "--from-block <block>",
+  "first block to look for permission events in, e.g. the block the protocol was deployed at",
+  parseInt
+);
+program.option("--apply", "send the transactions through the owner of each contract", false);
+program.option("--yes", "skip confirmation", false);
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, { manifest: opts.manifest, fromBlock: opts.fromBlock, apply: opts.apply, yes: opts.yes })
+  .then(() => {
+    process.exit(process.exitCode || 0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
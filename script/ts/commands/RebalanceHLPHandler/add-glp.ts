@@ -8,6 +8,7 @@ import chains from "../../entities/chains";
 import * as readlineSync from "readline-sync";
 import { BigNumber, ethers } from "ethers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 const ZEROADDRESS = ethers.constants.AddressZero;
 const Zero = BigNumber.from(0);
@@ -21,6 +22,7 @@ type AddGlpParams = {
 };
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
@@ -7,6 +7,7 @@ import { ecoPythPriceFeedIdsByIndex } from "../../constants/eco-pyth-index";
 import chains from "../../entities/chains";
 import * as readlineSync from "readline-sync";
 import { BigNumber, ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 const Zero = BigNumber.from(0);
 
@@ -17,6 +18,7 @@ type WithdrawGlpParams = {
 };
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
   const signer = signers.deployer(chainId);
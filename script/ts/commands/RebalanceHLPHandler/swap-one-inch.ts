@@ -9,8 +9,10 @@ import * as readlineSync from "readline-sync";
 import { ethers } from "ethers";
 import { OneInchWrapper } from "../../wrappers/OneInchWrapper";
 import oneInch from "../../entities/one-inch";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "oneInch"]);
   const config = loadConfig(chainId);
   const PARAMS = {
     amountIn: "1355074.620818",
@@ -0,0 +1,29 @@
+// Regenerates the market and price feed JSON files from entities/market-registry.ts
+import * as fs from "fs";
+import { Command } from "commander";
+import { resolveRepoPath } from "../../utils/network";
+import { getGeneratedRegistryFiles, isGeneratedFileUpToDate } from "../../utils/market-registry";
+
+async function main() {
+  for (const file of getGeneratedRegistryFiles()) {
+    if (isGeneratedFileUpToDate(file)) {
+      console.log(`[cmds/Registry] ${file.path} is up to date`);
+      continue;
+    }
+    fs.writeFileSync(resolveRepoPath(file.path), file.content);
+    console.log(`[cmds/Registry] Wrote ${file.path}`);
+  }
+}
+
+const program = new Command();
+
+program.parse(process.argv);
+
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
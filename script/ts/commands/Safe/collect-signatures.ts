@@ -0,0 +1,26 @@
+// Merges the signatures of copies of an offline Safe transaction file into one file
+import { Command } from "commander";
+import { mergeSafeOfflineSignatures, readSafeOfflineFile, writeSafeOfflineFile } from "../../utils/safe-offline";
+
+async function main(filePath: string, fromPaths: Array<string>) {
+  const merged = mergeSafeOfflineSignatures(readSafeOfflineFile(filePath), fromPaths.map(readSafeOfflineFile));
+  writeSafeOfflineFile(filePath, merged);
+  console.log(`[cmds/Safe] ${merged.safe.signatures.length} signatures in ${filePath}:`);
+  for (const signature of merged.safe.signatures) console.log(`[cmds/Safe]   - ${signature.signer}`);
+}
+
+const program = new Command();
+
+program.requiredOption("--file <path>", "Safe transaction file to collect the signatures into");
+program.requiredOption("--from <paths...>", "signed copies of the same transaction");
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.file, opts.from)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
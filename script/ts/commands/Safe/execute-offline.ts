@@ -0,0 +1,56 @@
+// Executes a fully signed Safe transaction file written in offline mode, without the Safe service
+import { Command } from "commander";
+import { ethers } from "ethers";
+import signers from "../../entities/signers";
+import { requireCapabilities } from "../../utils/requirements";
+import { encodeSafeSignatures, getSafeAbi, readSafeOfflineFile } from "../../utils/safe-offline";
+
+async function main(filePath: string) {
+  const file = readSafeOfflineFile(filePath);
+  const chainId = Number(file.chainId);
+  requireCapabilities(chainId, ["rpc", "signer"]);
+  const deployer = signers.deployer(chainId);
+  const safe = new ethers.Contract(file.safe.address, getSafeAbi(), deployer);
+  const { transaction, signatures } = file.safe;
+
+  const [nonce, threshold, owners] = await Promise.all([safe.nonce(), safe.getThreshold(), safe.getOwners()]);
+  if (!nonce.eq(transaction.nonce))
+    throw new Error(`[cmds/Safe] Safe is at nonce ${nonce.toString()}, the file is for nonce ${transaction.nonce}`);
+  const ownerSignatures = signatures.filter((signature) =>
+    owners.some((owner: string) => owner.toLowerCase() === signature.signer.toLowerCase())
+  );
+  if (ownerSignatures.length < threshold.toNumber())
+    throw new Error(`[cmds/Safe] ${ownerSignatures.length} owner signatures, the Safe needs ${threshold.toString()}`);
+
+  console.log(`[cmds/Safe] Executing ${file.meta.name}...`);
+  const tx = await safe.execTransaction(
+    transaction.to,
+    transaction.value,
+    transaction.data,
+    transaction.operation,
+    transaction.safeTxGas,
+    transaction.baseGas,
+    transaction.gasPrice,
+    transaction.gasToken,
+    transaction.refundReceiver,
+    encodeSafeSignatures(ownerSignatures)
+  );
+  console.log(`[cmds/Safe] Tx: ${tx.hash}`);
+  await tx.wait();
+  console.log("[cmds/Safe] Executed");
+}
+
+const program = new Command();
+
+program.requiredOption("--file <path>", "Safe transaction file written in offline mode");
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.file)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
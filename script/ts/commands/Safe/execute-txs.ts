@@ -2,8 +2,10 @@ import { Command } from "commander";
 import signers from "../../entities/signers";
 import { loadConfig } from "../../utils/config";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
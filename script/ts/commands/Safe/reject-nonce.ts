@@ -0,0 +1,38 @@
+// Proposes a rejection for a nonce of the Safe, replacing the transactions pending there
+import { Command } from "commander";
+import signers from "../../entities/signers";
+import { loadConfig } from "../../utils/config";
+import { requireCapabilities } from "../../utils/requirements";
+import SafeWrapper from "../../wrappers/SafeWrapper";
+
+async function main(chainId: number, nonce: number, safeAddress?: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
+  const config = loadConfig(chainId);
+  const deployer = signers.deployer(chainId);
+  const safeWrapper = new SafeWrapper(chainId, safeAddress || config.safe, deployer);
+
+  const pendingNonces = await safeWrapper.getPendingNonces();
+  if (!pendingNonces.includes(nonce))
+    console.warn(`[cmds/Safe] Nothing is pending at nonce ${nonce}, the rejection only uses it up`);
+
+  console.log(`[cmds/Safe] Proposing a rejection of nonce ${nonce} on ${safeWrapper.getAddress()}...`);
+  const tx = await safeWrapper.proposeRejection(nonce);
+  console.log(`[cmds/Safe] Proposed tx: ${tx}`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.requiredOption("--nonce <nonce>", "nonce to reject", parseInt);
+program.option("--safe <address>", "Safe to propose to, defaults to the Safe of the config");
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, opts.nonce, opts.safe)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
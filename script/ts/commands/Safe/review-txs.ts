@@ -0,0 +1,122 @@
+// Reviews pending Safe transactions with their calls decoded, optionally executing a nonce range after simulating it
+import { Command } from "commander";
+import signers from "../../entities/signers";
+import { isDryRun } from "../../utils/cli-context";
+import { loadConfig } from "../../utils/config";
+import { requireCapabilities } from "../../utils/requirements";
+import { decodeCallTree, findUnknownAddresses, flattenSafeCalls, formatCallTree } from "../../utils/safe-review";
+import { simulateTransaction } from "../../utils/simulation";
+import SafeWrapper from "../../wrappers/SafeWrapper";
+
+type Options = {
+  fromNonce?: number;
+  toNonce?: number;
+  execute: boolean;
+  allowUnknown: boolean;
+};
+
+async function main(chainId: number, options: Options) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
+  const config = loadConfig(chainId);
+  const deployer = signers.deployer(chainId);
+  const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
+
+  const { nonce, threshold } = await safeWrapper.getNonceAndThreshold();
+  const pendingTxs = (await safeWrapper.getPendingTransactions()).filter(
+    (tx) =>
+      (options.fromNonce === undefined || tx.nonce >= options.fromNonce) &&
+      (options.toNonce === undefined || tx.nonce <= options.toNonce)
+  );
+  console.log(`[cmds/Safe] Safe ${config.safe} is at nonce ${nonce} with a threshold of ${threshold}`);
+  if (pendingTxs.length === 0) {
+    console.log("[cmds/Safe] No pending transactions");
+    return;
+  }
+
+  const reviews = pendingTxs.map((tx) => {
+    const tree = decodeCallTree(chainId, tx.to, tx.value, tx.data || "0x", tx.operation);
+    const confirmations = (tx.confirmations || []).length;
+    const replacements = pendingTxs.filter((other) => other.nonce === tx.nonce).length - 1;
+    return { tx, tree, confirmations, replacements, unknown: findUnknownAddresses(tree) };
+  });
+  for (const { tx, tree, confirmations, replacements, unknown } of reviews) {
+    console.log(`\n[cmds/Safe] Nonce ${tx.nonce}: ${tx.safeTxHash}`);
+    console.log(`[cmds/Safe] Confirmations: ${confirmations}/${tx.confirmationsRequired}`);
+    if (replacements > 0)
+      console.warn(`[cmds/Safe] ⚠️ ${replacements} other transactions share this nonce, only one can be executed`);
+    console.log(formatCallTree(tree));
+    if (unknown.length > 0) console.warn(`[cmds/Safe] ⚠️ Unknown addresses: ${unknown.join(", ")}`);
+  }
+  console.log();
+  console.table(
+    reviews.map(({ tx, tree, confirmations, replacements, unknown }) => ({
+      nonce: tx.nonce,
+      safeTxHash: tx.safeTxHash,
+      confirmations: `${confirmations}/${tx.confirmationsRequired}`,
+      calls: flattenSafeCalls(tree).length,
+      replacements,
+      unknownAddresses: unknown.length,
+    }))
+  );
+
+  if (!options.execute) return;
+
+  // Executes in nonce order and stops at the first transaction that cannot go through
+  let nextNonce = nonce;
+  for (const { tx, tree, confirmations, replacements, unknown } of reviews) {
+    if (tx.nonce !== nextNonce)
+      throw new Error(`[cmds/Safe] Nonce ${nextNonce} has to be executed before nonce ${tx.nonce}`);
+    if (replacements > 0)
+      throw new Error(`[cmds/Safe] Nonce ${tx.nonce} has several transactions, reject the unwanted ones first`);
+    if (confirmations < tx.confirmationsRequired)
+      throw new Error(`[cmds/Safe] Nonce ${tx.nonce} has ${confirmations}/${tx.confirmationsRequired} confirmations`);
+    if (unknown.length > 0 && !options.allowUnknown)
+      throw new Error(`[cmds/Safe] Nonce ${tx.nonce} involves unknown addresses, pass --allow-unknown once reviewed`);
+
+    const calls = flattenSafeCalls(tree);
+    for (let i = 0; i < calls.length; i++) {
+      if (calls[i].operation !== 0)
+        throw new Error(`[cmds/Safe] Nonce ${tx.nonce} delegatecalls ${calls[i].to}, which cannot be simulated`);
+      const { success, revertReason } = await simulateTransaction(chainId, {
+        from: config.safe,
+        to: calls[i].to,
+        value: calls[i].value,
+        data: calls[i].data,
+        label: `nonce ${tx.nonce} call ${i + 1}/${calls.length}`,
+      });
+      if (!success) throw new Error(`[cmds/Safe] Nonce ${tx.nonce} fails in simulation: ${revertReason}`);
+    }
+
+    if (isDryRun()) {
+      console.log(`[cmds/Safe] Dry run, nonce ${tx.nonce} is not executed`);
+    } else {
+      console.log(`[cmds/Safe] Executing nonce ${tx.nonce}...`);
+      console.log(`[cmds/Safe] Executed: ${await safeWrapper.executeTransaction(tx)}`);
+    }
+    nextNonce++;
+  }
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--from-nonce <nonce>", "first nonce to review", parseInt);
+program.option("--to-nonce <nonce>", "last nonce to review", parseInt);
+program.option("--execute", "execute the reviewed transactions after simulating each of them", false);
+program.option("--allow-unknown", "execute transactions that involve unknown addresses", false);
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, {
+  fromNonce: opts.fromNonce,
+  toNonce: opts.toNonce,
+  execute: opts.execute,
+  allowUnknown: opts.allowUnknown,
+})
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
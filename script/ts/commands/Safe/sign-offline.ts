@@ -0,0 +1,40 @@
+// Adds the signer's signature to a Safe transaction file written in offline mode
+import { Command } from "commander";
+import signers from "../../entities/signers";
+import { requireCapabilities } from "../../utils/requirements";
+import {
+  mergeSafeOfflineSignatures,
+  readSafeOfflineFile,
+  signSafeTxHash,
+  writeSafeOfflineFile,
+} from "../../utils/safe-offline";
+
+async function main(filePath: string) {
+  const file = readSafeOfflineFile(filePath);
+  const chainId = Number(file.chainId);
+  requireCapabilities(chainId, ["signer"]);
+  const deployer = signers.deployer(chainId);
+
+  console.log(`[cmds/Safe] ${file.meta.name}`);
+  for (const transaction of file.transactions) console.log(transaction.description);
+
+  const signature = await signSafeTxHash(deployer, file.safe.safeTxHash);
+  const signed = mergeSafeOfflineSignatures(file, [{ ...file, safe: { ...file.safe, signatures: [signature] } }]);
+  writeSafeOfflineFile(filePath, signed);
+  console.log(`[cmds/Safe] Signed as ${signature.signer}, ${signed.safe.signatures.length} signatures in ${filePath}`);
+}
+
+const program = new Command();
+
+program.requiredOption("--file <path>", "Safe transaction file written in offline mode");
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.file)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,43 @@
+// Cancels a queued Timelock transaction of the ledger
+import { Command } from "commander";
+import signers from "../../entities/signers";
+import TimelockWrapper from "../../wrappers/TimelockWrapper";
+import { requireCapabilities } from "../../utils/requirements";
+import { findTimelockLedgerEntry, PENDING_STATUSES } from "../../utils/timelock-ledger";
+
+async function main(chainId: number, txHash: string) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
+  const deployer = signers.deployer(chainId);
+  const timelockWrapper = new TimelockWrapper(chainId, deployer);
+
+  const entry = findTimelockLedgerEntry(chainId, txHash);
+  if (!PENDING_STATUSES.includes(entry.status))
+    throw new Error(`[cmds/Timelock] ${txHash} is ${entry.status}, there is nothing to cancel`);
+
+  const tx = await timelockWrapper.cancelTransaction(
+    entry.info,
+    entry.target,
+    entry.value,
+    entry.signature,
+    entry.paramTypes,
+    entry.params,
+    entry.eta
+  );
+  console.log(`[cmds/Timelock] Tx: ${tx}`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.requiredOption("--tx-hash <txHash>", "Timelock id of the transaction, see queries/Timelock/list-queue.ts");
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, opts.txHash)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,67 @@
+// Executes every queued Timelock transaction of the ledger whose eta has passed
+import { Command } from "commander";
+import * as readlineSync from "readline-sync";
+import signers from "../../entities/signers";
+import chains from "../../entities/chains";
+import TimelockWrapper from "../../wrappers/TimelockWrapper";
+import { requireCapabilities } from "../../utils/requirements";
+import { readTimelockLedger, reconcileTimelockLedger } from "../../utils/timelock-ledger";
+
+async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
+  const deployer = signers.deployer(chainId);
+  const timelockWrapper = new TimelockWrapper(chainId, deployer);
+
+  console.log("[cmds/Timelock] Reconciling the ledger...");
+  const changes = await reconcileTimelockLedger(chainId);
+  if (changes.length > 0) console.table(changes);
+
+  const now = (await chains[chainId].jsonRpcProvider.getBlock("latest")).timestamp;
+  const matured = readTimelockLedger(chainId).entries.filter((e) => e.status === "queued" && Number(e.eta) <= now);
+  if (matured.length === 0) {
+    console.log("[cmds/Timelock] Nothing to execute");
+    return;
+  }
+  console.table(matured.map((e) => ({ txHash: e.txHash, info: e.info, target: e.target, signature: e.signature })));
+  const confirm = readlineSync.question(`Confirm to execute ${matured.length} transactions? (y/n): `);
+  switch (confirm) {
+    case "y":
+      break;
+    case "n":
+      console.log("Cancelled!");
+      return;
+    default:
+      console.log("Invalid input!");
+      return;
+  }
+
+  for (const entry of matured) {
+    await timelockWrapper.executeTransaction(
+      entry.info,
+      entry.queuedAt,
+      entry.executionTransaction,
+      entry.target,
+      entry.value,
+      entry.signature,
+      entry.paramTypes,
+      entry.params,
+      entry.eta
+    );
+  }
+  console.log(`[cmds/Timelock] Executed ${matured.length} transactions`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,32 @@
+// Updates the Timelock ledger from the queued transactions and events of the Timelock
+import { Command } from "commander";
+import { requireCapabilities } from "../../utils/requirements";
+import { reconcileTimelockLedger } from "../../utils/timelock-ledger";
+
+async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc"]);
+
+  console.log("[cmds/Timelock] Reconciling the ledger...");
+  const changes = await reconcileTimelockLedger(chainId);
+  if (changes.length === 0) {
+    console.log("[cmds/Timelock] Ledger is up to date");
+    return;
+  }
+  console.table(changes);
+  console.log(`[cmds/Timelock] Updated ${changes.length} entries`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -12,10 +12,13 @@ import SafeWrapper from "../../wrappers/SafeWrapper";
 import { IMultiContractCall } from "../../wrappers/MulticallWrapper/interface";
 import { MulticallWrapper } from "../../wrappers/MulticallWrapper";
 import { PythEvmPriceStruct } from "../../entities/pyth";
+import { requireCapabilities } from "../../utils/requirements";
+import { setSignerOverride } from "../../utils/signer-config";
 
-async function main(chainId: number, nonce?: number) {
+async function main(chainId: number, nonce?: number, replace: boolean = false) {
+  requireCapabilities(chainId, ["rpc", "signer:treasuryProposer", "safe"]);
   const config = loadConfig(chainId);
-  const signer = signers.deployer(chainId);
+  const signer = signers.treasuryProposer(chainId);
   const multicallWrapper = new MulticallWrapper(config.multicall, signer);
   const safeWrapper = new SafeWrapper(chainId, config.safe, signer);
 
@@ -64,35 +67,22 @@ async function main(chainId: number, nonce?: number) {
       return;
   }
 
-  let i = 0;
-  for (const [key, c] of Object.entries(collaterals)) {
-    const offset = i * 2;
-    if ((ret[offset] as ethers.BigNumber).isZero()) {
+  const batch = safeWrapper.createBatch({ nonce, replace });
+  Object.entries(collaterals).forEach(([key, c], i) => {
+    const devFee = ret[i * 2] as ethers.BigNumber;
+    if (devFee.isZero()) {
       console.log(`[cmds/VaultStorage] No dev fee for ${key}`);
-      i++;
-      continue;
+      return;
     }
-    const tx = await safeWrapper.proposeTransaction(
+    batch.add(
       vaultStorage.address,
       0,
-      vaultStorage.interface.encodeFunctionData("withdrawDevFee", [
-        c.address,
-        ret[offset] as ethers.BigNumber,
-        TREASURY_ADDRESS,
-      ]),
-      { nonce }
-    );
-    if (nonce != undefined) {
-      nonce++;
-    }
-    console.log(
-      `[cmds/VaultStorage] Proposed tx to withdraw ${ethers.utils.formatUnits(
-        ret[offset] as ethers.BigNumber,
-        c.decimals
-      )} ${key}: ${tx}`
+      vaultStorage.interface.encodeFunctionData("withdrawDevFee", [c.address, devFee, TREASURY_ADDRESS]),
+      `withdraw ${ethers.utils.formatUnits(devFee, c.decimals)} ${key}`
     );
-    i++;
-  }
+  });
+  const txs = await batch.propose();
+  console.log(`[cmds/VaultStorage] Proposed tx to withdraw dev fees: ${txs.join(", ")}`);
 
   console.log("[cmds/VaultStorage] Finished");
 }
@@ -101,10 +91,14 @@ const program = new Command();
 
 program.requiredOption("--chain-id <chain-id>", "chain id", parseInt);
 program.option("--nonce <nonce>", "nonce", parseInt);
+program.option("--replace", "replace the transactions pending at --nonce", false);
+program.option("--signer <spec>", "treasuryProposer signer spec, e.g. keystore:./keys/treasuryProposer.json");
 
 const opts = program.parse(process.argv).opts();
 
-main(opts.chainId, opts.nonce)
+if (opts.signer) setSignerOverride("treasuryProposer", opts.signer);
+
+main(opts.chainId, opts.nonce, opts.replace)
   .then(() => {
     process.exit(0);
   })
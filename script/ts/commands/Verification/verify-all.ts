@@ -0,0 +1,102 @@
+// Verifies every address book contract that is not verified yet with each provider
+import { Command } from "commander";
+import { getImplementationAddress } from "@openzeppelin/upgrades-core";
+import { ethers, network } from "hardhat";
+import { isDryRun } from "../../utils/cli-context";
+import { listAddressBook } from "../../utils/config";
+import {
+  getVerificationProviders,
+  readVerificationRecords,
+  resolveContractName,
+  VerificationProvider,
+  verifyContract,
+} from "../../utils/verification";
+
+type Options = {
+  chainId: number;
+  providers?: Array<VerificationProvider>;
+};
+
+type Target = {
+  key: string;
+  address: string;
+  contract: string;
+  providers: Array<VerificationProvider>;
+};
+
+async function main(options: Options) {
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  if (chainId !== options.chainId)
+    throw new Error(
+      `[cmds/Verification] Hardhat network is on chain ${chainId}, run with HARDHAT_NETWORK of ${options.chainId}`
+    );
+  const providers = options.providers || getVerificationProviders();
+  const records = readVerificationRecords(chainId);
+
+  const targets: Array<Target> = [];
+  const unknown: Array<string> = [];
+  for (const { key, address } of listAddressBook(chainId)) {
+    if ((await ethers.provider.getCode(address)) === "0x") continue;
+    let target = address;
+    try {
+      // Explorers verify a proxy along with its implementation
+      target = await getImplementationAddress(network.provider, address);
+    } catch (e) {
+      // Not an EIP-1967 proxy
+    }
+    // Several keys may share an implementation
+    if (targets.some((each) => each.address.toLowerCase() === target.toLowerCase())) continue;
+    const contract = resolveContractName(chainId, key, target);
+    if (!contract) {
+      unknown.push(key);
+      continue;
+    }
+    const record = records[target.toLowerCase()];
+    const pending = providers.filter((provider) => {
+      const status = record && record.providers[provider];
+      return !status || status.status !== "verified";
+    });
+    if (pending.length > 0) targets.push({ key, address: target, contract, providers: pending });
+  }
+
+  if (unknown.length > 0) console.log(`[cmds/Verification] Contract name not known, skipped: ${unknown.join(", ")}`);
+  if (targets.length === 0) {
+    console.log("[cmds/Verification] Nothing left to verify");
+    return;
+  }
+  console.table(targets.map((target) => ({ ...target, providers: target.providers.join(", ") })));
+  if (isDryRun()) return;
+
+  const rows: Array<{ key: string; contract: string; provider: string; result: string; detail: string }> = [];
+  for (const target of targets) {
+    const results = await verifyContract({ address: target.address, name: target.contract }, target.providers);
+    for (const result of results) rows.push({ key: target.key, contract: target.contract, ...result });
+  }
+  console.table(rows);
+  const failed = rows.filter((row) => row.result === "failed").length;
+  console.log(
+    `[cmds/Verification] ${rows.filter((row) => row.result === "verified").length} verified, ${failed} failed, ` +
+      `${rows.filter((row) => row.result === "skipped").length} skipped`
+  );
+  if (failed > 0) process.exitCode = 1;
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option(
+  "--providers <providers>",
+  "comma-separated providers among tenderly, etherscan and sourcify, defaults to VERIFY_PROVIDERS",
+  (value: string) => getVerificationProviders(value)
+);
+
+const opts = program.parse(process.argv).opts();
+
+main({ chainId: opts.chainId, providers: opts.providers })
+  .then(() => {
+    process.exit();
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,89 @@
+// Verifies one contract, by address or address book key, with Tenderly, Etherscan or Sourcify
+import { Command } from "commander";
+import { getImplementationAddress } from "@openzeppelin/upgrades-core";
+import { ethers, network } from "hardhat";
+import { getAddressBookEntry, loadConfig } from "../../utils/config";
+import {
+  getVerificationProviders,
+  resolveContractName,
+  VerificationProvider,
+  verifyContract,
+} from "../../utils/verification";
+
+type Options = {
+  chainId: number;
+  address?: string;
+  key?: string;
+  contract?: string;
+  constructorArgs?: string;
+  providers?: Array<VerificationProvider>;
+};
+
+async function main(options: Options) {
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  if (chainId !== options.chainId)
+    throw new Error(
+      `[cmds/Verification] Hardhat network is on chain ${chainId}, run with HARDHAT_NETWORK of ${options.chainId}`
+    );
+  if (!options.address === !options.key) throw new Error("[cmds/Verification] Pass either --address or --key");
+
+  let address = options.address;
+  if (options.key) {
+    const value = getAddressBookEntry(loadConfig(chainId), options.key);
+    if (!value) throw new Error(`[cmds/Verification] ${options.key} is not in the address book`);
+    address = value;
+    try {
+      // The proxy of an address book entry is verified along with its implementation by the explorers
+      address = await getImplementationAddress(network.provider, value);
+    } catch (e) {
+      // Not an EIP-1967 proxy
+    }
+  }
+  const name = options.contract || resolveContractName(chainId, options.key || "", address!);
+  if (!name) throw new Error(`[cmds/Verification] Contract name of ${address} is not known, pass --contract`);
+
+  const results = await verifyContract(
+    {
+      address: address!,
+      name,
+      constructorArguments: options.constructorArgs ? JSON.parse(options.constructorArgs) : undefined,
+    },
+    options.providers
+  );
+  console.table(results);
+  if (results.some((result) => result.result === "failed")) process.exitCode = 1;
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--address <address>", "address of the contract");
+program.option("--key <key>", "address book key of the contract, e.g. storages.config");
+program.option("--contract <name>", "contract name, when the deployment records do not tell");
+program.option(
+  "--constructor-args <json>",
+  "JSON array of constructor arguments, when the deployment records do not tell"
+);
+program.option(
+  "--providers <providers>",
+  "comma-separated providers among tenderly, etherscan and sourcify, defaults to VERIFY_PROVIDERS",
+  (value: string) => getVerificationProviders(value)
+);
+
+const opts = program.parse(process.argv).opts();
+
+main({
+  chainId: opts.chainId,
+  address: opts.address,
+  key: opts.key,
+  contract: opts.contract,
+  constructorArgs: opts.constructorArgs,
+  providers: opts.providers,
+})
+  .then(() => {
+    process.exit();
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
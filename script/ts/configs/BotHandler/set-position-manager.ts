@@ -3,10 +3,12 @@ import { loadConfig } from "../../utils/config";
 import { Command } from "commander";
 import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 const positionManagers = ["0x6a5D2BF8ba767f7763cd342Cb62C5076f9924872"];
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
@@ -5,39 +5,35 @@ import SafeWrapper from "../../wrappers/SafeWrapper";
 import { CIXPriceAdapter__factory } from "../../../../typechain";
 import { ethers } from "ethers";
 import { compareAddress } from "../../utils/address";
+import { requireCapabilities } from "../../utils/requirements";
+import { confirmNormalizedInputs, readInputEntry } from "../../utils/input-file";
 
-async function main(chainId: number) {
+async function main(chainId: number, inputPath: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
   const cixPriceAdapter = CIXPriceAdapter__factory.connect(config.oracles.priceAdapters.dix, deployer);
 
-  const cE8 = ethers.utils.parseUnits("47.46426", 8);
-  const assetIds = [
-    ethers.utils.formatBytes32String("EUR"),
-    ethers.utils.formatBytes32String("JPY"),
-    ethers.utils.formatBytes32String("GBP"),
-    ethers.utils.formatBytes32String("CAD"),
-    ethers.utils.formatBytes32String("SEK"),
-    ethers.utils.formatBytes32String("CHF"),
-  ];
-  const weightsE8 = [
-    ethers.utils.parseUnits("0.560", 8),
-    ethers.utils.parseUnits("0.140", 8),
-    ethers.utils.parseUnits("0.120", 8),
-    ethers.utils.parseUnits("0.100", 8),
-    ethers.utils.parseUnits("0.040", 8),
-    ethers.utils.parseUnits("0.040", 8),
-  ];
-
-  const usdQuoteds = [
-    true, // EURUSD
-    false, // USDJPY
-    true, // GBPUSD
-    false, // USDCAD
-    false, // USDSEK
-    false, // USDCHF
-  ];
+  const input = readInputEntry(inputPath);
+  const components = input.entries("components");
+  const cE8 = input.units("c", 8);
+  const assetIds = components.map((component) => component.assetId("asset"));
+  const weightsE8 = components.map((component) => component.units("weight", 8));
+  const usdQuoteds = components.map((component) => component.boolean("usdQuoted"));
+  if (cE8.isZero()) throw new Error("[configs/CIXPriceAdapter] c must not be zero");
+  const weightSumE8 = weightsE8.reduce((sum, weight) => sum.add(weight), ethers.BigNumber.from(0));
+  if (!weightSumE8.eq(ethers.utils.parseUnits("1", 8)))
+    throw new Error(
+      `[configs/CIXPriceAdapter] Weights add up to ${ethers.utils.formatUnits(weightSumE8, 8)}, expected 1`
+    );
+  if (
+    !confirmNormalizedInputs(
+      `CIX config to set, cE8 ${cE8.toString()}`,
+      assetIds.map((assetId, i) => ({ assetId, weightE8: weightsE8[i], usdQuoted: usdQuoteds[i] }))
+    )
+  )
+    return;
 
   console.log(`[configs/CIXPriceAdapter] Set Config...`);
   if (compareAddress(await cixPriceAdapter.owner(), config.safe)) {
@@ -57,10 +53,11 @@ async function main(chainId: number) {
 const program = new Command();
 
 program.requiredOption("--chain-id <number>", "chain id", parseInt);
+program.requiredOption("--input <path>", "YAML or JSON file of the CIX config, see configs/inputs/CIXPriceAdapter");
 
 const opts = program.parse(process.argv).opts();
 
-main(opts.chainId)
+main(opts.chainId, opts.input)
   .then(() => {
     process.exit(0);
   })
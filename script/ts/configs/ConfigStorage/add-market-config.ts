@@ -5,6 +5,7 @@ import { Command } from "commander";
 import signers from "../../entities/signers";
 import assetClasses from "../../entities/asset-classes";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 type AddMarketConfig = {
   assetId: string;
@@ -26,6 +27,7 @@ type AddMarketConfig = {
 };
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
 
@@ -5,8 +5,10 @@ import SafeWrapper from "../../wrappers/SafeWrapper";
 import { Command } from "commander";
 import signers from "../../entities/signers";
 import assetClasses from "../../entities/asset-classes";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const INPUTS = [
     {
       assetClass: assetClasses.crypto,
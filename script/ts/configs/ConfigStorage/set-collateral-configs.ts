@@ -4,33 +4,29 @@ import { loadConfig } from "../../utils/config";
 import { Command } from "commander";
 import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
+import { confirmNormalizedInputs, readInputEntry } from "../../utils/input-file";
 
 const BPS = 10000;
 
-async function main(chainId: number) {
+async function main(chainId: number, inputPath: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
   const configStorage = ConfigStorage__factory.connect(config.storages.config, deployer);
 
-  const inputs = [
-    {
-      assetId: ethers.utils.formatBytes32String("GM-BTCUSD"),
+  const inputs = readInputEntry(inputPath)
+    .entries("collaterals")
+    .map((collateral) => ({
+      assetId: collateral.assetId("asset"),
       collateralConfig: {
-        collateralFactorBPS: 0.8 * BPS,
-        accepted: true,
-        settleStrategy: ethers.constants.AddressZero,
+        collateralFactorBPS: collateral.percentBps("collateralFactor", BPS),
+        accepted: collateral.boolean("accepted"),
+        settleStrategy: collateral.address("settleStrategy", ethers.constants.AddressZero),
       },
-    },
-    {
-      assetId: ethers.utils.formatBytes32String("GM-ETHUSD"),
-      collateralConfig: {
-        collateralFactorBPS: 0.8 * BPS,
-        accepted: true,
-        settleStrategy: ethers.constants.AddressZero,
-      },
-    },
-  ];
+    }));
+  if (!confirmNormalizedInputs("Collateral configs to set", inputs)) return;
 
   console.log("[configs/ConfigStorage] Set Collateral Configs...");
   const tx = await safeWrapper.proposeTransaction(
@@ -48,12 +44,13 @@ async function main(chainId: number) {
 const prog = new Command();
 
 prog.requiredOption("--chain-id <number>", "chain id", parseInt);
+prog.requiredOption("--input <path>", "YAML or JSON file of collateral configs, see configs/inputs/ConfigStorage");
 
 prog.parse(process.argv);
 
 const opts = prog.opts();
 
-main(opts.chainId)
+main(opts.chainId, opts.input)
   .then(() => {
     process.exit(0);
   })
@@ -5,6 +5,11 @@ import { Command } from "commander";
 import signers from "../../entities/signers";
 import assetClasses from "../../entities/asset-classes";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
+import { confirmNormalizedInputs, readInputEntry } from "../../utils/input-file";
+import { AssetClass } from "../../entities/market-registry";
+
+const BPS = 10000;
 
 type AddMarketConfig = {
   marketIndex: number;
@@ -26,107 +31,38 @@ type AddMarketConfig = {
   isAdaptiveFeeEnabled: boolean;
 };
 
-async function main(chainId: number) {
+async function main(chainId: number, inputPath: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
 
-  const marketConfigs: Array<AddMarketConfig> = [
-    {
-      marketIndex: 26,
-      assetId: ethers.utils.formatBytes32String("CHF"),
-      maxLongPositionSize: ethers.utils.parseUnits("3000000", 30),
-      maxShortPositionSize: ethers.utils.parseUnits("3000000", 30),
-      increasePositionFeeRateBPS: 1, // 0.01%
-      decreasePositionFeeRateBPS: 1, // 0.01%
-      initialMarginFractionBPS: 10, // IMF = 0.1%, Max leverage = 1000
-      maintenanceMarginFractionBPS: 5, // MMF = 0.05%
-      maxProfitRateBPS: 500000, // 5000%
-      assetClass: assetClasses.forex,
-      allowIncreasePosition: true,
-      active: true,
-      fundingRate: {
-        maxSkewScaleUSD: ethers.utils.parseUnits("10000000000", 30), // 10B
-        maxFundingRate: ethers.utils.parseUnits("1", 18), // 100% per day
-      },
-      isAdaptiveFeeEnabled: false,
-    },
-    {
-      marketIndex: 28,
-      assetId: ethers.utils.formatBytes32String("CAD"),
-      maxLongPositionSize: ethers.utils.parseUnits("3000000", 30),
-      maxShortPositionSize: ethers.utils.parseUnits("3000000", 30),
-      increasePositionFeeRateBPS: 1, // 0.01%
-      decreasePositionFeeRateBPS: 1, // 0.01%
-      initialMarginFractionBPS: 10, // IMF = 0.1%, Max leverage = 1000
-      maintenanceMarginFractionBPS: 5, // MMF = 0.05%
-      maxProfitRateBPS: 500000, // 5000%
-      assetClass: assetClasses.forex,
-      allowIncreasePosition: true,
-      active: true,
-      fundingRate: {
-        maxSkewScaleUSD: ethers.utils.parseUnits("10000000000", 30), // 10B
-        maxFundingRate: ethers.utils.parseUnits("1", 18), // 800% per day
-      },
-      isAdaptiveFeeEnabled: false,
-    },
-    {
-      marketIndex: 29,
-      assetId: ethers.utils.formatBytes32String("SGD"),
-      maxLongPositionSize: ethers.utils.parseUnits("3000000", 30),
-      maxShortPositionSize: ethers.utils.parseUnits("3000000", 30),
-      increasePositionFeeRateBPS: 1, // 0.01%
-      decreasePositionFeeRateBPS: 1, // 0.01%
-      initialMarginFractionBPS: 10, // IMF = 0.1%, Max leverage = 1000
-      maintenanceMarginFractionBPS: 5, // MMF = 0.05%
-      maxProfitRateBPS: 500000, // 5000%
-      assetClass: assetClasses.forex,
-      allowIncreasePosition: true,
-      active: true,
-      fundingRate: {
-        maxSkewScaleUSD: ethers.utils.parseUnits("10000000000", 30), // 10B
-        maxFundingRate: ethers.utils.parseUnits("1", 18), // 100% per day
-      },
-      isAdaptiveFeeEnabled: false,
+  const input = readInputEntry(inputPath);
+  const marketConfigs: Array<AddMarketConfig> = input.entries("markets").map((market) => ({
+    marketIndex: market.integer("marketIndex"),
+    assetId: market.assetId("asset"),
+    maxLongPositionSize: market.usdE30("maxLongPositionSizeUSD"),
+    maxShortPositionSize: market.usdE30("maxShortPositionSizeUSD"),
+    increasePositionFeeRateBPS: market.percentBps("increasePositionFee", BPS),
+    decreasePositionFeeRateBPS: market.percentBps("decreasePositionFee", BPS),
+    initialMarginFractionBPS: market.leverageImfBps("maxLeverage"),
+    maintenanceMarginFractionBPS: market.percentBps("maintenanceMarginFraction", BPS),
+    maxProfitRateBPS: market.percentBps("maxProfit"),
+    assetClass: assetClasses[market.oneOf("assetClass", Object.keys(assetClasses) as Array<AssetClass>)],
+    allowIncreasePosition: market.boolean("allowIncreasePosition"),
+    active: market.boolean("active"),
+    fundingRate: {
+      maxSkewScaleUSD: market.entry("fundingRate").usdE30("maxSkewScaleUSD"),
+      maxFundingRate: market.entry("fundingRate").percentE18("maxFundingRatePerDay"),
     },
-    {
-      marketIndex: 30,
-      assetId: ethers.utils.formatBytes32String("CNH"),
-      maxLongPositionSize: ethers.utils.parseUnits("3000000", 30),
-      maxShortPositionSize: ethers.utils.parseUnits("3000000", 30),
-      increasePositionFeeRateBPS: 1, // 0.01%
-      decreasePositionFeeRateBPS: 1, // 0.01%
-      initialMarginFractionBPS: 10, // IMF = 0.1%, Max leverage = 1000
-      maintenanceMarginFractionBPS: 5, // MMF = 0.05%
-      maxProfitRateBPS: 500000, // 5000%
-      assetClass: assetClasses.forex,
-      allowIncreasePosition: true,
-      active: true,
-      fundingRate: {
-        maxSkewScaleUSD: ethers.utils.parseUnits("10000000000", 30), // 10B
-        maxFundingRate: ethers.utils.parseUnits("1", 18), // 100% per day
-      },
-      isAdaptiveFeeEnabled: false,
-    },
-    {
-      marketIndex: 31,
-      assetId: ethers.utils.formatBytes32String("HKD"),
-      maxLongPositionSize: ethers.utils.parseUnits("3000000", 30),
-      maxShortPositionSize: ethers.utils.parseUnits("3000000", 30),
-      increasePositionFeeRateBPS: 1, // 0.01%
-      decreasePositionFeeRateBPS: 1, // 0.01%
-      initialMarginFractionBPS: 10, // IMF = 0.1%, Max leverage = 1000
-      maintenanceMarginFractionBPS: 5, // MMF = 0.05%
-      maxProfitRateBPS: 500000, // 5000%
-      assetClass: assetClasses.forex,
-      allowIncreasePosition: true,
-      active: true,
-      fundingRate: {
-        maxSkewScaleUSD: ethers.utils.parseUnits("10000000000", 30), // 10B
-        maxFundingRate: ethers.utils.parseUnits("1", 18), // 800% per day
-      },
-      isAdaptiveFeeEnabled: false,
-    },
-  ];
+    isAdaptiveFeeEnabled: market.boolean("isAdaptiveFeeEnabled", false),
+  }));
+  for (const marketConfig of marketConfigs) {
+    if (marketConfig.maintenanceMarginFractionBPS >= marketConfig.initialMarginFractionBPS)
+      throw new Error(
+        `[configs/ConfigStorage] Market ${marketConfig.marketIndex}: maintenance margin must be below the initial margin`
+      );
+  }
+  if (!confirmNormalizedInputs("Market configs to set", marketConfigs)) return;
 
   const configStorage = ConfigStorage__factory.connect(config.storages.config, deployer);
   const tradeHelper = TradeHelper__factory.connect(config.helpers.trade, deployer);
@@ -169,12 +105,13 @@ async function main(chainId: number) {
 const prog = new Command();
 
 prog.requiredOption("--chain-id <number>", "chain id", parseInt);
+prog.requiredOption("--input <path>", "YAML or JSON file of market configs, see configs/inputs/ConfigStorage");
 
 prog.parse(process.argv);
 
 const opts = prog.opts();
 
-main(opts.chainId)
+main(opts.chainId, opts.input)
   .then(() => {
     process.exit(0);
   })
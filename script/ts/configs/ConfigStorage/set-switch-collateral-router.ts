@@ -4,8 +4,10 @@ import SafeWrapper from "../../wrappers/SafeWrapper";
 import { Command } from "commander";
 import signers from "../../entities/signers";
 import { compareAddress } from "../../utils/address";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
@@ -3,8 +3,10 @@ import { loadConfig } from "../../utils/config";
 import SafeWrapper from "../../wrappers/SafeWrapper";
 import { Command } from "commander";
 import signers from "../../entities/signers";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, deployer);
@@ -2,6 +2,7 @@ import { Command } from "commander";
 import { loadConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import { CurveDexter__factory } from "../../../../typechain";
+import { requireCapabilities } from "../../utils/requirements";
 
 type SetPoolConfig = {
   tokenIn: string;
@@ -12,6 +13,7 @@ type SetPoolConfig = {
 };
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const dexter = CurveDexter__factory.connect(config.extension.dexter.curve, deployer);
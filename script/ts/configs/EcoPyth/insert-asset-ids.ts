@@ -4,10 +4,12 @@ import signers from "../../entities/signers";
 import { loadConfig } from "../../utils/config";
 import { Command } from "commander";
 import { OwnerWrapper } from "../../wrappers/OwnerWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 const ASSET_IDS = [ethers.utils.formatBytes32String("MANTA")];
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const deployer = signers.deployer(chainId);
   const config = loadConfig(chainId);
   const ownerWrapper = new OwnerWrapper(chainId, deployer);
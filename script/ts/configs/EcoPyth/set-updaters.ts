@@ -4,8 +4,10 @@ import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
 import { Command } from "commander";
 import { compareAddress } from "../../utils/address";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, signers.deployer(chainId));
 
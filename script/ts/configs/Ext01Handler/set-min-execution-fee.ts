@@ -5,6 +5,7 @@ import { Command } from "commander";
 import signers from "../../entities/signers";
 import { compareAddress } from "../../utils/address";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 // OrderType 1 = Create switch collateral order
 const SWITCH_COLLATERAL_ORDER_TYPE = 1;
@@ -12,6 +13,7 @@ const SWITCH_COLLATERAL_ORDER_TYPE = 1;
 const TRANSFER_COLLATERAL_ORDER_TYPE = 2;
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
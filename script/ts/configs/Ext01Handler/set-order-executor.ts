@@ -5,11 +5,13 @@ import { Command } from "commander";
 import signers from "../../entities/signers";
 import { compareAddress } from "../../utils/address";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 // OrderType 1 = Create switch collateral order
 const SWITCH_COLLATERAL_ORDER_TYPE = 1;
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const safeWrapper = new SafeWrapper(chainId, config.safe, deployer);
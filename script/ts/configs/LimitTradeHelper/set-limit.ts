@@ -3,16 +3,18 @@ import { loadConfig, loadMarketConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
 import { LimitTradeHelper__factory } from "../../../../typechain";
-import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
+import { confirmNormalizedInputs, readInputEntry } from "../../utils/input-file";
 
-async function main(chainId: number) {
-  const inputs = [
-    {
-      marketIndex: 48,
-      tradeSizeLimit: ethers.utils.parseUnits("100000", 30),
-      positionSizeLimit: ethers.utils.parseUnits("100000", 30),
-    },
-  ];
+async function main(chainId: number, inputPath: string) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
+  const inputs = readInputEntry(inputPath)
+    .entries("limits")
+    .map((limit) => ({
+      marketIndex: limit.integer("marketIndex"),
+      tradeSizeLimit: limit.usdE30("tradeSizeLimitUSD"),
+      positionSizeLimit: limit.usdE30("positionSizeLimitUSD"),
+    }));
 
   const config = loadConfig(chainId);
   const marketConfig = loadMarketConfig(chainId);
@@ -21,16 +23,17 @@ async function main(chainId: number) {
   const limitTradeHelper = LimitTradeHelper__factory.connect(config.helpers.limitTrade, deployer);
 
   console.log(`[configs/LimitTradeHelper] Set Limit By Market Index...`);
-  console.table(
-    inputs.map((i) => {
-      return {
-        marketIndex: i.marketIndex,
-        market: marketConfig.markets[i.marketIndex].name,
-        positionSizeLimit: ethers.utils.formatUnits(i.positionSizeLimit, 30),
-        tradeSizeLimit: ethers.utils.formatUnits(i.tradeSizeLimit, 30),
-      };
-    })
-  );
+  for (const input of inputs) {
+    if (!marketConfig.markets[input.marketIndex])
+      throw new Error(`[configs/LimitTradeHelper] Unknown market index ${input.marketIndex}`);
+  }
+  if (
+    !confirmNormalizedInputs(
+      "Limits to set",
+      inputs.map((i) => ({ ...i, market: marketConfig.markets[i.marketIndex].name }))
+    )
+  )
+    return;
   const tx = await safeWrapper.proposeTransaction(
     limitTradeHelper.address,
     0,
@@ -46,10 +49,11 @@ async function main(chainId: number) {
 const program = new Command();
 
 program.requiredOption("--chain-id <number>", "chain id", parseInt);
+program.requiredOption("--input <path>", "YAML or JSON file of limits, see configs/inputs/LimitTradeHelper");
 
 const opts = program.parse(process.argv).opts();
 
-main(opts.chainId)
+main(opts.chainId, opts.input)
   .then(() => {
     process.exit(0);
   })
@@ -7,8 +7,12 @@ import {
 } from "../../../../typechain";
 import signers from "../../entities/signers";
 import { loadConfig } from "../../utils/config";
+import { requireCapabilities } from "../../utils/requirements";
+import { compareAddress } from "../../utils/address";
+import SafeWrapper from "../../wrappers/SafeWrapper";
 
 async function main() {
+  requireCapabilities(42161, ["rpc", "signer", "safe"]);
   const config = loadConfig(42161);
 
   const NEW_PYTH = config.oracles.ecoPyth2;
@@ -21,18 +25,29 @@ async function main() {
   const limitTradeHandler = LimitTradeHandler__factory.connect(config.handlers.limitTrade, deployer);
   const liquidityHandler = LiquidityHandler__factory.connect(config.handlers.liquidity, deployer);
 
-  let nonce = await deployer.getTransactionCount();
+  const contracts = [pythAdapter, botHandler, crossMarginHandler, limitTradeHandler, liquidityHandler];
+  const owners = await Promise.all(contracts.map((contract) => contract.owner()));
+  const deployerAddress = await deployer.getAddress();
 
   console.log("[config/Multi/setPyth] Set Pyth on multiple contracts...");
-  const promises = [];
-  promises.push(pythAdapter.setPyth(NEW_PYTH, { nonce: nonce++ }));
-  promises.push(botHandler.setPyth(NEW_PYTH, { nonce: nonce++ }));
-  promises.push(crossMarginHandler.setPyth(NEW_PYTH, { nonce: nonce++ }));
-  promises.push(limitTradeHandler.setPyth(NEW_PYTH, { nonce: nonce++ }));
-  promises.push(liquidityHandler.setPyth(NEW_PYTH, { nonce: nonce++ }));
-  const txs = await Promise.all(promises);
-  console.log(`[config/Multi/setPyth] Txs: ${txs.map((tx) => tx.hash).join(",")}`);
-  await txs[txs.length - 1].wait(1);
+  if (owners.every((owner) => compareAddress(owner, config.safe))) {
+    // One proposal for the Safe signers rather than five
+    const batch = new SafeWrapper(42161, config.safe, deployer).createBatch();
+    for (const contract of contracts) {
+      batch.add(contract.address, 0, contract.interface.encodeFunctionData("setPyth", [NEW_PYTH]));
+    }
+    const txs = await batch.propose();
+    console.log(`[config/Multi/setPyth] Proposed: ${txs.join(",")}`);
+  } else if (owners.every((owner) => compareAddress(owner, deployerAddress))) {
+    let nonce = await deployer.getTransactionCount();
+    const promises = [];
+    for (const contract of contracts) promises.push(contract.setPyth(NEW_PYTH, { nonce: nonce++ }));
+    const txs = await Promise.all(promises);
+    console.log(`[config/Multi/setPyth] Txs: ${txs.map((tx) => tx.hash).join(",")}`);
+    await txs[txs.length - 1].wait(1);
+  } else {
+    throw new Error(`[config/Multi/setPyth] Contracts are owned by different accounts: ${owners.join(", ")}`);
+  }
   console.log("[config/Multi/setPyth] Finished");
 }
 
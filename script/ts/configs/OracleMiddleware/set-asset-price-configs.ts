@@ -4,8 +4,10 @@ import { loadConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import { Command } from "commander";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const assetConfigs = [
     {
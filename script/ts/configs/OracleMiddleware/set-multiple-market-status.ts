@@ -1,82 +1,47 @@
-import { ethers } from "hardhat";
 import { OracleMiddleware__factory } from "../../../../typechain";
-import { getConfig } from "../../utils/config";
+import { loadConfig } from "../../utils/config";
+import signers from "../../entities/signers";
+import { Command } from "commander";
+import { requireCapabilities } from "../../utils/requirements";
+import { confirmNormalizedInputs, readInputEntry } from "../../utils/input-file";
 
-const config = getConfig();
+// 0 is undefined, the oracle reverts on it
+const MARKET_STATUSES = { inactive: 1, active: 2 };
 
-const inputs = [
-  {
-    assetId: ethers.utils.formatBytes32String("ETH"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("BTC"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("AAPL"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("JPY"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("XAU"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("AMZN"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("TSLA"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("EUR"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("XAG"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("AUD"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("GBP"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("ADA"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("MATIC"),
-    status: 2,
-  },
-  {
-    assetId: ethers.utils.formatBytes32String("SUI"),
-    status: 2,
-  },
-];
+async function main(chainId: number, inputPath: string) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
+  const config = loadConfig(chainId);
+  const inputs = readInputEntry(inputPath)
+    .entries("markets")
+    .map((market) => ({
+      assetId: market.assetId("asset"),
+      status: MARKET_STATUSES[market.oneOf("status", ["inactive", "active"] as const)],
+    }));
+  if (!confirmNormalizedInputs("Market statuses to set", inputs)) return;
 
-async function main() {
-  const deployer = (await ethers.getSigners())[0];
+  const deployer = signers.deployer(chainId);
   const oracle = OracleMiddleware__factory.connect(config.oracles.middleware, deployer);
 
-  console.log("> OracleMiddleware setMultipleMarketStatus...");
+  console.log("[configs/OracleMiddleware] setMultipleMarketStatus...");
   await (
     await oracle.setMultipleMarketStatus(
       inputs.map((each) => each.assetId),
       inputs.map((each) => each.status)
     )
   ).wait();
-  console.log("> OracleMiddleware setMultipleMarketStatus success!");
+  console.log("[configs/OracleMiddleware] setMultipleMarketStatus success!");
 }
-main().catch((error) => {
+
+const prog = new Command();
+
+prog.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+prog.requiredOption("--input <path>", "YAML or JSON file of market statuses, see configs/inputs/OracleMiddleware");
+
+prog.parse(process.argv);
+
+const opts = prog.opts();
+
+main(opts.chainId, opts.input).catch((error) => {
   console.error(error);
   process.exitCode = 1;
 });
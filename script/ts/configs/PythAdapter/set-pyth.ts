@@ -1,8 +1,10 @@
 import { PythAdapter__factory } from "../../../../typechain";
 import signers from "../../entities/signers";
 import { loadConfig } from "../../utils/config";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main() {
+  requireCapabilities(42161, ["rpc", "signer"]);
   const NEW_PYTH = "";
 
   const deployer = signers.deployer(42161);
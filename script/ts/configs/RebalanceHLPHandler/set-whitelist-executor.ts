@@ -3,8 +3,10 @@ import { Command } from "commander";
 import { RebalanceHLPHandler__factory } from "../../../../typechain";
 import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const user = "0x6a5D2BF8ba767f7763cd342Cb62C5076f9924872";
   const deployer = signers.deployer(chainId);
@@ -3,8 +3,10 @@ import { Command } from "commander";
 import { RebalanceHLPv2Handler__factory } from "../../../../typechain";
 import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const user = config.safe;
   const deployer = signers.deployer(chainId);
@@ -2,6 +2,7 @@ import { Command } from "commander";
 import { loadConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import { SwitchCollateralRouter__factory } from "../../../../typechain";
+import { requireCapabilities } from "../../utils/requirements";
 
 type SetDexter = {
   tokenIn: string;
@@ -10,6 +11,7 @@ type SetDexter = {
 };
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const swithCollateralRouter = SwitchCollateralRouter__factory.connect(
@@ -3,6 +3,7 @@ import { loadConfig, loadMarketConfig } from "../../utils/config";
 import { Command } from "commander";
 import signers from "../../entities/signers";
 import SafeWrapper from "../../wrappers/SafeWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 type WeightConfig = {
   marketIndex: number;
@@ -12,6 +13,7 @@ type WeightConfig = {
 const BPS = 1e4;
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer", "safe"]);
   const config = loadConfig(chainId);
   const marketConfig = loadMarketConfig(chainId);
   const deployer = signers.deployer(chainId);
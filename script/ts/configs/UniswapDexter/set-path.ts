@@ -3,6 +3,7 @@ import { loadConfig } from "../../utils/config";
 import signers from "../../entities/signers";
 import { UniswapDexter__factory } from "../../../../typechain";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 type SetPathConfig = {
   tokenIn: string;
@@ -11,6 +12,7 @@ type SetPathConfig = {
 };
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const deployer = signers.deployer(chainId);
   const dexter = UniswapDexter__factory.connect(config.extension.dexter.uniswapV3, deployer);
@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 
 async function main() {
@@ -15,9 +16,9 @@ async function main() {
   console.log(`Deployed at: ${adaptiveFeeCalculator.address}`);
 
   config.adaptiveFeeCalculator = adaptiveFeeCalculator.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: adaptiveFeeCalculator.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: adaptiveFeeCalculator.address,
     name: "AdaptiveFeeCalculator",
   });
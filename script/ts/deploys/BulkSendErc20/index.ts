@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { BulkSendErc20__factory } from "../../../../typechain";
 
 async function main() {
@@ -10,7 +11,7 @@ async function main() {
   await bulkSendErc20.deployed();
   console.log(`[deploy/BulkSendErc20] Deployed at: ${bulkSendErc20.address}`);
 
-  await tenderly.verify({
+  await verifyContract({
     address: bulkSendErc20.address,
     name: "BulkSendErc20",
   });
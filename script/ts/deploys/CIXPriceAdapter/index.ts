@@ -1,4 +1,5 @@
-import { ethers, tenderly, network } from "hardhat";
+import { ethers, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 
 const config = getConfig();
@@ -12,9 +13,9 @@ async function main() {
   console.log(`[deploys/CIXPriceAdapter] Deployed at: ${contract.address}`);
 
   config.oracles.priceAdapters.dix = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "CIXPriceAdapter",
   });
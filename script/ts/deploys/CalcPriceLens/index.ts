@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 
 async function main() {
@@ -12,9 +13,9 @@ async function main() {
   console.log(`Deployed at: ${contract.address}`);
 
   config.oracles.calcPriceLens = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "CalcPriceLens",
   });
@@ -1,4 +1,5 @@
-import { ethers, tenderly, upgrades, network } from "hardhat";
+import { ethers, upgrades, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 import { getImplementationAddress } from "@openzeppelin/upgrades-core";
 
@@ -15,9 +16,9 @@ async function main() {
   console.log(`Deployed at: ${contract.address}`);
 
   config.storages.config = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: await getImplementationAddress(network.provider, contract.address),
     name: "ConfigStorage",
   });
@@ -1,4 +1,5 @@
-import { ethers, tenderly, upgrades, network } from "hardhat";
+import { ethers, upgrades, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 import { getImplementationAddress } from "@openzeppelin/upgrades-core";
 
@@ -23,9 +24,9 @@ async function main() {
   console.log(`Deployed at: ${contract.address}`);
 
   config.handlers.crossMargin = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: await getImplementationAddress(network.provider, contract.address),
     name: "CrossMarginHandler",
   });
@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 import { EcoPyth2__factory } from "../../../../typechain";
 
@@ -14,9 +15,9 @@ async function main() {
   console.log(`Deployed at: ${ecoPyth2.address}`);
 
   config.oracles.ecoPyth2 = ecoPyth2.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: ecoPyth2.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: ecoPyth2.address,
     name: "EcoPyth2",
   });
@@ -1,20 +1,24 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 async function main() {
   const config = getConfig();
   const deployer = (await ethers.getSigners())[0];
 
   console.log(`Deploying EcoPythCalldataBuilder Contract`);
-  const Contract = await ethers.getContractFactory("EcoPythCalldataBuilder", deployer);
-  const contract = await Contract.deploy(config.oracles.ecoPyth2, config.vendors.gmx.glpManager, config.tokens.sglp);
-  await contract.deployed();
+  const contract = await deployContract(
+    "EcoPythCalldataBuilder",
+    [config.oracles.ecoPyth2, config.vendors.gmx.glpManager, config.tokens.sglp],
+    deployer
+  );
   console.log(`Deployed at: ${contract.address}`);
 
   config.oracles.ecoPythCalldataBuilder = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "EcoPythCalldataBuilder",
   });
@@ -1,25 +1,24 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 async function main() {
   const config = getConfig();
   const deployer = (await ethers.getSigners())[0];
 
   console.log(`[deploys/EcoPythCalldataBuilder3] Deploying EcoPythCalldataBuilder3 Contract`);
-  const Contract = await ethers.getContractFactory("EcoPythCalldataBuilder3", deployer);
-  const contract = await Contract.deploy(
-    config.oracles.ecoPyth2,
-    config.oracles.onChainPriceLens,
-    config.oracles.calcPriceLens,
-    true
+  const contract = await deployContract(
+    "EcoPythCalldataBuilder3",
+    [config.oracles.ecoPyth2, config.oracles.onChainPriceLens, config.oracles.calcPriceLens, true],
+    deployer
   );
-  await contract.deployed();
   console.log(`[deploys/EcoPythCalldataBuilder3] Deployed at: ${contract.address}`);
 
   config.oracles.ecoPythCalldataBuilder3 = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "EcoPythCalldataBuilder3",
   });
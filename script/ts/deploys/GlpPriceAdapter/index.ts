@@ -1,24 +1,25 @@
-import { ethers, tenderly, network } from "hardhat";
+import { ethers, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const config = getConfig();
 
 async function main() {
   const deployer = (await ethers.getSigners())[0];
-  const contract = await ethers.deployContract(
+  const contract = await deployContract(
     "GlpPriceAdapter",
     [config.tokens.sglp, config.vendors.gmx.glpManager],
     deployer
   );
 
-  await contract.deployed();
   console.log(`[deploys/GlpPriceAdapter] Deploying GlpPriceAdapter Contract`);
   console.log(`[deploys/GlpPriceAdapter] Deployed at: ${contract.address}`);
 
   config.oracles.priceAdapters.glp = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "GlpPriceAdapter",
   });
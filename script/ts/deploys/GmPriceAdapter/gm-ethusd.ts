@@ -1,11 +1,13 @@
-import { ethers, tenderly, network } from "hardhat";
+import { ethers, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const config = getConfig();
 
 async function main() {
   const deployer = (await ethers.getSigners())[0];
-  const contract = await ethers.deployContract(
+  const contract = await deployContract(
     "GmPriceAdapter",
     [
       config.vendors.gmxV2.reader,
@@ -24,14 +26,13 @@ async function main() {
     deployer
   );
 
-  await contract.deployed();
   console.log(`[deploys/GmPriceAdapter] Deploying GmPriceAdapter for GM-ETHUSD Contract`);
   console.log(`[deploys/GmPriceAdapter] Deployed at: ${contract.address}`);
 
   config.oracles.priceAdapters.gmETHUSD = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "GmPriceAdapter",
   });
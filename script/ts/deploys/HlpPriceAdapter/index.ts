@@ -1,20 +1,21 @@
-import { ethers, tenderly, network } from "hardhat";
+import { ethers, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const config = getConfig();
 
 async function main() {
   const deployer = (await ethers.getSigners())[0];
-  const contract = await ethers.deployContract("HlpPriceAdapter", [config.tokens.hlp, config.calculator], deployer);
+  const contract = await deployContract("HlpPriceAdapter", [config.tokens.hlp, config.calculator], deployer);
 
-  await contract.deployed();
   console.log(`[deploys/HlpPriceAdapter] Deploying HlpPriceAdapter Contract`);
   console.log(`[deploys/HlpPriceAdapter] Deployed at: ${contract.address}`);
 
   config.oracles.priceAdapters.hlp = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "HlpPriceAdapter",
   });
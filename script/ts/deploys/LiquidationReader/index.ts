@@ -1,22 +1,21 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const config = getConfig();
 
 async function main() {
   const deployer = (await ethers.getSigners())[0];
 
-  const Contract = await ethers.getContractFactory("LiquidationReader", deployer);
-  const contract = await Contract.deploy(config.storages.perp, config.calculator);
-
-  await contract.deployed();
+  const contract = await deployContract("LiquidationReader", [config.storages.perp, config.calculator], deployer);
   console.log(`Deploying LiquidationReader Contract`);
   console.log(`Deployed at: ${contract.address}`);
 
   config.reader.liquidation = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "LiquidationReader",
   });
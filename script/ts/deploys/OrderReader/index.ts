@@ -1,5 +1,6 @@
 import { ethers, run } from "hardhat";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const BigNumber = ethers.BigNumber;
 const config = getConfig();
@@ -7,19 +8,16 @@ const config = getConfig();
 async function main() {
   const deployer = (await ethers.getSigners())[0];
 
-  const Contract = await ethers.getContractFactory("OrderReader", deployer);
-  const contract = await Contract.deploy(
-    config.storages.config,
-    config.storages.perp,
-    config.oracles.middleware,
-    config.handlers.limitTrade
+  const contract = await deployContract(
+    "OrderReader",
+    [config.storages.config, config.storages.perp, config.oracles.middleware, config.handlers.limitTrade],
+    deployer
   );
-  await contract.deployed();
   console.log(`Deploying OrderReader Contract`);
   console.log(`Deployed at: ${contract.address}`);
 
   config.reader.order = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
   await run("verify:verify", {
     address: config.reader.order,
@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 
 async function main() {
@@ -12,9 +13,9 @@ async function main() {
   console.log(`Deployed at: ${orderbookOracle.address}`);
 
   config.oracles.orderbook = orderbookOracle.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: orderbookOracle.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: orderbookOracle.address,
     name: "OrderbookOracle",
   });
@@ -1,5 +1,7 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const BigNumber = ethers.BigNumber;
 const config = getConfig();
@@ -7,21 +9,18 @@ const config = getConfig();
 async function main() {
   const deployer = (await ethers.getSigners())[0];
 
-  const Contract = await ethers.getContractFactory("PositionReader", deployer);
-  const contract = await Contract.deploy(
-    config.storages.config,
-    config.storages.perp,
-    config.oracles.middleware,
-    config.calculator
+  const contract = await deployContract(
+    "PositionReader",
+    [config.storages.config, config.storages.perp, config.oracles.middleware, config.calculator],
+    deployer
   );
-  await contract.deployed();
   console.log(`Deploying PositionReader Contract`);
   console.log(`Deployed at: ${contract.address}`);
 
   config.reader.position = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "PositionReader",
   });
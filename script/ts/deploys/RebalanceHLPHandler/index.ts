@@ -1,4 +1,5 @@
-import { ethers, tenderly, upgrades, network } from "hardhat";
+import { ethers, upgrades, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 import { RebalanceHLPHandler__factory } from "../../../../typechain";
 import signers from "../../entities/signers";
@@ -17,9 +18,9 @@ async function main() {
   console.log(`Deployed at: ${contract.address}`);
 
   config.handlers.rebalanceHLP = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: await getImplementationAddress(network.provider, contract.address),
     name: "RebalanceHLPHandler",
   });
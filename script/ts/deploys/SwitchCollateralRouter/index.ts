@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 
 const config = getConfig();
@@ -12,9 +13,9 @@ async function main() {
   console.log(`[deploys/SwitchCollateralRouter] Deployed at: ${contract.address}`);
 
   config.extension.switchCollateralRouter = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "SwitchCollateralRouter",
   });
@@ -1,4 +1,5 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
 import { Timelock__factory } from "../../../../typechain";
 
@@ -16,9 +17,9 @@ async function main() {
   console.log(`[deploy/Timelock] Deployed at: ${timelock.address}`);
 
   config.timelock = timelock.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: timelock.deployTransaction.hash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: timelock.address,
     name: "Timelock",
   });
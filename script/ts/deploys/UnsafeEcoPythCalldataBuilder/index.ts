@@ -1,24 +1,24 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 async function main() {
   const config = getConfig();
   const deployer = (await ethers.getSigners())[0];
 
   console.log(`Deploying UnsafeEcoPythCalldataBuilder Contract`);
-  const UnsafeEcoPythCalldataBuilder = await ethers.getContractFactory("UnsafeEcoPythCalldataBuilder", deployer);
-  const unsafeEcoPythCalldataBuilder = await UnsafeEcoPythCalldataBuilder.deploy(
-    config.oracles.ecoPyth2,
-    config.vendors.gmx.glpManager,
-    config.tokens.sglp
+  const unsafeEcoPythCalldataBuilder = await deployContract(
+    "UnsafeEcoPythCalldataBuilder",
+    [config.oracles.ecoPyth2, config.vendors.gmx.glpManager, config.tokens.sglp],
+    deployer
   );
-  await unsafeEcoPythCalldataBuilder.deployed();
   console.log(`Deployed at: ${unsafeEcoPythCalldataBuilder.address}`);
 
   config.oracles.unsafeEcoPythCalldataBuilder = unsafeEcoPythCalldataBuilder.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: unsafeEcoPythCalldataBuilder.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: unsafeEcoPythCalldataBuilder.address,
     name: "UnsafeEcoPythCalldataBuilder",
   });
@@ -1,24 +1,24 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 async function main() {
   const config = getConfig();
   const deployer = (await ethers.getSigners())[0];
 
   console.log(`Deploying UnsafeEcoPythCalldataBuilder2 Contract`);
-  const UnsafeEcoPythCalldataBuilder2 = await ethers.getContractFactory("UnsafeEcoPythCalldataBuilder2", deployer);
-  const unsafeEcoPythCalldataBuilder2 = await UnsafeEcoPythCalldataBuilder2.deploy(
-    config.oracles.ecoPyth2,
-    config.oracles.onChainPriceLens,
-    true
+  const unsafeEcoPythCalldataBuilder2 = await deployContract(
+    "UnsafeEcoPythCalldataBuilder2",
+    [config.oracles.ecoPyth2, config.oracles.onChainPriceLens, true],
+    deployer
   );
-  await unsafeEcoPythCalldataBuilder2.deployed();
   console.log(`Deployed at: ${unsafeEcoPythCalldataBuilder2.address}`);
 
   config.oracles.unsafeEcoPythCalldataBuilder2 = unsafeEcoPythCalldataBuilder2.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: unsafeEcoPythCalldataBuilder2.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: unsafeEcoPythCalldataBuilder2.address,
     name: "UnsafeEcoPythCalldataBuilder2",
   });
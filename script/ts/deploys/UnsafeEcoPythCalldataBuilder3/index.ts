@@ -1,25 +1,24 @@
-import { ethers, tenderly } from "hardhat";
+import { ethers } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 async function main() {
   const config = getConfig();
   const deployer = (await ethers.getSigners())[0];
 
   console.log(`[deploys/EcoPythCalldataBuilder] Deploying UnsafeEcoPythCalldataBuilder3 Contract`);
-  const UnsafeEcoPythCalldataBuilder3 = await ethers.getContractFactory("UnsafeEcoPythCalldataBuilder3", deployer);
-  const unsafeEcoPythCalldataBuilder3 = await UnsafeEcoPythCalldataBuilder3.deploy(
-    config.oracles.ecoPyth2,
-    config.oracles.onChainPriceLens,
-    config.oracles.calcPriceLens,
-    true
+  const unsafeEcoPythCalldataBuilder3 = await deployContract(
+    "UnsafeEcoPythCalldataBuilder3",
+    [config.oracles.ecoPyth2, config.oracles.onChainPriceLens, config.oracles.calcPriceLens, true],
+    deployer
   );
-  await unsafeEcoPythCalldataBuilder3.deployed();
   console.log(`[deploys/EcoPythCalldataBuilder] Deployed at: ${unsafeEcoPythCalldataBuilder3.address}`);
 
   config.oracles.unsafeEcoPythCalldataBuilder3 = unsafeEcoPythCalldataBuilder3.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: unsafeEcoPythCalldataBuilder3.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: unsafeEcoPythCalldataBuilder3.address,
     name: "UnsafeEcoPythCalldataBuilder3",
   });
@@ -1,24 +1,25 @@
-import { ethers, tenderly, network } from "hardhat";
+import { ethers, network } from "hardhat";
+import { verifyContract } from "../../utils/verification";
 import { getConfig, writeConfigFile } from "../../utils/config";
+import { deployContract } from "../../utils/create2";
 
 const config = getConfig();
 
 async function main() {
   const deployer = (await ethers.getSigners())[0];
-  const contract = await ethers.deployContract(
+  const contract = await deployContract(
     "WstEthUsdPriceAdapter",
     [config.vendors.chainlink.wstEthEthPriceFeed, config.vendors.chainlink.ethUsdPriceFeed],
     deployer
   );
 
-  await contract.deployed();
   console.log(`[deploys/WstEthUsdPriceAdapter] Deploying WstEthUsdPriceAdapter Contract`);
   console.log(`[deploys/WstEthUsdPriceAdapter] Deployed at: ${contract.address}`);
 
   config.oracles.priceAdapters.wstEth = contract.address;
-  writeConfigFile(config);
+  await writeConfigFile(config, { txHash: contract.txHash });
 
-  await tenderly.verify({
+  await verifyContract({
     address: contract.address,
     name: "WstEthUsdPriceAdapter",
   });
@@ -0,0 +1,90 @@
+// Deploys what is missing or changed of the protocol stack in dependency order and wires it together
+import { Command } from "commander";
+import * as readlineSync from "readline-sync";
+import { getImplementationAddress } from "@openzeppelin/upgrades-core";
+import { ethers, network } from "hardhat";
+import signers from "../entities/signers";
+import { isDryRun } from "../utils/cli-context";
+import { getAddressBookEntry, loadConfig } from "../utils/config";
+import { executeDeployment, planDeployment } from "../utils/deployment-orchestrator";
+import { requireCapabilities } from "../utils/requirements";
+import { verifyContract } from "../utils/verification";
+
+type Options = {
+  chainId: number;
+  only: Array<string>;
+  yes: boolean;
+  verify: boolean;
+  create2?: string;
+};
+
+async function main(options: Options) {
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  if (chainId !== options.chainId)
+    throw new Error(`[deploys] Hardhat network is on chain ${chainId}, run with HARDHAT_NETWORK of ${options.chainId}`);
+  requireCapabilities(chainId, ["rpc", "signer"]);
+  const deployer = signers.deployer(chainId);
+
+  const plan = await planDeployment(chainId, deployer, options.only);
+  console.table(plan.map((item) => ({ id: item.id, status: item.status, detail: item.detail })));
+  const todo = plan.filter((item) => ["missing", "changed", "needed", "after deploy"].includes(item.status));
+  if (todo.length === 0) {
+    console.log("[deploys] Stack is up to date");
+    return;
+  }
+  console.log(`[deploys] ${todo.length} of ${plan.length} steps to carry out`);
+  if (isDryRun()) return;
+  if (!options.yes && readlineSync.question("Confirm to deploy? (y/n): ").toLowerCase() !== "y") {
+    console.log("[deploys] Deployment cancelled!");
+    return;
+  }
+
+  if (options.create2) console.log(`[deploys] Deploying through the CREATE2 factory with version ${options.create2}`);
+  const result = await executeDeployment(chainId, deployer, plan, { create2Version: options.create2 });
+  console.log(`[deploys] Deployed: ${result.deployed.join(", ") || "none"}`);
+  console.log(`[deploys] Upgraded: ${result.upgraded.join(", ") || "none"}`);
+  console.log(`[deploys] Wired: ${result.wired.join(", ") || "none"}`);
+  if (result.pending.length > 0) {
+    console.log(`[deploys] Pending in the Safe or the Timelock: ${result.pending.join(", ")}`);
+    console.log("[deploys] Run again once they are executed to carry out what depends on them");
+  }
+
+  if (!options.verify) return;
+  const config = loadConfig(chainId);
+  for (const key of [...result.deployed, ...result.upgraded]) {
+    const node = plan.find((item) => item.node && item.node.key === key)!.node!;
+    const address = getAddressBookEntry(config, key);
+    await verifyContract({
+      address: node.proxy ? await getImplementationAddress(network.provider, address) : address,
+      name: node.contract,
+    });
+  }
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option(
+  "--only <keys>",
+  "comma-separated address book keys to deploy, the rest has to be in the address book",
+  (value: string) => value.split(",").map((key) => key.trim()),
+  []
+);
+program.option("--yes", "skip confirmation", false);
+program.option("--no-verify", "skip verification of what was deployed, see VERIFY_PROVIDERS");
+program.option(
+  "--create2 <version>",
+  "deploy proxies and contracts without an owner through the CREATE2 factory, salted with this version",
+  process.env.DEPLOY_CREATE2_VERSION
+);
+
+const opts = program.parse(process.argv).opts();
+
+main({ chainId: opts.chainId, only: opts.only, yes: opts.yes, verify: opts.verify, create2: opts.create2 })
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -1,60 +1,35 @@
-import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { DeployFunction } from "hardhat-deploy/types";
-import { ethers, tenderly } from "hardhat";
-import { ConfigStorage__factory } from "../../../typechain";
-import { getConfig } from "../utils/config";
-import { MultiCall } from "@indexed-finance/multicall";
-import { strict as assert } from "assert";
-
-const formatUnits = ethers.utils.formatUnits;
-const parseUnits = ethers.utils.parseUnits;
-const config = getConfig();
-
-async function main() {
-  const deployer = (await ethers.getSigners())[0];
-
-  const provider = ethers.provider;
-  const multi = new MultiCall(provider);
-
-  const inputs = [
-    {
-      interface: ConfigStorage__factory.abi,
-      target: config.storages.config,
-      function: "getCollateralTokens",
-      args: [],
-    },
-    {
-      interface: ConfigStorage__factory.abi,
-      target: config.storages.config,
-      function: "getHlpTokens",
-      args: [],
-    },
-    {
-      interface: ConfigStorage__factory.abi,
-      target: config.storages.config,
-      function: "getHlpAssetIds",
-      args: [],
-    },
-    {
-      interface: ConfigStorage__factory.abi,
-      target: config.storages.config,
-      function: "weth",
-      args: [],
-    },
-  ];
-  const [, [collateralTokens, hlpTokenMembers, hlpAssetIds, weth]] = await multi.multiCall(inputs as any);
-
-  console.log(collateralTokens);
+// Checks that every contract of the deployment points at the right ones, with a pass/fail report per edge
+import { Command } from "commander";
+import chains from "../entities/chains";
+import { requireCapabilities } from "../utils/requirements";
+import { validateWiring } from "../utils/wiring-validation";
+
+async function main(chainId: number, showSkipped: boolean) {
+  requireCapabilities(chainId, ["rpc"]);
+  const edges = await validateWiring(chainId, chains[chainId].jsonRpcProvider);
+
+  console.table(edges.filter((edge) => showSkipped || edge.result !== "skip"));
+  const count = (result: string) => edges.filter((edge) => edge.result === result).length;
+  console.log(`[deploys] ${count("pass")} passed, ${count("fail")} failed, ${count("skip")} skipped`);
+  if (count("fail") > 0) {
+    console.log("[deploys] Deployment validation failed!");
+    process.exit(1);
+  }
+  console.log("[deploys] Deployment validation passed!");
+}
 
-  console.log(hlpTokenMembers);
+const program = new Command();
 
-  console.log(hlpAssetIds);
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--show-skipped", "also list edges of which one end is not in the address book", false);
 
-  console.log(weth);
-  console.log("Deployment validation passed!");
-}
+const opts = program.parse(process.argv).opts();
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
+main(opts.chainId, opts.showSkipped)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
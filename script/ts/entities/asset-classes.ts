@@ -1,6 +1,4 @@
-export default {
-  crypto: 0,
-  equity: 1,
-  forex: 2,
-  commodities: 3,
-};
+import marketRegistry from "./market-registry";
+
+// Derived from entities/market-registry.ts
+export default marketRegistry.assetClasses;
@@ -1,7 +1,6 @@
-import dotenv from "dotenv";
 import { ethers } from "ethers";
-
-dotenv.config();
+import networks, { NetworkEntity } from "./networks";
+import { requireCapabilities } from "../utils/requirements";
 
 export type ChainEntity = {
   name: string;
@@ -11,22 +10,29 @@ export type ChainEntity = {
   statSubgraphUrl: string;
 };
 
-if (!process.env.ARBITRUM_MAINNET_RPC) throw new Error("Missing ARBITRUM_MAINNET_RPC env var");
-if (!process.env.ARBI_STAT_SUBGRAPH_URL) throw new Error("Missing ARBI_STAT_SUBGRAPH_URL env var");
+// Env vars are only read when a field is first accessed, so importing this module never
+// fails and a command only needs the configuration of the chain and fields it uses.
+function _createChainEntity(network: NetworkEntity): ChainEntity {
+  let jsonRpcProvider: ethers.providers.JsonRpcProvider | undefined;
+  return {
+    name: network.name,
+    get rpc() {
+      requireCapabilities(network.chainId, ["rpc"]);
+      return process.env[network.rpcEnvKey] || network.defaultRpc!;
+    },
+    get jsonRpcProvider() {
+      if (!jsonRpcProvider) jsonRpcProvider = new ethers.providers.JsonRpcProvider(this.rpc);
+      return jsonRpcProvider;
+    },
+    safeTxServiceUrl: network.safeTxServiceUrl,
+    get statSubgraphUrl() {
+      requireCapabilities(network.chainId, ["subgraph"]);
+      return process.env[network.statSubgraphUrlEnvKey!]!;
+    },
+  };
+}
 
-export default {
-  42161: {
-    name: "arbitrum",
-    rpc: process.env.ARBITRUM_MAINNET_RPC,
-    jsonRpcProvider: new ethers.providers.JsonRpcProvider(process.env.ARBITRUM_MAINNET_RPC),
-    safeTxServiceUrl: "https://safe-transaction-arbitrum.safe.global/",
-    statSubgraphUrl: process.env.ARBI_STAT_SUBGRAPH_URL,
-  },
-  421613: {
-    name: "arbitrum_goerli",
-    rpc: process.env.ARBITRUM_GOERLI_RPC,
-    jsonRpcProvider: new ethers.providers.JsonRpcProvider(process.env.ARBITRUM_GOERLI_RPC),
-    safeTxServiceUrl: "https://safe-transaction-arbitrum.safe.global/",
-    statSubgraphUrl: "",
-  },
-} as { [chainId: number]: ChainEntity };
+export default networks.reduce((acc, network) => {
+  acc[network.chainId] = _createChainEntity(network);
+  return acc;
+}, {} as { [chainId: number]: ChainEntity });
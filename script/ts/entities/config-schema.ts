@@ -0,0 +1,166 @@
+// "address" keys must exist in every config file. An empty string marks a contract
+// that is not deployed on that chain. "address?" keys may be absent altogether.
+export type AddressField = "address" | "address?";
+export type SchemaNode = AddressField | { readonly [key: string]: SchemaNode };
+
+type RequiredKeys<S> = { [K in keyof S]: S[K] extends "address?" ? never : K }[keyof S];
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends "address?" ? K : never }[keyof S];
+
+export type InferConfig<S> = S extends AddressField
+  ? string
+  : { -readonly [K in RequiredKeys<S>]: InferConfig<S[K]> } & { -readonly [K in OptionalKeys<S>]?: string };
+
+const configSchema = {
+  proxyAdmin: "address",
+  multicall: "address",
+  timelock: "address",
+  safe: "address",
+  storages: {
+    config: "address",
+    perp: "address",
+    vault: "address",
+  },
+  handlers: {
+    bot: "address",
+    crossMargin: "address",
+    limitTrade: "address",
+    liquidity: "address",
+    rebalanceHLP: "address",
+    ext01: "address",
+    rebalanceHLPv2: "address",
+  },
+  helpers: {
+    trade: "address",
+    limitTrade: "address",
+  },
+  services: {
+    crossMargin: "address",
+    liquidity: "address",
+    liquidation: "address",
+    trade: "address",
+    rebalanceHLP: "address",
+    rebalanceHLPv2: "address",
+  },
+  oracles: {
+    pyth: "address?",
+    ecoPyth: "address",
+    ecoPyth2: "address",
+    pythAdapter: "address",
+    sglpStakedAdapter: "address",
+    middleware: "address",
+    ecoPythCalldataBuilder: "address",
+    unsafeEcoPythCalldataBuilder: "address",
+    ecoPythCalldataBuilder2: "address",
+    unsafeEcoPythCalldataBuilder2: "address",
+    ecoPythCalldataBuilder3: "address",
+    unsafeEcoPythCalldataBuilder3: "address",
+    uncheckedEcoPythCalldataBuilder3: "address?",
+    onChainPriceLens: "address",
+    calcPriceLens: "address",
+    priceAdapters: {
+      glp: "address",
+      wstEth: "address",
+      hlp: "address",
+      gmBTCUSD: "address",
+      gmETHUSD: "address",
+      dix: "address",
+    },
+    orderbook: "address",
+  },
+  tokens: {
+    hlp: "address",
+    weth: "address",
+    wbtc: "address",
+    usdt: "address",
+    usdc: "address",
+    dai: "address",
+    sglp: "address",
+    traderLoyaltyCredit: "address",
+    arb: "address",
+    wstEth: "address",
+    gmBTCUSD: "address",
+    gmETHUSD: "address",
+    usdcNative: "address",
+  },
+  vendors: {
+    gmx: {
+      glpManager: "address",
+      rewardRouterV2: "address",
+      rewardTracker: "address",
+      gmxVault: "address",
+    },
+    gmxV2: {
+      oracle: "address",
+      exchangeRouter: "address",
+      depositVault: "address",
+      depositUtils: "address",
+      depositStoreUtils: "address",
+      executeDepositUtils: "address",
+      depositHandler: "address",
+      withdrawalVault: "address",
+      withdrawalUtils: "address",
+      withdrawalStoreUtils: "address",
+      executeWithdrawalUtils: "address",
+      withdrawalHandler: "address",
+      marketUtils: "address",
+      marketStoreUtils: "address",
+      dataStore: "address",
+      roleStore: "address",
+      reader: "address",
+    },
+    uniswap: {
+      permit2: "address",
+      universalRouter: "address",
+    },
+    curve: {
+      wstEthEthPool: "address",
+      usdcUsdtPool: "address",
+    },
+    chainlink: {
+      wstEthEthPriceFeed: "address",
+      ethUsdPriceFeed: "address",
+    },
+    oneInch: {
+      router: "address",
+    },
+  },
+  strategies: {
+    stakedGlpStrategy: "address",
+    convertedGlpStrategy: "address",
+    erc20Approve: "address",
+    distributeSTIPARB: "address",
+  },
+  hooks: {
+    tradingStaking: "address",
+    tlc: "address",
+  },
+  calculator: "address",
+  adaptiveFeeCalculator: "address",
+  accountAbstraction: {
+    entryPoint: "address",
+    factory: "address",
+  },
+  staking: {
+    trading: "address",
+    tlc: "address",
+    hlp: "address",
+  },
+  rewardDistributor: "address",
+  reader: {
+    order: "address",
+    position: "address",
+    liquidation: "address",
+  },
+  extension: {
+    switchCollateralRouter: "address",
+    dexter: {
+      uniswapV3: "address",
+      curve: "address",
+      glp: "address",
+    },
+  },
+} as const;
+
+export type Config = InferConfig<typeof configSchema>;
+
+export default configSchema as { readonly [key: string]: SchemaNode };
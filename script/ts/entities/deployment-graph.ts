@@ -0,0 +1,305 @@
+import { ValidationOptions } from "@openzeppelin/upgrades-core";
+
+// An argument is a literal, or the address of another address book entry
+export type DeploymentArg = string | number | boolean | DeploymentRef;
+
+export type DeploymentRef = {
+  ref: string;
+  // Passes the zero address when the entry is not in the address book
+  optional?: boolean;
+};
+
+export type DeploymentNode = {
+  // Address book key, e.g. `storages.config`
+  key: string;
+  contract: string;
+  // Behind a TransparentUpgradeableProxy, `args` go to `initialize` instead of the constructor
+  proxy: boolean;
+  args: Array<DeploymentArg>;
+  // Upgrade safety checks the proxy implementation is allowed to fail, e.g. `delegatecall`
+  unsafeAllow?: ValidationOptions["unsafeAllow"];
+  // Mocks only deployed on a local node, other chains have to have them in the address book
+  localOnly?: boolean;
+  // Ids of wiring steps that have to run before, when the initializer reads them
+  after?: Array<string>;
+};
+
+export type WiringStep = {
+  id: string;
+  // Address book key of the contract to call, as its owner
+  contract: string;
+  call: string;
+  args: Array<DeploymentArg>;
+  // View taking the leading arguments of `call` and returning its last one once done. Steps
+  // without one only run when one of their dependencies changed during the run.
+  check?: string;
+  after?: Array<string>;
+};
+
+export const ref = (key: string): DeploymentRef => ({ ref: key });
+const optionalRef = (key: string): DeploymentRef => ({ ref: key, optional: true });
+
+const MIN_EXECUTION_FEE = "300000000000000"; // 0.0003 ETH
+
+const nodes: Array<DeploymentNode> = [
+  { key: "tokens.weth", contract: "MockErc20", proxy: false, args: ["Wrapped Ether", "WETH", 18], localOnly: true },
+  { key: "tokens.usdc", contract: "MockErc20", proxy: false, args: ["USD Coin", "USDC", 6], localOnly: true },
+  { key: "tokens.sglp", contract: "MockErc20", proxy: false, args: ["Staked GLP", "sGLP", 18], localOnly: true },
+  { key: "tokens.wbtc", contract: "MockErc20", proxy: false, args: ["Wrapped BTC", "WBTC", 8], localOnly: true },
+  { key: "tokens.usdt", contract: "MockErc20", proxy: false, args: ["Tether USD", "USDT", 6], localOnly: true },
+  { key: "tokens.dai", contract: "MockErc20", proxy: false, args: ["Dai Stablecoin", "DAI", 18], localOnly: true },
+  { key: "tokens.arb", contract: "MockErc20", proxy: false, args: ["Arbitrum", "ARB", 18], localOnly: true },
+  // Stands in for the Pyth contract, prices stay valid for a year and updates are free
+  { key: "oracles.pyth", contract: "MockPyth", proxy: false, args: [60 * 60 * 24 * 365, 0], localOnly: true },
+
+  { key: "storages.config", contract: "ConfigStorage", proxy: true, args: [] },
+  { key: "storages.perp", contract: "PerpStorage", proxy: true, args: [] },
+  { key: "storages.vault", contract: "VaultStorage", proxy: true, args: [] },
+  { key: "tokens.hlp", contract: "HLP", proxy: true, args: [] },
+
+  { key: "oracles.ecoPyth2", contract: "EcoPyth2", proxy: false, args: [] },
+  { key: "oracles.pythAdapter", contract: "PythAdapter", proxy: true, args: [ref("oracles.ecoPyth2")] },
+  { key: "oracles.middleware", contract: "OracleMiddleware", proxy: true, args: [60 * 60 * 24 * 7] },
+
+  {
+    key: "calculator",
+    contract: "Calculator",
+    proxy: true,
+    args: [ref("oracles.middleware"), ref("storages.vault"), ref("storages.perp"), ref("storages.config")],
+  },
+  { key: "adaptiveFeeCalculator", contract: "AdaptiveFeeCalculator", proxy: false, args: [12500, 50] },
+  {
+    key: "helpers.trade",
+    contract: "TradeHelper",
+    proxy: true,
+    args: [ref("storages.perp"), ref("storages.vault"), ref("storages.config")],
+    after: ["config.setCalculator"],
+  },
+  {
+    key: "strategies.convertedGlpStrategy",
+    contract: "ConvertedGlpStrategy",
+    proxy: true,
+    args: [ref("tokens.sglp"), optionalRef("vendors.gmx.rewardRouterV2"), ref("storages.vault")],
+  },
+
+  {
+    key: "services.liquidity",
+    contract: "LiquidityService",
+    proxy: true,
+    args: [ref("storages.perp"), ref("storages.vault"), ref("storages.config")],
+  },
+  {
+    key: "services.liquidation",
+    contract: "LiquidationService",
+    proxy: true,
+    args: [ref("storages.perp"), ref("storages.vault"), ref("storages.config"), ref("helpers.trade")],
+    after: ["config.setCalculator"],
+  },
+  {
+    key: "services.crossMargin",
+    contract: "CrossMarginService",
+    proxy: true,
+    args: [
+      ref("storages.config"),
+      ref("storages.vault"),
+      ref("storages.perp"),
+      ref("calculator"),
+      ref("strategies.convertedGlpStrategy"),
+    ],
+  },
+  {
+    key: "services.trade",
+    contract: "TradeService",
+    proxy: true,
+    args: [ref("storages.perp"), ref("storages.vault"), ref("storages.config"), ref("helpers.trade")],
+    after: ["config.setCalculator"],
+  },
+
+  {
+    key: "handlers.bot",
+    contract: "BotHandler",
+    proxy: true,
+    args: [ref("services.trade"), ref("services.liquidation"), ref("services.crossMargin"), ref("oracles.ecoPyth2")],
+  },
+  {
+    key: "handlers.crossMargin",
+    contract: "CrossMarginHandler",
+    proxy: true,
+    args: [ref("services.crossMargin"), ref("oracles.ecoPyth2"), MIN_EXECUTION_FEE, 100],
+  },
+  {
+    key: "handlers.limitTrade",
+    contract: "LimitTradeHandler",
+    proxy: true,
+    args: [ref("tokens.weth"), ref("services.trade"), ref("oracles.ecoPyth2"), MIN_EXECUTION_FEE, 60 * 60 * 5],
+    unsafeAllow: ["delegatecall"],
+  },
+  {
+    key: "handlers.liquidity",
+    contract: "LiquidityHandler",
+    proxy: true,
+    args: [ref("services.liquidity"), ref("oracles.ecoPyth2"), MIN_EXECUTION_FEE, 100],
+  },
+  {
+    key: "handlers.ext01",
+    contract: "Ext01Handler",
+    proxy: true,
+    args: [
+      ref("services.crossMargin"),
+      ref("services.liquidation"),
+      ref("services.liquidity"),
+      ref("services.trade"),
+      ref("oracles.ecoPyth2"),
+    ],
+  },
+
+  {
+    key: "helpers.limitTrade",
+    contract: "LimitTradeHelper",
+    proxy: false,
+    args: [ref("storages.config"), ref("storages.perp")],
+  },
+  {
+    key: "reader.liquidation",
+    contract: "LiquidationReader",
+    proxy: false,
+    args: [ref("storages.perp"), ref("calculator")],
+  },
+  {
+    key: "reader.order",
+    contract: "OrderReader",
+    proxy: false,
+    args: [ref("storages.config"), ref("storages.perp"), ref("oracles.middleware"), ref("handlers.limitTrade")],
+  },
+  {
+    key: "reader.position",
+    contract: "PositionReader",
+    proxy: false,
+    args: [ref("storages.config"), ref("storages.perp"), ref("oracles.middleware"), ref("calculator")],
+  },
+];
+
+const serviceExecutor = (service: string, handler: string): WiringStep => ({
+  id: `config.setServiceExecutor(${service}, ${handler})`,
+  contract: "storages.config",
+  call: "setServiceExecutor(address,address,bool)",
+  args: [ref(service), ref(handler), true],
+  check: "serviceExecutors",
+});
+
+const storageExecutor = (storage: string, executor: string): WiringStep => ({
+  id: `${storage}.setServiceExecutors(${executor})`,
+  contract: storage,
+  call: "setServiceExecutors(address,bool)",
+  args: [ref(executor), true],
+  check: "serviceExecutors",
+});
+
+const updater = (oracle: string, handler: string): WiringStep => ({
+  id: `${oracle}.setUpdater(${handler})`,
+  contract: oracle,
+  call: "setUpdater(address,bool)",
+  args: [ref(handler), true],
+  check: "isUpdaters",
+});
+
+const reloadConfig = (key: string): WiringStep => ({
+  id: `${key}.reloadConfig`,
+  contract: key,
+  call: "reloadConfig()",
+  args: [],
+  after: ["config.setCalculator"],
+});
+
+// As the integration tests set the protocol up, see test/integration/01_BaseIntTest.i.sol
+const wiring: Array<WiringStep> = [
+  {
+    id: "config.setOracle",
+    contract: "storages.config",
+    call: "setOracle(address)",
+    args: [ref("oracles.middleware")],
+    check: "oracle",
+  },
+  {
+    id: "config.setCalculator",
+    contract: "storages.config",
+    call: "setCalculator(address)",
+    args: [ref("calculator")],
+    check: "calculator",
+  },
+  {
+    id: "config.setWeth",
+    contract: "storages.config",
+    call: "setWeth(address)",
+    args: [ref("tokens.weth")],
+    check: "weth",
+  },
+  {
+    id: "config.setHLP",
+    contract: "storages.config",
+    call: "setHLP(address)",
+    args: [ref("tokens.hlp")],
+    check: "hlp",
+  },
+  {
+    id: "config.setConfigExecutor(handlers.bot)",
+    contract: "storages.config",
+    call: "setConfigExecutor(address,bool)",
+    args: [ref("handlers.bot"), true],
+    check: "configExecutors",
+  },
+  serviceExecutor("services.crossMargin", "handlers.crossMargin"),
+  serviceExecutor("services.crossMargin", "handlers.bot"),
+  serviceExecutor("services.crossMargin", "handlers.ext01"),
+  serviceExecutor("helpers.trade", "services.liquidation"),
+  serviceExecutor("helpers.trade", "services.trade"),
+  serviceExecutor("services.liquidity", "handlers.liquidity"),
+  serviceExecutor("services.liquidation", "handlers.bot"),
+  serviceExecutor("services.trade", "handlers.limitTrade"),
+  serviceExecutor("services.trade", "handlers.bot"),
+
+  storageExecutor("storages.vault", "services.crossMargin"),
+  storageExecutor("storages.vault", "services.trade"),
+  storageExecutor("storages.vault", "helpers.trade"),
+  storageExecutor("storages.vault", "services.liquidity"),
+  storageExecutor("storages.vault", "services.liquidation"),
+  storageExecutor("storages.vault", "handlers.bot"),
+  storageExecutor("storages.perp", "services.crossMargin"),
+  storageExecutor("storages.perp", "services.trade"),
+  storageExecutor("storages.perp", "helpers.trade"),
+  storageExecutor("storages.perp", "services.liquidity"),
+  storageExecutor("storages.perp", "services.liquidation"),
+
+  updater("oracles.ecoPyth2", "handlers.crossMargin"),
+  updater("oracles.ecoPyth2", "handlers.liquidity"),
+  updater("oracles.ecoPyth2", "handlers.limitTrade"),
+  updater("oracles.ecoPyth2", "handlers.bot"),
+  updater("oracles.ecoPyth2", "handlers.ext01"),
+
+  {
+    id: "tokens.hlp.setMinter(services.liquidity)",
+    contract: "tokens.hlp",
+    call: "setMinter(address,bool)",
+    args: [ref("services.liquidity"), true],
+    check: "minters",
+  },
+  {
+    id: "calculator.setTradeHelper",
+    contract: "calculator",
+    call: "setTradeHelper(address)",
+    args: [ref("helpers.trade")],
+    check: "tradeHelper",
+  },
+  {
+    id: "helpers.trade.setAdaptiveFeeCalculator",
+    contract: "helpers.trade",
+    call: "setAdaptiveFeeCalculator(address)",
+    args: [ref("adaptiveFeeCalculator")],
+    check: "adaptiveFeeCalculator",
+  },
+  reloadConfig("helpers.trade"),
+  reloadConfig("services.trade"),
+  reloadConfig("services.liquidation"),
+];
+
+export default { nodes, wiring };
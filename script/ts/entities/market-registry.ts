@@ -0,0 +1,874 @@
+import { ethers } from "ethers";
+
+export type AssetClass = "crypto" | "equity" | "forex" | "commodities";
+
+// Keys of `oracles.priceAdapters` in the address book
+export type PriceAdapterKey = "glp" | "wstEth" | "gmBTCUSD" | "gmETHUSD" | "dix";
+
+export type AssetPriceSource =
+  | { pythPriceId: string; multiplicationFactor?: number }
+  | { priceAdapter: PriceAdapterKey };
+
+export type RegistryAsset = {
+  symbol: string;
+  // Defaults to the bytes32 encoded symbol
+  assetId?: string;
+  // Position in EcoPyth; assets that are not priced by EcoPyth have neither index nor price
+  ecoPythIndex?: number;
+  price?: AssetPriceSource;
+  // Entry of configs/.pricefeed.mainnet.json
+  legacyPriceFeed?: { symbol: string; isInverse: boolean };
+};
+
+export type RegistryMarket = {
+  index: number;
+  name: string;
+  asset: string;
+  assetClass: AssetClass;
+  slug: string;
+  assetSymbol: string;
+  sortIndex: number;
+  quotedAssetId?: string;
+  quotedAssetSymbol?: string;
+};
+
+export type RegistryCollateral = {
+  asset: string;
+  address: string;
+  decimals: number;
+};
+
+/**
+ * Arbitrum One market metadata. This is the source of truth for the EcoPyth index arrays,
+ * collaterals, asset classes, configs/.arbitrum.one.market.json and configs/.pricefeed.mainnet.json.
+ * Regenerate the JSON files with `commands/Registry/generate.ts` after editing.
+ *
+ * EcoPyth indexes are append only, they must match the order of `EcoPyth2.getAssetIds()`.
+ */
+const assets: Array<RegistryAsset> = [
+  {
+    symbol: "ETH",
+    ecoPythIndex: 0,
+    price: { pythPriceId: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace" },
+    legacyPriceFeed: { symbol: "Crypto.ETH/USD", isInverse: false },
+  },
+  {
+    symbol: "BTC",
+    ecoPythIndex: 1,
+    price: { pythPriceId: "0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43" },
+    legacyPriceFeed: { symbol: "Crypto.BTC/USD", isInverse: false },
+  },
+  {
+    symbol: "USDC",
+    ecoPythIndex: 2,
+    price: { pythPriceId: "0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a" },
+    legacyPriceFeed: { symbol: "Crypto.USDC/USD", isInverse: false },
+  },
+  {
+    symbol: "USDT",
+    ecoPythIndex: 3,
+    price: { pythPriceId: "0x2b89b9dc8fdf9f34709a5b106b472f0f39bb6ca9ce04b0fd7f2e971688e2e53b" },
+    legacyPriceFeed: { symbol: "Crypto.USDT/USD", isInverse: false },
+  },
+  {
+    symbol: "DAI",
+    ecoPythIndex: 4,
+    price: { pythPriceId: "0xb0948a5e5313200c632b51bb5ca32f6de0d36e9950a942d19751e833f70dabfd" },
+    legacyPriceFeed: { symbol: "Crypto.DAI/USD", isInverse: false },
+  },
+  {
+    symbol: "AAPL",
+    ecoPythIndex: 5,
+    price: { pythPriceId: "0x49f6b65cb1de6b10eaf75e7c03ca029c306d0357e91b5311b175084a5ad55688" },
+    legacyPriceFeed: { symbol: "Equity.US.AAPL/USD", isInverse: false },
+  },
+  {
+    symbol: "JPY",
+    ecoPythIndex: 6,
+    price: { pythPriceId: "0xef2c98c804ba503c6a707e38be4dfbb16683775f195b091252bf24693042fd52" },
+    legacyPriceFeed: { symbol: "FX.USD/JPY", isInverse: true },
+  },
+  {
+    symbol: "XAU",
+    ecoPythIndex: 7,
+    price: { pythPriceId: "0x765d2ba906dbc32ca17cc11f5310a89e9ee1f6420508c63861f2f8ba4ee34bb2" },
+    legacyPriceFeed: { symbol: "Metal.XAU/USD", isInverse: false },
+  },
+  {
+    symbol: "AMZN",
+    ecoPythIndex: 8,
+    price: { pythPriceId: "0xb5d0e0fa58a1f8b81498ae670ce93c872d14434b72c364885d4fa1b257cbb07a" },
+    legacyPriceFeed: { symbol: "Equity.US.AMZN/USD", isInverse: false },
+  },
+  {
+    symbol: "MSFT",
+    ecoPythIndex: 9,
+    price: { pythPriceId: "0xd0ca23c1cc005e004ccf1db5bf76aeb6a49218f43dac3d4b275e92de12ded4d1" },
+    legacyPriceFeed: { symbol: "Equity.US.MSFT/USD", isInverse: false },
+  },
+  {
+    symbol: "TSLA",
+    ecoPythIndex: 10,
+    price: { pythPriceId: "0x16dad506d7db8da01c87581c87ca897a012a153557d4d578c3b9c9e1bc0632f1" },
+    legacyPriceFeed: { symbol: "Equity.US.TSLA/USD", isInverse: false },
+  },
+  {
+    symbol: "EUR",
+    ecoPythIndex: 11,
+    price: { pythPriceId: "0xa995d00bb36a63cef7fd2c287dc105fc8f3d93779f062f09551b0af3e81ec30b" },
+    legacyPriceFeed: { symbol: "FX.EUR/USD", isInverse: false },
+  },
+  {
+    symbol: "XAG",
+    ecoPythIndex: 12,
+    price: { pythPriceId: "0xf2fb02c32b055c805e7238d628e5e9dadef274376114eb1f012337cabe93871e" },
+    legacyPriceFeed: { symbol: "Metal.XAG/USD", isInverse: false },
+  },
+  { symbol: "GLP", ecoPythIndex: 13, price: { priceAdapter: "glp" } },
+  {
+    symbol: "AUD",
+    ecoPythIndex: 14,
+    price: { pythPriceId: "0x67a6f93030420c1c9e3fe37c1ab6b77966af82f995944a9fefce357a22854a80" },
+  },
+  {
+    symbol: "GBP",
+    ecoPythIndex: 15,
+    price: { pythPriceId: "0x84c2dde9633d93d1bcad84e7dc41c9d56578b7ec52fabedc1f335d673df0a7c1" },
+  },
+  {
+    symbol: "ADA",
+    ecoPythIndex: 16,
+    price: { pythPriceId: "0x2a01deaec9e51a579277b34b122399984d0bbf57e2458a7e42fecd2829867a0d" },
+  },
+  {
+    symbol: "MATIC",
+    ecoPythIndex: 17,
+    price: { pythPriceId: "0x5de33a9112c2b700b8d30b8a3402c103578ccfa2765696471cc672bd5cf6ac52" },
+  },
+  {
+    symbol: "SUI",
+    ecoPythIndex: 18,
+    price: { pythPriceId: "0x23d7315113f5b1d3ba7a83604c44b94d79f4fd69af77f804fc7f920a6dc65744" },
+  },
+  {
+    symbol: "ARB",
+    ecoPythIndex: 19,
+    price: { pythPriceId: "0x3fa4252848f9f0a1480be62745a4629d9eb1322aebab8a791e344b3b9c1adcf5" },
+  },
+  {
+    symbol: "OP",
+    ecoPythIndex: 20,
+    price: { pythPriceId: "0x385f64d993f7b77d8182ed5003d97c60aa3361f3cecfe711544d2d59165e9bdf" },
+  },
+  {
+    symbol: "LTC",
+    ecoPythIndex: 21,
+    price: { pythPriceId: "0x6e3f3fa8253588df9326580180233eb791e03b443a3ba7a1d892e73874e19a54" },
+  },
+  {
+    symbol: "COIN",
+    ecoPythIndex: 22,
+    price: { pythPriceId: "0xfee33f2a978bf32dd6b662b65ba8083c6773b494f8401194ec1870c640860245" },
+  },
+  {
+    symbol: "GOOG",
+    ecoPythIndex: 23,
+    price: { pythPriceId: "0xe65ff435be42630439c96396653a342829e877e2aafaeaf1a10d0ee5fd2cf3f2" },
+  },
+  {
+    symbol: "BNB",
+    ecoPythIndex: 24,
+    price: { pythPriceId: "0x2f95862b045670cd22bee3114c39763a4a08beeb663b145d283c31d7d1101c4f" },
+  },
+  {
+    symbol: "SOL",
+    ecoPythIndex: 25,
+    price: { pythPriceId: "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d" },
+  },
+  {
+    symbol: "QQQ",
+    ecoPythIndex: 26,
+    price: { pythPriceId: "0x9695e2b96ea7b3859da9ed25b7a46a920a776e2fdae19a7bcfdf2b219230452d" },
+  },
+  {
+    symbol: "XRP",
+    ecoPythIndex: 27,
+    price: { pythPriceId: "0xec5d399846a9209f3fe5881d70aae9268c94339ff9817e8d18ff19fa05eea1c8" },
+  },
+  {
+    symbol: "NVDA",
+    ecoPythIndex: 28,
+    price: { pythPriceId: "0xb1073854ed24cbc755dc527418f52b7d271f6cc967bbf8d8129112b18860a593" },
+    legacyPriceFeed: { symbol: "Equity.US.NVDA/USD", isInverse: false },
+  },
+  {
+    symbol: "LINK",
+    ecoPythIndex: 29,
+    price: { pythPriceId: "0x8ac0c70fff57e9aefdf5edf44b51d62c2d433653cbb2cf5cc06bb115af04d221" },
+  },
+  {
+    symbol: "CHF",
+    ecoPythIndex: 30,
+    price: { pythPriceId: "0x0b1e3297e69f162877b577b0d6a47a0d63b2392bc8499e6540da4187a63e28f8" },
+  },
+  {
+    symbol: "DOGE",
+    ecoPythIndex: 31,
+    price: { pythPriceId: "0xdcef50dd0a4cd2dcc17e45df1676dcb336a11a61c69df7a0299b0150c672d25c" },
+  },
+  {
+    symbol: "CAD",
+    ecoPythIndex: 32,
+    price: { pythPriceId: "0x3112b03a41c910ed446852aacf67118cb1bec67b2cd0b9a214c58cc0eaa2ecca" },
+  },
+  {
+    symbol: "SGD",
+    ecoPythIndex: 33,
+    price: { pythPriceId: "0x396a969a9c1480fa15ed50bc59149e2c0075a72fe8f458ed941ddec48bdb4918" },
+  },
+  { symbol: "wstETH", ecoPythIndex: 34, price: { priceAdapter: "wstEth" } },
+  {
+    symbol: "CNH",
+    ecoPythIndex: 35,
+    price: { pythPriceId: "0xeef52e09c878ad41f6a81803e3640fe04dceea727de894edd4ea117e2e332e66" },
+  },
+  {
+    symbol: "HKD",
+    ecoPythIndex: 36,
+    price: { pythPriceId: "0x19d75fde7fee50fe67753fdc825e583594eb2f51ae84e114a5246c4ab23aff4c" },
+  },
+  {
+    symbol: "BCH",
+    ecoPythIndex: 37,
+    price: { pythPriceId: "0x3dd2b63686a450ec7290df3a1e0b583c0481f651351edfa7636f39aed55cf8a3" },
+  },
+  {
+    symbol: "MEME",
+    ecoPythIndex: 38,
+    price: { pythPriceId: "0xcd2cee36951a571e035db0dfad138e6ecdb06b517cc3373cd7db5d3609b7927c" },
+  },
+  { symbol: "GM-BTCUSD", ecoPythIndex: 39, price: { priceAdapter: "gmBTCUSD" } },
+  { symbol: "GM-ETHUSD", ecoPythIndex: 40, price: { priceAdapter: "gmETHUSD" } },
+  {
+    symbol: "SEK",
+    ecoPythIndex: 41,
+    price: { pythPriceId: "0x8ccb376aa871517e807358d4e3cf0bc7fe4950474dbe6c9ffc21ef64e43fc676" },
+  },
+  { symbol: "DIX", ecoPythIndex: 42, price: { priceAdapter: "dix" } },
+  {
+    symbol: "JTO",
+    ecoPythIndex: 43,
+    price: { pythPriceId: "0xb43660a5f790c69354b0729a5ef9d50d68f1df92107540210b9cccba1f947cc2" },
+  },
+  {
+    symbol: "STX",
+    ecoPythIndex: 44,
+    price: { pythPriceId: "0xec7a775f46379b5e943c3526b1c8d54cd49749176b0b98e02dde68d1bd335c17" },
+  },
+  {
+    symbol: "ORDI",
+    ecoPythIndex: 45,
+    price: { pythPriceId: "0x193c739db502aadcef37c2589738b1e37bdb257d58cf1ab3c7ebc8e6df4e3ec0" },
+  },
+  {
+    symbol: "TIA",
+    ecoPythIndex: 46,
+    price: { pythPriceId: "0x09f7c1d7dfbb7df2b8fe3d3d87ee94a2259d212da4f30c1f0540d066dfa44723" },
+  },
+  {
+    symbol: "AVAX",
+    ecoPythIndex: 47,
+    price: { pythPriceId: "0x93da3352f9f1d105fdfe4971cfa80e9dd777bfc5d0f683ebb6e1294b92137bb7" },
+  },
+  {
+    symbol: "INJ",
+    ecoPythIndex: 48,
+    price: { pythPriceId: "0x7a5bc1d2b56ad029048cd63964b3ad2776eadf812edc1a43a31406cb54bff592" },
+  },
+  {
+    symbol: "DOT",
+    ecoPythIndex: 49,
+    price: { pythPriceId: "0xca3eed9b267293f6595901c734c7525ce8ef49adafe8284606ceb307afa2ca5b" },
+  },
+  {
+    symbol: "SEI",
+    ecoPythIndex: 50,
+    price: { pythPriceId: "0x53614f1cb0c031d4af66c04cb9c756234adad0e1cee85303795091499a4084eb" },
+  },
+  {
+    symbol: "ATOM",
+    ecoPythIndex: 51,
+    price: { pythPriceId: "0xb00b60f88b03a6a625a8d1c048c3f66653edf217439983d037e7222c4e612819" },
+  },
+  {
+    symbol: "1000PEPE",
+    ecoPythIndex: 52,
+    price: {
+      pythPriceId: "0xd69731a2e74ac1ce884fc3890f7ee324b6deb66147055249568869ed700882e4",
+      multiplicationFactor: 1000,
+    },
+  },
+  {
+    symbol: "1000SHIB",
+    ecoPythIndex: 53,
+    price: {
+      pythPriceId: "0xf0d57deca57b3da2fe63a493f4c25925fdfd8edf834b20f93e1f84dbd1504d4a",
+      multiplicationFactor: 1000,
+    },
+  },
+  {
+    symbol: "ICP",
+    ecoPythIndex: 54,
+    price: { pythPriceId: "0xc9907d786c5821547777780a1e4f89484f3417cb14dd244f2b0a34ea7a554d67" },
+  },
+  {
+    symbol: "MANTA",
+    ecoPythIndex: 55,
+    price: { pythPriceId: "0xc3883bcf1101c111e9fcfe2465703c47f2b638e21fef2cce0502e6c8f416e0e2" },
+  },
+  { symbol: "HLP", assetId: "HLP" },
+  { symbol: "HMX", assetId: "HMX" },
+  { symbol: "LHMX", assetId: "LHMX" },
+  { symbol: "esHMX", assetId: "esHMX" },
+  { symbol: "DragonPoint", assetId: "DragonPoint" },
+];
+
+const markets: Array<RegistryMarket> = [
+  {
+    index: 0,
+    name: "ETHUSD",
+    asset: "ETH",
+    assetClass: "crypto",
+    slug: "eth-usd",
+    assetSymbol: "Crypto.ETH",
+    sortIndex: 0,
+  },
+  {
+    index: 1,
+    name: "BTCUSD",
+    asset: "BTC",
+    assetClass: "crypto",
+    slug: "btc-usd",
+    assetSymbol: "Crypto.BTC",
+    sortIndex: 1,
+  },
+  {
+    index: 2,
+    name: "AAPLUSD",
+    asset: "AAPL",
+    assetClass: "equity",
+    slug: "aapl-usd",
+    assetSymbol: "Equity.US.AAPL",
+    sortIndex: 4000,
+  },
+  {
+    index: 3,
+    name: "JPYUSD",
+    asset: "JPY",
+    assetClass: "forex",
+    slug: "jpy-usd",
+    assetSymbol: "FX.JPY",
+    sortIndex: 2000,
+  },
+  {
+    index: 4,
+    name: "XAUUSD",
+    asset: "XAU",
+    assetClass: "commodities",
+    slug: "xau-usd",
+    assetSymbol: "Metal.XAU",
+    sortIndex: 3001,
+  },
+  {
+    index: 5,
+    name: "AMZNUSD",
+    asset: "AMZN",
+    assetClass: "equity",
+    slug: "amzn-usd",
+    assetSymbol: "Equity.US.AMZN",
+    sortIndex: 4001,
+  },
+  {
+    index: 6,
+    name: "MSFTUSD",
+    asset: "MSFT",
+    assetClass: "equity",
+    slug: "msft-usd",
+    assetSymbol: "Equity.US.MSFT",
+    sortIndex: 4002,
+  },
+  {
+    index: 7,
+    name: "TSLAUSD",
+    asset: "TSLA",
+    assetClass: "equity",
+    slug: "tsla-usd",
+    assetSymbol: "Equity.US.TSLA",
+    sortIndex: 4003,
+  },
+  {
+    index: 8,
+    name: "EURUSD",
+    asset: "EUR",
+    assetClass: "forex",
+    slug: "eur-usd",
+    assetSymbol: "FX.EUR",
+    sortIndex: 2001,
+  },
+  {
+    index: 9,
+    name: "XAGUSD",
+    asset: "XAG",
+    assetClass: "commodities",
+    slug: "xag-usd",
+    assetSymbol: "Metal.XAG",
+    sortIndex: 3001,
+  },
+  {
+    index: 10,
+    name: "AUDUSD",
+    asset: "AUD",
+    assetClass: "forex",
+    slug: "aud-usd",
+    assetSymbol: "FX.AUD",
+    sortIndex: 2002,
+  },
+  {
+    index: 11,
+    name: "GBPUSD",
+    asset: "GBP",
+    assetClass: "forex",
+    slug: "gbp-usd",
+    assetSymbol: "FX.GBP",
+    sortIndex: 2003,
+  },
+  {
+    index: 12,
+    name: "ADAUSD",
+    asset: "ADA",
+    assetClass: "crypto",
+    slug: "ada-usd",
+    assetSymbol: "Crypto.ADA",
+    sortIndex: 2,
+  },
+  {
+    index: 13,
+    name: "MATICUSD",
+    asset: "MATIC",
+    assetClass: "crypto",
+    slug: "matic-usd",
+    assetSymbol: "Crypto.MATIC",
+    sortIndex: 3,
+  },
+  {
+    index: 14,
+    name: "SUIUSD",
+    asset: "SUI",
+    assetClass: "crypto",
+    slug: "sui-usd",
+    assetSymbol: "Crypto.SUI",
+    sortIndex: 4,
+  },
+  {
+    index: 15,
+    name: "ARBUSD",
+    asset: "ARB",
+    assetClass: "crypto",
+    slug: "arb-usd",
+    assetSymbol: "Crypto.ARB",
+    sortIndex: 5,
+  },
+  {
+    index: 16,
+    name: "OPUSD",
+    asset: "OP",
+    assetClass: "crypto",
+    slug: "op-usd",
+    assetSymbol: "Crypto.OP",
+    sortIndex: 6,
+  },
+  {
+    index: 17,
+    name: "LTCUSD",
+    asset: "LTC",
+    assetClass: "crypto",
+    slug: "ltc-usd",
+    assetSymbol: "Crypto.LTC",
+    sortIndex: 7,
+  },
+  {
+    index: 18,
+    name: "COINUSD",
+    asset: "COIN",
+    assetClass: "equity",
+    slug: "coin-usd",
+    assetSymbol: "Equity.US.COIN",
+    sortIndex: 4005,
+  },
+  {
+    index: 19,
+    name: "GOOGUSD",
+    asset: "GOOG",
+    assetClass: "equity",
+    slug: "goog-usd",
+    assetSymbol: "Equity.US.GOOG",
+    sortIndex: 4006,
+  },
+  {
+    index: 20,
+    name: "BNBUSD",
+    asset: "BNB",
+    assetClass: "crypto",
+    slug: "bnb-usd",
+    assetSymbol: "Crypto.BNB",
+    sortIndex: 8,
+  },
+  {
+    index: 21,
+    name: "SOLUSD",
+    asset: "SOL",
+    assetClass: "crypto",
+    slug: "sol-usd",
+    assetSymbol: "Crypto.SOL",
+    sortIndex: 9,
+  },
+  {
+    index: 22,
+    name: "QQQUSD",
+    asset: "QQQ",
+    assetClass: "equity",
+    slug: "qqq-usd",
+    assetSymbol: "Equity.US.QQQ",
+    sortIndex: 4007,
+  },
+  {
+    index: 23,
+    name: "XRPUSD",
+    asset: "XRP",
+    assetClass: "crypto",
+    slug: "xrp-usd",
+    assetSymbol: "Crypto.XRP",
+    sortIndex: 10,
+  },
+  {
+    index: 24,
+    name: "NVDAUSD",
+    asset: "NVDA",
+    assetClass: "equity",
+    slug: "nvda-usd",
+    assetSymbol: "Equity.US.NVDA",
+    sortIndex: 4008,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.USD",
+  },
+  {
+    index: 25,
+    name: "LINKUSD",
+    asset: "LINK",
+    assetClass: "crypto",
+    slug: "link-usd",
+    assetSymbol: "Crypto.LINK",
+    sortIndex: 11,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.USD",
+  },
+  {
+    index: 26,
+    name: "USDCHF",
+    asset: "CHF",
+    assetClass: "forex",
+    slug: "usd-chf",
+    assetSymbol: "FX.CHF",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.USD",
+  },
+  {
+    index: 27,
+    name: "DOGEUSD",
+    asset: "DOGE",
+    assetClass: "crypto",
+    slug: "doge-usd",
+    assetSymbol: "Crypto.DOGE",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.DOGE",
+  },
+  {
+    index: 28,
+    name: "USDCAD",
+    asset: "CAD",
+    assetClass: "forex",
+    slug: "usd-cad",
+    assetSymbol: "FX.CAD",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.USD",
+  },
+  {
+    index: 29,
+    name: "USDSGD",
+    asset: "SGD",
+    assetClass: "forex",
+    slug: "usd-sgd",
+    assetSymbol: "FX.SGD",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.USD",
+  },
+  {
+    index: 30,
+    name: "USDCNH",
+    asset: "CNH",
+    assetClass: "forex",
+    slug: "usd-cnh",
+    assetSymbol: "FX.CNH",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.CNH",
+  },
+  {
+    index: 31,
+    name: "USDHKD",
+    asset: "HKD",
+    assetClass: "forex",
+    slug: "usd-hkd",
+    assetSymbol: "FX.HKD",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.HKD",
+  },
+  {
+    index: 32,
+    name: "BCHUSD",
+    asset: "BCH",
+    assetClass: "crypto",
+    slug: "bch-usd",
+    assetSymbol: "Crypto.BCH",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.BCH",
+  },
+  {
+    index: 33,
+    name: "MEMEUSD",
+    asset: "MEME",
+    assetClass: "crypto",
+    slug: "meme-usd",
+    assetSymbol: "Crypto.MEME",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.MEME",
+  },
+  {
+    index: 34,
+    name: "DIX",
+    asset: "DIX",
+    assetClass: "forex",
+    slug: "dix",
+    assetSymbol: "FX.DIX",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.DIX",
+  },
+  {
+    index: 35,
+    name: "JTOUSD",
+    asset: "JTO",
+    assetClass: "crypto",
+    slug: "jto-usd",
+    assetSymbol: "Crypto.JTO",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.JTO",
+  },
+  {
+    index: 36,
+    name: "STXUSD",
+    asset: "STX",
+    assetClass: "crypto",
+    slug: "stx-usd",
+    assetSymbol: "Crypto.STX",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.STX",
+  },
+  {
+    index: 37,
+    name: "ORDIUSD",
+    asset: "ORDI",
+    assetClass: "crypto",
+    slug: "ordi-usd",
+    assetSymbol: "Crypto.ORDI",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.ORDI",
+  },
+  {
+    index: 38,
+    name: "TIAUSD",
+    asset: "TIA",
+    assetClass: "crypto",
+    slug: "tia-usd",
+    assetSymbol: "Crypto.TIA",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.TIA",
+  },
+  {
+    index: 39,
+    name: "AVAXUSD",
+    asset: "AVAX",
+    assetClass: "crypto",
+    slug: "avax-usd",
+    assetSymbol: "Crypto.AVAX",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.AVAX",
+  },
+  {
+    index: 40,
+    name: "INJUSD",
+    asset: "INJ",
+    assetClass: "crypto",
+    slug: "inj-usd",
+    assetSymbol: "Crypto.INJ",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.INJ",
+  },
+  {
+    index: 41,
+    name: "DOTUSD",
+    asset: "DOT",
+    assetClass: "crypto",
+    slug: "dot-usd",
+    assetSymbol: "Crypto.DOT",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.DOT",
+  },
+  {
+    index: 42,
+    name: "SEIUSD",
+    asset: "SEI",
+    assetClass: "crypto",
+    slug: "sei-usd",
+    assetSymbol: "Crypto.SEI",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.SEI",
+  },
+  {
+    index: 43,
+    name: "ATOMUSD",
+    asset: "ATOM",
+    assetClass: "crypto",
+    slug: "atom-usd",
+    assetSymbol: "Crypto.ATOM",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.ATOM",
+  },
+  {
+    index: 44,
+    name: "1000PEPEUSD",
+    asset: "1000PEPE",
+    assetClass: "crypto",
+    slug: "1000pepe-usd",
+    assetSymbol: "Crypto.1000PEPE",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.1000PEPE",
+  },
+  {
+    index: 45,
+    name: "1000SHIBUSD",
+    asset: "1000SHIB",
+    assetClass: "crypto",
+    slug: "1000shib-usd",
+    assetSymbol: "Crypto.1000SHIB",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.1000SHIB",
+  },
+  {
+    index: 46,
+    name: "USDSEK",
+    asset: "SEK",
+    assetClass: "forex",
+    slug: "usd-sek",
+    assetSymbol: "FX.SEK",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "FX.SEK",
+  },
+  {
+    index: 47,
+    name: "ICPUSD",
+    asset: "ICP",
+    assetClass: "crypto",
+    slug: "icp-usd",
+    assetSymbol: "Crypto.ICP",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.ICP",
+  },
+  {
+    index: 48,
+    name: "MANTAUSD",
+    asset: "MANTA",
+    assetClass: "crypto",
+    slug: "manta-usd",
+    assetSymbol: "Crypto.MANTA",
+    sortIndex: 2004,
+    quotedAssetId: "0x",
+    quotedAssetSymbol: "Crypto.MANTA",
+  },
+];
+
+const collaterals: { [collateralSymbol: string]: RegistryCollateral } = {
+  "USDC.e": { asset: "USDC", address: "0xff970a61a04b1ca14834a43f5de4533ebddb5cc8", decimals: 6 },
+  USDT: { asset: "USDT", address: "0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9", decimals: 6 },
+  DAI: { asset: "DAI", address: "0xda10009cbd5d07dd0cecc66161fc93d7c9000da1", decimals: 18 },
+  WETH: { asset: "ETH", address: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1", decimals: 18 },
+  WBTC: { asset: "BTC", address: "0x2f2a2543b76a4166549f7aab2e75bef0aefc5b0f", decimals: 8 },
+  sGLP: { asset: "GLP", address: "0x5402B5F40310bDED796c7D0F3FF6683f5C0cFfdf", decimals: 18 },
+  ARB: { asset: "ARB", address: "0x912CE59144191C1204E64559FE8253a0e49E6548", decimals: 18 },
+  wstETH: { asset: "wstETH", address: "0x5979d7b546e38e414f7e9822514be443a4800529", decimals: 18 },
+  USDC: { asset: "USDC", address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6 },
+  gmBTCUSDC: { asset: "GM-BTCUSD", address: "0x47c031236e19d024b42f8AE6780E44A573170703", decimals: 18 },
+  gmETHUSDC: { asset: "GM-ETHUSD", address: "0x70d95587d40A2caf56bd97485aB3Eec10Bee6336", decimals: 18 },
+};
+
+// Index of each class in `ConfigStorage.assetClassConfigs`
+const assetClasses: { [assetClass in AssetClass]: number } = {
+  crypto: 0,
+  equity: 1,
+  forex: 2,
+  commodities: 3,
+};
+
+export function getRegistryAssetId(asset: RegistryAsset): string {
+  return asset.assetId || ethers.utils.formatBytes32String(asset.symbol);
+}
+
+export function getRegistryAsset(symbol: string): RegistryAsset {
+  const asset = assets.find((a) => a.symbol === symbol);
+  if (!asset) throw new Error(`[entities/market-registry] Unknown asset ${symbol}`);
+  return asset;
+}
+
+// Assets priced by EcoPyth, ordered by their EcoPyth index
+export function getEcoPythAssets(): Array<RegistryAsset> {
+  return assets.filter((a) => a.ecoPythIndex !== undefined).sort((a, b) => a.ecoPythIndex! - b.ecoPythIndex!);
+}
+
+export default {
+  chainId: 42161,
+  glpAsset: "GLP",
+  assets,
+  markets,
+  collaterals,
+  assetClasses,
+};
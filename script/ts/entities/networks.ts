@@ -0,0 +1,44 @@
+export type NetworkEntity = {
+  name: string;
+  chainId: number;
+  // Hardhat `--network` names that resolve to this deployment
+  hardhatNetworks: Array<string>;
+  // Paths are relative to the repository root
+  configPath: string;
+  marketConfigPath?: string;
+  rpcEnvKey: string;
+  defaultRpc?: string;
+  safeTxServiceUrl: string;
+  statSubgraphUrlEnvKey?: string;
+};
+
+export default [
+  {
+    name: "arbitrum",
+    chainId: 42161,
+    hardhatNetworks: ["arbitrum", "tenderly"],
+    configPath: "configs/arbitrum.mainnet.json",
+    marketConfigPath: "configs/.arbitrum.one.market.json",
+    rpcEnvKey: "ARBITRUM_MAINNET_RPC",
+    safeTxServiceUrl: "https://safe-transaction-arbitrum.safe.global/",
+    statSubgraphUrlEnvKey: "ARBI_STAT_SUBGRAPH_URL",
+  },
+  {
+    name: "arbitrum_goerli",
+    chainId: 421613,
+    hardhatNetworks: ["arb_goerli"],
+    configPath: "configs/arbitrum.goerli.json",
+    marketConfigPath: "configs/.arbitrum.goerli.market.json",
+    rpcEnvKey: "ARBITRUM_GOERLI_RPC",
+    safeTxServiceUrl: "https://safe-transaction-arbitrum.safe.global/",
+  },
+  {
+    name: "localhost",
+    chainId: 31337,
+    hardhatNetworks: ["localhost", "hardhat"],
+    configPath: "configs/local.json",
+    rpcEnvKey: "LOCAL_RPC",
+    defaultRpc: "http://127.0.0.1:8545",
+    safeTxServiceUrl: "",
+  },
+] as Array<NetworkEntity>;
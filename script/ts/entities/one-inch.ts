@@ -2,14 +2,17 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
-if (process.env.ONE_INCH_URL === undefined) {
-  throw new Error("Missing ONE_INCH_URL env var");
-}
-if (process.env.ONE_INCH_API_KEY === undefined) {
-  throw new Error("Missing ONE_INCH_API_KEY env var");
+function _requireEnv(key: string): string {
+  const value = process.env[key];
+  if (value === undefined) throw new Error(`Missing ${key} env var`);
+  return value;
 }
 
 export default {
-  baseUrl: process.env.ONE_INCH_URL,
-  apiKey: process.env.ONE_INCH_API_KEY,
+  get baseUrl(): string {
+    return _requireEnv("ONE_INCH_URL");
+  },
+  get apiKey(): string {
+    return _requireEnv("ONE_INCH_API_KEY");
+  },
 };
@@ -1,12 +1,52 @@
+import * as fs from "fs";
 import { ethers } from "ethers";
-import dotenv from "dotenv";
 import chains from "./chains";
+import { impersonateAccount } from "../utils/account";
+import { requireCapabilities } from "../utils/requirements";
+import { getSignerSpec, SignerRole } from "../utils/signer-config";
 
-dotenv.config();
+// The account is unlocked before its first send, hardhat and anvil refuse unsigned sends otherwise
+function _impersonatedSigner(provider: ethers.providers.JsonRpcProvider, address: string): ethers.Signer {
+  const signer = provider.getSigner(address);
+  const sendUncheckedTransaction = signer.sendUncheckedTransaction.bind(signer);
+  let unlocked: Promise<void> | undefined;
+  signer.sendUncheckedTransaction = async (transaction) => {
+    unlocked = unlocked || impersonateAccount(provider, address);
+    await unlocked;
+    return sendUncheckedTransaction(transaction);
+  };
+  return signer;
+}
+
+function forRole(chainId: number, role: SignerRole): ethers.Signer {
+  requireCapabilities(chainId, ["rpc", `signer:${role}`]);
+  const provider = chains[chainId].jsonRpcProvider;
+  const spec = getSignerSpec(role);
+
+  switch (spec.backend) {
+    case "privateKey":
+      return new ethers.Wallet(process.env[spec.envKey]!, provider);
+    case "keystore":
+      return ethers.Wallet.fromEncryptedJsonSync(
+        fs.readFileSync(spec.path, "utf8"),
+        process.env[spec.passwordEnvKey]!
+      ).connect(provider);
+    case "mnemonic":
+      return ethers.Wallet.fromMnemonic(process.env[spec.envKey]!, spec.path).connect(provider);
+    case "remote":
+      // Transactions are signed and broadcast by the remote node (e.g. web3signer, Frame)
+      return new ethers.providers.JsonRpcProvider(spec.url).getSigner(spec.address);
+    case "impersonate":
+      // Only works against a fork: hardhat, anvil or Tenderly
+      return _impersonatedSigner(provider, spec.address);
+  }
+}
 
 export default {
-  deployer: (chainId: number): ethers.Signer => {
-    if (!process.env.MAINNET_PRIVATE_KEY) throw new Error("Missing ARBI_MAINNET_PRIVATE_KEY env var");
-    return new ethers.Wallet(process.env.MAINNET_PRIVATE_KEY, chains[chainId].jsonRpcProvider);
-  },
+  forRole,
+  deployer: (chainId: number): ethers.Signer => forRole(chainId, "deployer"),
+  priceFeeder: (chainId: number): ethers.Signer => forRole(chainId, "priceFeeder"),
+  orderExecutor: (chainId: number): ethers.Signer => forRole(chainId, "orderExecutor"),
+  liquidator: (chainId: number): ethers.Signer => forRole(chainId, "liquidator"),
+  treasuryProposer: (chainId: number): ethers.Signer => forRole(chainId, "treasuryProposer"),
 };
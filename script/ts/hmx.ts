@@ -0,0 +1,152 @@
+import * as path from "path";
+import { Command } from "commander";
+import { CliModule, discoverCliModules, findCliModule } from "./utils/cli-discovery";
+import { applyCliContext, OutputFormat, setCliContext } from "./utils/cli-context";
+import { getNetworkByChainId, getNetworkByName, REPO_ROOT } from "./utils/network";
+import { setActingSignerRole, SignerRole } from "./utils/signer-config";
+
+// Nothing imported above may load hardhat, HARDHAT_NETWORK has to be set before it is
+
+type GlobalOptions = {
+  chain?: string;
+  signerRole?: SignerRole;
+  dryRun: boolean;
+  output: OutputFormat;
+  yes: boolean;
+  safeOffline?: string;
+};
+
+const program = new Command("hmx")
+  .option("-c, --chain <chain>", "chain id or network name, e.g. 42161 or arbitrum")
+  .option("--signer-role <role>", "sign as this role instead of the deployer (see configs/signers.example.json)")
+  .option("--dry-run", "simulate transactions instead of sending them, against DRY_RUN_FORK_RPC when set", false)
+  .option("-o, --output <format>", "table or json", "table")
+  .option("-y, --yes", "answer yes to every confirmation prompt", false)
+  .option(
+    "--safe-offline <dir>",
+    "write Safe proposals to Transaction Builder files in <dir> instead of the Safe service"
+  );
+
+function _resolveChainId(chain: string): number {
+  return /^\d+$/.test(chain) ? getNetworkByChainId(parseInt(chain)).chainId : getNetworkByName(chain).chainId;
+}
+
+function _pad(text: string, width: number): string {
+  return text.length >= width ? `${text} ` : text + " ".repeat(width - text.length);
+}
+
+function _printUsage(modules: Array<CliModule>) {
+  console.log("Usage: hmx [global options] <group> <operation> [operation options]");
+  console.log("       hmx help [group] [operation]\n");
+  console.log("Global options:");
+  for (const option of program.options) console.log(`  ${_pad(option.flags, 26)}${option.description}`);
+
+  const groups = [...new Set(modules.map((module) => module.group))];
+  console.log(`\nGroups (${groups.length}):`);
+  for (const group of groups) {
+    const names = modules.filter((module) => module.group === group).map((module) => module.name);
+    console.log(`  ${_pad(group, 34)}${names.join(", ")}`);
+  }
+}
+
+function _printGroup(modules: Array<CliModule>, group: string) {
+  const groupModules = modules.filter((module) => module.group.toLowerCase() === group.toLowerCase());
+  if (groupModules.length === 0) throw new Error(`[hmx] Unknown group ${group}, run \`hmx help\` to list them`);
+  console.log(`${groupModules[0].group}:`);
+  for (const module of groupModules)
+    console.log(`  ${_pad(module.name, 34)}${module.description}${module.effect ? ` [${module.effect}]` : ""}`);
+}
+
+function _printOperation(module: CliModule) {
+  console.log(`hmx ${module.group} ${module.name}\n`);
+  console.log(`  ${module.description}\n`);
+  console.log(`  Script:   ${path.relative(REPO_ROOT, module.filePath)}`);
+  if (module.effect) console.log(`  Effect:   ${module.effect}`);
+  console.log(
+    `  Chain:    ${
+      module.fixedChainId !== undefined
+        ? `${module.fixedChainId}, fixed by the script`
+        : module.chainFlag || module.runner === "hardhat"
+        ? "required (--chain)"
+        : "none, --chain is rejected"
+    }`
+  );
+  if (module.capabilities.length > 0) console.log(`  Requires: ${module.capabilities.join(", ")}`);
+  if (module.options.length > 0) {
+    console.log("\n  Options:");
+    for (const option of module.options)
+      console.log(`    ${_pad(option.flags, 30)}${option.description}${option.required ? " (required)" : ""}`);
+  }
+}
+
+function _run(module: CliModule, options: GlobalOptions, args: Array<string>) {
+  const requestedChainId = options.chain ? _resolveChainId(options.chain) : undefined;
+  // Scripts with a hardcoded chain id act on it whatever --chain says, so any other chain is refused
+  if (module.fixedChainId !== undefined && requestedChainId !== undefined && requestedChainId !== module.fixedChainId)
+    throw new Error(
+      `[hmx] ${module.group} ${module.name} only runs on chain ${module.fixedChainId}, not ${requestedChainId}`
+    );
+  if (
+    module.fixedChainId === undefined &&
+    !module.chainFlag &&
+    module.runner === "commander" &&
+    requestedChainId !== undefined
+  )
+    throw new Error(`[hmx] ${module.group} ${module.name} does not take a chain, run it without --chain`);
+  const chainId = module.fixedChainId !== undefined ? module.fixedChainId : requestedChainId;
+  if (chainId === undefined && (module.chainFlag || module.runner === "hardhat"))
+    throw new Error(`[hmx] ${module.group} ${module.name} needs --chain`);
+
+  if (chainId !== undefined) process.env.HARDHAT_NETWORK = getNetworkByChainId(chainId).hardhatNetworks[0];
+  if (options.signerRole) {
+    setActingSignerRole(options.signerRole);
+    if (module.runner === "hardhat")
+      console.warn(`[hmx] ${module.group} ${module.name} signs with the hardhat account, --signer-role has no effect`);
+  }
+  if (options.safeOffline) process.env.SAFE_OFFLINE_DIR = options.safeOffline;
+  setCliContext({ dryRun: options.dryRun, yes: options.yes, output: options.output });
+  applyCliContext();
+
+  // Hand the script the argv it would get when run on its own
+  const moduleTakesYes = module.options.some((option) => option.flags.split(/[ ,]+/).includes("--yes"));
+  process.argv = [
+    process.argv[0],
+    module.filePath,
+    ...(module.chainFlag ? [module.chainFlag, String(chainId)] : []),
+    ...args,
+    ...(options.yes && moduleTakesYes ? ["--yes"] : []),
+  ];
+  require(module.filePath);
+}
+
+function main() {
+  const modules = discoverCliModules();
+  // Global options are picked out wherever they appear, everything else goes to the operation
+  const { operands, unknown } = program.parseOptions(process.argv.slice(2));
+  const options = program.opts<GlobalOptions>();
+  const [group, name, ...positionals] = operands;
+  const wantsHelp = unknown.includes("--help") || unknown.includes("-h");
+
+  if (!group || group === "help") {
+    const [helpGroup, helpName] = group === "help" ? [name, positionals[0]] : [];
+    if (!helpGroup) return _printUsage(modules);
+    if (!helpName) return _printGroup(modules, helpGroup);
+    const module = findCliModule(modules, helpGroup, helpName);
+    if (!module) throw new Error(`[hmx] Unknown operation ${helpGroup} ${helpName}`);
+    return _printOperation(module);
+  }
+  if (!name) return _printGroup(modules, group);
+
+  const module = findCliModule(modules, group, name);
+  if (!module) throw new Error(`[hmx] Unknown operation ${group} ${name}, run \`hmx help ${group}\` to list them`);
+  if (wantsHelp) return _printOperation(module);
+
+  _run(module, options, [...positionals, ...unknown]);
+}
+
+try {
+  main();
+} catch (e) {
+  console.error(e);
+  process.exit(1);
+}
@@ -0,0 +1,58 @@
+import { Command } from "commander";
+import { getNetworkByChainId } from "../../utils/network";
+import { getLineage, readDeploymentHistory } from "../../utils/deployment-history";
+
+async function main(chainId: number, key?: string) {
+  const network = getNetworkByChainId(chainId);
+
+  if (!key) {
+    console.log(`[queries/AddressBook] Snapshots of ${network.configPath}`);
+    console.table(
+      readDeploymentHistory(network).snapshots.map((s) => ({
+        id: s.id,
+        date: new Date(s.timestamp * 1000).toISOString(),
+        gitCommit: s.gitCommit.substring(0, 8),
+        note: s.note || "",
+      }))
+    );
+    return;
+  }
+
+  const lineage = getLineage(network, key, true);
+  if (lineage.length === 0) {
+    console.log(`[queries/AddressBook] No history recorded for ${key}`);
+    return;
+  }
+  console.log(`[queries/AddressBook] Lineage of ${key}`);
+  console.table(
+    lineage.map((entry) => ({
+      snapshot: entry.snapshotId,
+      date: new Date(entry.timestamp * 1000).toISOString(),
+      old: entry.oldAddress,
+      new: entry.newAddress,
+      implementation: entry.implementation,
+      txHash: entry.txHash,
+      block: entry.blockNumber,
+      deployer: entry.deployer,
+      gitCommit: entry.gitCommit.substring(0, 8),
+      status: entry.status || "",
+      note: entry.note || "",
+    }))
+  );
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chain-id>", "chain id", parseInt);
+program.option("--key <key>", "config key, e.g. services.trade; lists snapshots when omitted");
+
+const options = program.parse(process.argv).opts();
+
+main(options.chainId, options.key)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
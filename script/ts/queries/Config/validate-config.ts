@@ -0,0 +1,35 @@
+import { Command } from "commander";
+import { readConfigFile } from "../../utils/config";
+import { formatConfigIssues, isFatalConfigIssue, validateConfig } from "../../utils/config-validation";
+
+async function main(chainId: number, showUnset: boolean) {
+  const issues = validateConfig(readConfigFile(chainId)).filter(
+    (issue) => showUnset || (issue.kind !== "unset" && issue.kind !== "zero")
+  );
+
+  if (issues.length === 0) {
+    console.log(`[queries/Config] ✅ Config for chain ${chainId} is valid`);
+    return;
+  }
+  console.log(formatConfigIssues(issues));
+
+  const fatalCount = issues.filter(isFatalConfigIssue).length;
+  if (fatalCount > 0) throw new Error(`[queries/Config] ${fatalCount} fatal issue(s) found`);
+  console.log(`[queries/Config] ✅ No fatal issues, ${issues.length} warning(s)`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chain-id>", "chain id", parseInt);
+program.option("--show-unset", "also report unset and zero addresses", false);
+
+const options = program.parse(process.argv).opts();
+
+main(options.chainId, options.showUnset)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
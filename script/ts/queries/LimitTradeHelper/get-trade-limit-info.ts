@@ -5,8 +5,10 @@ import { LimitTradeHelper__factory } from "../../../../typechain";
 import { MulticallWrapper } from "../../wrappers/MulticallWrapper";
 import { ethers } from "ethers";
 import { IMultiContractCall } from "../../wrappers/MulticallWrapper/interface";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc"]);
   const config = loadConfig(chainId);
   const marketConfig = loadMarketConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
@@ -0,0 +1,62 @@
+// Audits the owner and proxy admin of every address book entry, the Timelock admin and the Safe against a policy file
+import { Command } from "commander";
+import chains from "../../entities/chains";
+import signers from "../../entities/signers";
+import { getMissingRequirements, requireCapabilities } from "../../utils/requirements";
+import {
+  auditOwnership,
+  getOwnershipRoles,
+  readGovernanceState,
+  readOwnership,
+  readOwnershipPolicy,
+} from "../../utils/ownership-audit";
+
+async function main(chainId: number, policyPath: string, deployer?: string) {
+  requireCapabilities(chainId, ["rpc"]);
+  const provider = chains[chainId].jsonRpcProvider;
+  const policy = readOwnershipPolicy(policyPath);
+  if (!deployer && getMissingRequirements(chainId, ["signer"]).length === 0)
+    deployer = await signers.deployer(chainId).getAddress();
+  if (!deployer) console.warn("[queries/Ownable] Deployer unknown, pass --deployer to check it owns nothing");
+  const roles = getOwnershipRoles(chainId, deployer);
+
+  console.log(`[queries/Ownable] Reading ownership of the address book...`);
+  const records = await readOwnership(chainId, provider);
+  const governance = await readGovernanceState(chainId, provider);
+  console.table(
+    records.map((record) => ({
+      key: record.key,
+      address: record.address,
+      owner: record.owner || "",
+      proxyAdmin: record.proxyAdmin || "",
+    }))
+  );
+  console.log(`[queries/Ownable] Timelock admin: ${governance.timelockAdmin}`);
+  console.log(`[queries/Ownable] Safe: ${governance.safeThreshold}/${governance.safeOwners.length} owners`);
+
+  const deviations = auditOwnership(policy, roles, records, governance);
+  if (deviations.length === 0) {
+    console.log("[queries/Ownable] ✅ Ownership matches the policy");
+    return 0;
+  }
+  console.log(`[queries/Ownable] ❌ ${deviations.length} deviations from ${policyPath}`);
+  console.table(deviations);
+  return deviations.length;
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--policy <path>", "expected ownership policy", "configs/policies/ownership.yaml");
+program.option("--deployer <address>", "deployer EOA, defaults to the configured deployer signer");
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, opts.policy, opts.deployer)
+  .then((deviations) => {
+    process.exit(deviations > 0 ? 1 : 0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
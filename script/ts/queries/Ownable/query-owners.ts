@@ -3,8 +3,10 @@ import chains from "../../entities/chains";
 import { loadConfig } from "../../utils/config";
 import MultiCall from "@indexed-finance/multicall";
 import { OwnableUpgradeable__factory } from "../../../../typechain";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main() {
+  requireCapabilities(42161, ["rpc"]);
   const chain = chains[42161];
   const config = loadConfig(42161);
   const provider = new ethers.providers.JsonRpcProvider(chain.rpc);
@@ -4,8 +4,10 @@ import signers from "../../entities/signers";
 import { PerpStorage__factory } from "../../../../typechain";
 import chains from "../../entities/chains";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc", "signer"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
   const signer = signers.deployer(chainId);
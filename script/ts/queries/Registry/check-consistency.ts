@@ -0,0 +1,80 @@
+// Checks the market registry against itself, the generated files, EcoPyth2 and ConfigStorage
+import { Command } from "commander";
+import { ConfigStorage__factory, EcoPyth2__factory } from "../../../../typechain";
+import marketRegistry, { getRegistryAsset, getRegistryAssetId } from "../../entities/market-registry";
+import chains from "../../entities/chains";
+import { ecoPythAssetIdByIndex } from "../../constants/eco-pyth-index";
+import { loadConfig } from "../../utils/config";
+import { checkRegistry, getGeneratedRegistryFiles, isGeneratedFileUpToDate } from "../../utils/market-registry";
+import { requireCapabilities } from "../../utils/requirements";
+
+async function _checkOnChain(chainId: number): Promise<Array<string>> {
+  const problems: Array<string> = [];
+  const config = loadConfig(chainId);
+  const provider = chains[chainId].jsonRpcProvider;
+
+  // EcoPyth2 keeps a placeholder at index 0, asset ids start at 1
+  const onChainAssetIds = (
+    (await EcoPyth2__factory.connect(config.oracles.ecoPyth2, provider).getAssetIds()) as Array<string>
+  )
+    .slice(1)
+    .map((assetId) => assetId.toLowerCase());
+  if (onChainAssetIds.length !== ecoPythAssetIdByIndex.length)
+    problems.push(`EcoPyth2 has ${onChainAssetIds.length} assets, registry has ${ecoPythAssetIdByIndex.length}`);
+  ecoPythAssetIdByIndex.forEach((assetId, i) => {
+    if (onChainAssetIds[i] !== undefined && onChainAssetIds[i] !== assetId.toLowerCase())
+      problems.push(`EcoPyth2 index ${i} is ${onChainAssetIds[i]}, registry has ${assetId}`);
+  });
+
+  const marketConfigs = await ConfigStorage__factory.connect(config.storages.config, provider).getMarketConfigs();
+  if (marketConfigs.length !== marketRegistry.markets.length)
+    problems.push(`ConfigStorage has ${marketConfigs.length} markets, registry has ${marketRegistry.markets.length}`);
+  marketRegistry.markets.forEach((market) => {
+    const marketConfig = marketConfigs[market.index];
+    if (!marketConfig) return;
+    const assetId = getRegistryAssetId(getRegistryAsset(market.asset));
+    if (marketConfig.assetId.toLowerCase() !== assetId.toLowerCase())
+      problems.push(`market ${market.index} (${market.name}) has asset id ${marketConfig.assetId} on-chain`);
+    if (marketConfig.assetClass !== marketRegistry.assetClasses[market.assetClass])
+      problems.push(
+        `market ${market.index} (${market.name}) has asset class ${marketConfig.assetClass} on-chain, registry has ${market.assetClass}`
+      );
+  });
+
+  return problems;
+}
+
+async function main(chainId: number, offline: boolean) {
+  if (chainId !== marketRegistry.chainId)
+    throw new Error(`[queries/Registry] The market registry only describes chain ${marketRegistry.chainId}`);
+  if (!offline) requireCapabilities(chainId, ["rpc"]);
+
+  const problems = checkRegistry(loadConfig(chainId));
+  for (const file of getGeneratedRegistryFiles()) {
+    if (!isGeneratedFileUpToDate(file)) problems.push(`${file.path} is out of date, run commands/Registry/generate.ts`);
+  }
+  if (!offline) problems.push(...(await _checkOnChain(chainId)));
+
+  if (problems.length === 0) {
+    console.log(`[queries/Registry] ✅ Market registry is consistent${offline ? " (on-chain checks skipped)" : ""}`);
+    return;
+  }
+  for (const problem of problems) console.log(`[queries/Registry] ❌ ${problem}`);
+  throw new Error(`[queries/Registry] ${problems.length} problem(s) found`);
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chain-id>", "chain id", parseInt);
+program.option("--offline", "skip the checks against EcoPyth2 and ConfigStorage", false);
+
+const options = program.parse(process.argv).opts();
+
+main(options.chainId, options.offline)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
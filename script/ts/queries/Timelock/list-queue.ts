@@ -0,0 +1,54 @@
+// Lists Timelock transactions recorded in the ledger with the time left until their eta
+import { Command } from "commander";
+import { ethers } from "ethers";
+import { abi as TimelockAbi } from "../../../../abis/Timelock.json";
+import chains from "../../entities/chains";
+import { loadConfig } from "../../utils/config";
+import { requireCapabilities } from "../../utils/requirements";
+import { formatTimeToEta, PENDING_STATUSES, readTimelockLedger } from "../../utils/timelock-ledger";
+
+async function main(chainId: number, all: boolean) {
+  requireCapabilities(chainId, ["rpc"]);
+  const config = loadConfig(chainId);
+  const provider = chains[chainId].jsonRpcProvider;
+  const timelock = new ethers.Contract(config.timelock, TimelockAbi, provider);
+  const gracePeriod = Number((await timelock.GRACE_PERIOD()).toString());
+  const now = (await provider.getBlock("latest")).timestamp;
+
+  const entries = readTimelockLedger(chainId).entries.filter((e) => all || PENDING_STATUSES.includes(e.status));
+  if (entries.length === 0) {
+    console.log(`[queries/Timelock] No ${all ? "" : "pending "}transactions in the ledger`);
+    return;
+  }
+  console.log(`[queries/Timelock] ${all ? "All" : "Pending"} transactions of ${config.timelock}`);
+  console.table(
+    await Promise.all(
+      entries.map(async (e) => ({
+        txHash: e.txHash,
+        info: e.info,
+        target: e.target,
+        signature: e.signature,
+        status: e.status,
+        queuedOnChain: await timelock.queuedTransactions(e.txHash),
+        eta: new Date(Number(e.eta) * 1000).toISOString(),
+        timeToEta: PENDING_STATUSES.includes(e.status) ? formatTimeToEta(Number(e.eta), now, gracePeriod) : "",
+      }))
+    )
+  );
+}
+
+const program = new Command();
+
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--all", "include executed, cancelled and expired transactions", false);
+
+const opts = program.parse(process.argv).opts();
+
+main(opts.chainId, opts.all)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -5,11 +5,13 @@ import collaterals from "../../entities/collaterals";
 import MultiCall from "@indexed-finance/multicall";
 import { Calculator__factory, PerpStorage__factory, VaultStorage__factory } from "../../../../typechain";
 import { getSubAccount } from "../../utils/account";
+import { requireCapabilities } from "../../utils/requirements";
 
 const ONE_ETHER = ethers.utils.parseEther("1");
 const formatUnits = ethers.utils.formatUnits;
 
 async function main() {
+  requireCapabilities(42161, ["rpc"]);
   const chain = chains[42161];
   const config = loadConfig(42161);
   const provider = new ethers.providers.JsonRpcProvider(chain.rpc);
@@ -8,6 +8,7 @@ import { Command } from "commander";
 import { MulticallWrapper } from "../../wrappers/MulticallWrapper";
 import { IMultiContractCall } from "../../wrappers/MulticallWrapper/interface";
 import { StatSubgraphWrapper } from "../../wrappers/StatSubgraphWrapper";
+import { requireCapabilities } from "../../utils/requirements";
 
 type CheckTotalTable = {
   collateralSymbol: string;
@@ -26,6 +27,7 @@ type AccountRow = {
 };
 
 async function main(chainId: number, blockNumber?: number) {
+  requireCapabilities(chainId, ["rpc", "subgraph"]);
   const statSubgraph = new StatSubgraphWrapper(chains[chainId].statSubgraphUrl);
   const accountRows: Array<AccountRow> = await statSubgraph.getSubAccountStats();
   accountRows.push({ subAccount: "0x3231C08B500bb26e0654cb0338F135CeD44d6B84" }); // liquidator
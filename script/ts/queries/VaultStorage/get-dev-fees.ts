@@ -5,8 +5,10 @@ import chains from "../../entities/chains";
 import collaterals from "../../entities/collaterals";
 import MultiCall from "@indexed-finance/multicall";
 import { ethers } from "ethers";
+import { requireCapabilities } from "../../utils/requirements";
 
 async function main(chainId: number) {
+  requireCapabilities(chainId, ["rpc"]);
   const config = loadConfig(chainId);
   const provider = chains[chainId].jsonRpcProvider;
   const multicall = new MultiCall(provider);
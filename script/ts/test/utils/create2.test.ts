@@ -0,0 +1,43 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { ethers } from "ethers";
+import { ethers as hardhatEthers } from "hardhat";
+import { deployCreate2, getCreate2Address, getCreate2ProxyAddress, getCreate2Salt } from "../../utils/create2";
+
+// Returns 42 from any call
+const INIT_CODE = "0x600a600c600039600a6000f3602a60005260206000f3";
+const ADDRESS = "0xD952d833B45b03c93016cFb9A97B612D66c16Bf3";
+
+describe("utils/create2", () => {
+  it("salts with the name and the version", () => {
+    expect(getCreate2Salt("Test", "1")).to.equal(ethers.utils.keccak256(ethers.utils.toUtf8Bytes("hmx:Test:1")));
+    expect(getCreate2Salt("Test", "2")).to.not.equal(getCreate2Salt("Test", "1"));
+  });
+
+  it("precomputes the address of the factory", () => {
+    expect(getCreate2Address(INIT_CODE, getCreate2Salt("Test", "1"))).to.equal(ADDRESS);
+  });
+
+  it("deploys to the precomputed address once", async () => {
+    const [signer] = await hardhatEthers.getSigners();
+    const factory = new ethers.ContractFactory([], INIT_CODE, signer);
+
+    const deployment = await deployCreate2(signer, factory, [], "Test", "1");
+    expect(deployment.address).to.equal(ADDRESS);
+    expect(deployment.txHash).to.not.equal(undefined);
+    expect(await signer.provider!.call({ to: ADDRESS })).to.equal(ethers.utils.hexZeroPad("0x2a", 32));
+
+    expect((await deployCreate2(signer, factory, [], "Test", "1")).txHash).to.equal(undefined);
+  });
+
+  it("salts proxies with their caller", () => {
+    const proxyDeployer = "0x1111111111111111111111111111111111111111";
+    const caller = "0x000000000000000000000000000000000000dEaD";
+    expect(getCreate2ProxyAddress(proxyDeployer, INIT_CODE, caller, "Test", "1")).to.equal(
+      "0x9bF4cB36dCa1390CE82ae7827C82c6Db2B483907"
+    );
+    expect(getCreate2ProxyAddress(proxyDeployer, INIT_CODE, proxyDeployer, "Test", "1")).to.not.equal(
+      "0x9bF4cB36dCa1390CE82ae7827C82c6Db2B483907"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import deploymentGraph from "../../entities/deployment-graph";
+import { sortDeploymentGraph } from "../../utils/deployment-graph";
+
+const LOCAL = 31337;
+const ARBITRUM = 42161;
+
+function _expectTopological(items: ReturnType<typeof sortDeploymentGraph>) {
+  const ids = new Set(items.map((item) => item.id));
+  const seen = new Set<string>();
+  for (const item of items) {
+    for (const dep of item.deps) if (ids.has(dep)) expect(seen.has(dep), `${item.id} before ${dep}`).to.equal(true);
+    seen.add(item.id);
+  }
+}
+
+describe("utils/deployment-graph", () => {
+  describe("sortDeploymentGraph", () => {
+    it("orders the whole graph after its dependencies on a local node", () => {
+      const items = sortDeploymentGraph(LOCAL);
+      _expectTopological(items);
+      expect(items.length).to.equal(deploymentGraph.nodes.length + deploymentGraph.wiring.length);
+      expect(items.map((item) => item.id)).to.include.members(["tokens.weth", "oracles.pyth"]);
+    });
+
+    it("leaves the local mocks to the address book on other chains", () => {
+      const items = sortDeploymentGraph(ARBITRUM);
+      _expectTopological(items);
+      const localOnly = deploymentGraph.nodes.filter((node) => node.localOnly).map((node) => node.key);
+      const ids = items.map((item) => item.id);
+      for (const key of localOnly) expect(ids).to.not.include(key);
+      expect(items.find((item) => item.id === "storages.config")).to.not.equal(undefined);
+    });
+
+    it("keeps the selected nodes and the wiring touching them", () => {
+      const items = sortDeploymentGraph(ARBITRUM, ["handlers.limitTrade"]);
+      expect(items.filter((item) => item.node).map((item) => item.id)).to.deep.equal(["handlers.limitTrade"]);
+      for (const item of items.filter((item) => item.step)) {
+        const step = item.step!;
+        const refs = step.args.map((arg) => (typeof arg === "object" ? arg.ref : undefined));
+        expect([step.contract, ...refs]).to.include("handlers.limitTrade");
+      }
+    });
+
+    it("rejects keys outside of the graph", () => {
+      expect(() => sortDeploymentGraph(ARBITRUM, ["handlers.unknown"])).to.throw("Not in the deployment graph");
+      expect(() => sortDeploymentGraph(ARBITRUM, ["tokens.weth"])).to.throw("Not in the deployment graph");
+    });
+  });
+});
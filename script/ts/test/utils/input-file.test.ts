@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { ethers } from "ethers";
+import { InputEntry, readInputEntry } from "../../utils/input-file";
+
+const entry = (raw: any) => new InputEntry(raw, "input");
+
+describe("utils/input-file", () => {
+  describe("percentBps", () => {
+    it("reads numbers and percent strings", () => {
+      expect(entry({ fee: 0.01 }).percentBps("fee")).to.equal(1);
+      expect(entry({ fee: "0.3%" }).percentBps("fee")).to.equal(30);
+      expect(entry({ fee: 100 }).percentBps("fee")).to.equal(10000);
+    });
+
+    it("rejects what BPS cannot hold", () => {
+      expect(() => entry({ fee: "0.005%" }).percentBps("fee")).to.throw("more precision");
+      expect(() => entry({ fee: -1 }).percentBps("fee")).to.throw("out of range");
+      expect(() => entry({ fee: 101 }).percentBps("fee", 10000)).to.throw("out of range");
+    });
+
+    it("rejects numbers that are not written exactly", () => {
+      expect(() => entry({ fee: 1e-7 }).percentBps("fee")).to.throw("quote it as a string");
+      expect(() => entry({ fee: "1K" }).percentBps("fee")).to.throw("expected a number");
+    });
+  });
+
+  describe("percentE18", () => {
+    it("gives 1e18 for 100%", () => {
+      expect(entry({ weight: "100%" }).percentE18("weight").toString()).to.equal(
+        ethers.constants.WeiPerEther.toString()
+      );
+      expect(entry({ weight: 0.5 }).percentE18("weight").toString()).to.equal("5000000000000000");
+    });
+  });
+
+  describe("leverageImfBps", () => {
+    it("reads the leverage as the initial margin fraction", () => {
+      expect(entry({ leverage: "1000x" }).leverageImfBps("leverage")).to.equal(10);
+      expect(entry({ leverage: 50 }).leverageImfBps("leverage")).to.equal(200);
+    });
+
+    it("rejects leverages without a whole BPS fraction", () => {
+      expect(() => entry({ leverage: 3 }).leverageImfBps("leverage")).to.throw("whole BPS");
+      expect(() => entry({ leverage: 0.5 }).leverageImfBps("leverage")).to.throw("at least 1");
+    });
+  });
+
+  describe("usdE30 and units", () => {
+    it("reads separators and suffixes", () => {
+      const e30 = ethers.BigNumber.from(10).pow(30);
+      expect(entry({ size: "3,000,000" }).usdE30("size").toString()).to.equal(e30.mul(3000000).toString());
+      expect(entry({ size: "3M" }).usdE30("size").toString()).to.equal(e30.mul(3000000).toString());
+      expect(entry({ size: "1.5K" }).usdE30("size").toString()).to.equal(e30.mul(1500).toString());
+      expect(entry({ amount: "2_500" }).units("amount", 6).toString()).to.equal("2500000000");
+    });
+
+    it("rejects more decimals than the token has", () => {
+      expect(() => entry({ amount: "0.0000001" }).units("amount", 6)).to.throw("more precision");
+      expect(() => entry({ amount: -1 }).units("amount", 6)).to.throw("must not be negative");
+    });
+  });
+
+  describe("address and assetId", () => {
+    it("checksums addresses and encodes asset ids", () => {
+      const address = "0x4e59b44847b379578588920ca78fbf26c0b4956c";
+      expect(entry({ to: address }).address("to")).to.equal(ethers.utils.getAddress(address));
+      expect(entry({ asset: "ETH" }).assetId("asset")).to.equal(ethers.utils.formatBytes32String("ETH"));
+      expect(() => entry({ to: "0x1234" }).address("to")).to.throw("is not an address");
+    });
+  });
+
+  describe("readInputEntry", () => {
+    it("reads YAML and JSON alike and tells where a value is wrong", () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "input-file-"));
+      try {
+        fs.writeFileSync(path.join(dir, "markets.yaml"), "markets:\n  - fee: 0.1%\n  - fee: 0.005%\n");
+        fs.writeFileSync(path.join(dir, "markets.json"), JSON.stringify({ markets: [{ fee: "0.1%" }] }));
+
+        const [first, second] = readInputEntry(path.join(dir, "markets.yaml")).entries("markets");
+        expect(first.percentBps("fee")).to.equal(10);
+        expect(() => second.percentBps("fee")).to.throw("markets.yaml.markets[1].fee");
+        expect(readInputEntry(path.join(dir, "markets.json")).entries("markets")[0].percentBps("fee")).to.equal(10);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import marketRegistry from "../../entities/market-registry";
+import { loadConfig } from "../../utils/config";
+import { checkRegistry, getGeneratedRegistryFiles, isGeneratedFileUpToDate } from "../../utils/market-registry";
+
+describe("utils/market-registry", () => {
+  it("generates the checked in files", () => {
+    for (const file of getGeneratedRegistryFiles()) expect(isGeneratedFileUpToDate(file), file.path).to.equal(true);
+  });
+
+  it("finds nothing wrong with the registry", () => {
+    expect(checkRegistry(loadConfig(marketRegistry.chainId))).to.deep.equal([]);
+  });
+
+  it("reports markets out of order and unknown assets", () => {
+    const markets = marketRegistry.markets;
+    marketRegistry.markets = [{ ...markets[1], asset: "UNKNOWN" }, ...markets.slice(1)];
+    try {
+      const problems = checkRegistry(loadConfig(marketRegistry.chainId));
+      expect(problems).to.include(`market ${markets[1].name} has index 1, expected 0`);
+      expect(problems).to.include(`market ${markets[1].name} references unknown asset UNKNOWN`);
+    } finally {
+      marketRegistry.markets = markets;
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import { afterEach, describe, it } from "mocha";
+import { getMissingSignerRequirements, getSignerSpec, parseSignerSpec } from "../../utils/signer-config";
+
+describe("utils/signer-config", () => {
+  afterEach(() => {
+    delete process.env.SIGNER_PRICE_FEEDER;
+  });
+
+  it("parses every backend", () => {
+    expect(parseSignerSpec("keystore:./key.json")).to.deep.equal({
+      backend: "keystore",
+      path: "./key.json",
+      passwordEnvKey: "KEYSTORE_PASSWORD",
+    });
+    expect(parseSignerSpec("remote:0x01@http://127.0.0.1:9000")).to.deep.equal({
+      backend: "remote",
+      address: "0x01",
+      url: "http://127.0.0.1:9000",
+    });
+    expect(() => parseSignerSpec("ledger:0")).to.throw('Unknown signer backend "ledger"');
+  });
+
+  it("reads the spec of a role from its env var", () => {
+    process.env.SIGNER_PRICE_FEEDER = "impersonate:0x6409ba830719cd0fE27ccB3051DF1b399C90df4a";
+    expect(getSignerSpec("priceFeeder")).to.deep.equal({
+      backend: "impersonate",
+      address: "0x6409ba830719cd0fE27ccB3051DF1b399C90df4a",
+    });
+  });
+
+  it("does not fall back to the deployer for other roles", () => {
+    expect(() => getSignerSpec("priceFeeder")).to.throw("No signer for priceFeeder, set SIGNER_PRICE_FEEDER");
+    expect(getMissingSignerRequirements("priceFeeder")[0]).to.include("SIGNER_PRICE_FEEDER");
+  });
+});
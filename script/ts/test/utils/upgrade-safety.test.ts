@@ -0,0 +1,46 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { ethers } from "ethers";
+import { ethers as hardhatEthers } from "hardhat";
+import { diffImplementations, extractSelectors, stripMetadata } from "../../utils/upgrade-safety";
+
+// PUSH4 <selector> EQ, then PUSH4 <selector> DUP2 EQ
+const DISPATCHER = "0x63123456781463aabbccdd8114";
+// A PUSH32 whose data looks like a dispatcher entry
+const PUSH32 = `0x7f63deadbeef14${"00".repeat(26)}`;
+// Metadata looking like a dispatcher entry, with its length in the last two bytes
+const METADATA = "0x63cafebabe140006";
+const OWNER = "0x638da5cb5b14";
+
+describe("utils/upgrade-safety", () => {
+  it("strips the compiler metadata", () => {
+    expect(
+      ethers.utils.hexlify(stripMetadata(ethers.utils.arrayify(ethers.utils.hexConcat([DISPATCHER, METADATA]))))
+    ).to.equal(DISPATCHER);
+    expect(ethers.utils.hexlify(stripMetadata(ethers.utils.arrayify("0x0006")))).to.equal("0x0006");
+  });
+
+  it("reads the selectors of the dispatcher only", () => {
+    expect(extractSelectors(ethers.utils.hexConcat([DISPATCHER, PUSH32, METADATA]))).to.deep.equal([
+      "0x12345678",
+      "0xaabbccdd",
+    ]);
+  });
+
+  it("diffs the functions of two implementations", async () => {
+    const provider = hardhatEthers.provider;
+    const oldImplementation = ethers.Wallet.createRandom().address;
+    const newImplementation = ethers.Wallet.createRandom().address;
+    await provider.send("hardhat_setCode", [oldImplementation, ethers.utils.hexConcat([DISPATCHER, METADATA])]);
+    await provider.send("hardhat_setCode", [
+      newImplementation,
+      ethers.utils.hexConcat(["0x631234567814", OWNER, METADATA]),
+    ]);
+
+    const diff = await diffImplementations(provider, oldImplementation, newImplementation);
+    expect(diff.sameCode).to.equal(false);
+    expect(diff.addedFunctions).to.deep.equal(["0x8da5cb5b owner()"]);
+    expect(diff.removedFunctions).to.deep.equal(["0xaabbccdd"]);
+    expect((await diffImplementations(provider, oldImplementation, oldImplementation)).sameCode).to.equal(true);
+  });
+});
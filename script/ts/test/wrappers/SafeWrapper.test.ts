@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { after, before, describe, it } from "mocha";
+import { ethers } from "ethers";
+import {
+  buildSafeOfflineFile,
+  buildSafeOfflineTransaction,
+  getSafeOfflineFilePath,
+  getSafeTxHash,
+  signSafeTxHash,
+  writeSafeOfflineFile,
+} from "../../utils/safe-offline";
+import SafeWrapper from "../../wrappers/SafeWrapper";
+
+const CHAIN_ID = 42161;
+const PENDING_NONCE = 7;
+
+describe("wrappers/SafeWrapper", () => {
+  const safeAddress = ethers.Wallet.createRandom().address;
+  // Nothing listens there, the Safe nonce comes from the files alone
+  const signer = ethers.Wallet.createRandom().connect(
+    new ethers.providers.StaticJsonRpcProvider("http://127.0.0.1:1", CHAIN_ID)
+  );
+  let dir: string;
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "safe-offline-"));
+    process.env.SAFE_OFFLINE_DIR = dir;
+    const calls = [{ to: safeAddress, value: "0", data: "0x" }];
+    const tx = buildSafeOfflineTransaction(CHAIN_ID, calls, PENDING_NONCE);
+    const signature = await signSafeTxHash(signer, getSafeTxHash(CHAIN_ID, safeAddress, tx));
+    const file = buildSafeOfflineFile(CHAIN_ID, safeAddress, calls, tx, signature);
+    writeSafeOfflineFile(getSafeOfflineFilePath(dir, file), file);
+  });
+
+  after(() => {
+    delete process.env.SAFE_OFFLINE_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("reserveNonces", () => {
+    it("hands out consecutive nonces after the pending ones", async () => {
+      const safeWrapper = new SafeWrapper(CHAIN_ID, safeAddress, signer);
+      expect(await safeWrapper.reserveNonces(2)).to.deep.equal([PENDING_NONCE + 1, PENDING_NONCE + 2]);
+      expect(await safeWrapper.reserveNonces(1)).to.deep.equal([PENDING_NONCE + 3]);
+    });
+
+    it("refuses a nonce with pending transactions unless replacing them", async () => {
+      const safeWrapper = new SafeWrapper(CHAIN_ID, safeAddress, signer);
+      const error = await safeWrapper.reserveNonces(2, { nonce: PENDING_NONCE - 1 }).catch((e) => e);
+      expect(error).to.be.instanceOf(Error);
+      expect((error as Error).message).to.include(`Nonce ${PENDING_NONCE} of ${safeAddress} already has pending`);
+      expect(await safeWrapper.reserveNonces(1, { nonce: PENDING_NONCE, replace: true })).to.deep.equal([
+        PENDING_NONCE,
+      ]);
+    });
+
+    it("needs the nonce to replace", async () => {
+      const safeWrapper = new SafeWrapper(CHAIN_ID, safeAddress, signer);
+      const error = await safeWrapper.reserveNonces(1, { replace: true }).catch((e) => e);
+      expect((error as Error).message).to.include("Replacing needs the nonce to replace");
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// Upgrades the proxy of a contract to a newly prepared implementation, or to a given one to roll back
+import { Command } from "commander";
+import { ValidationOptions } from "@openzeppelin/upgrades-core";
+import { ethers, upgrades } from "hardhat";
+import signers from "../entities/signers";
+import { findAddressBookKeys } from "../utils/abi-decoder";
+import { isDryRun } from "../utils/cli-context";
+import { loadConfig } from "../utils/config";
+import { recordImplementationChange, settleImplementationChanges } from "../utils/deployment-history";
+import { getNetworkByChainId } from "../utils/network";
+import { requireCapabilities } from "../utils/requirements";
+import { verifyContract } from "../utils/verification";
+import ProxyAdminWrapper from "../wrappers/ProxyAdminWrapper";
+
+type Options = {
+  chainId: number;
+  key?: string;
+  implementation?: string;
+  call?: string;
+  args: string;
+  eta?: number;
+  unsafeSkipStorageCheck: boolean;
+  unsafeAllow: ValidationOptions["unsafeAllow"];
+  verify: boolean;
+};
+
+function _resolveKey(chainId: number, contractName: string, key?: string): string {
+  if (key) return key;
+  const keys = findAddressBookKeys(chainId, contractName);
+  if (keys.length === 1) return keys[0];
+  throw new Error(
+    keys.length === 0
+      ? `[upgrades] No address book entry is named after ${contractName}, pass --key`
+      : `[upgrades] ${contractName} matches ${keys.join(", ")}, pass --key`
+  );
+}
+
+async function main(contractName: string, options: Options) {
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  if (chainId !== options.chainId)
+    throw new Error(
+      `[upgrades] Hardhat network is on chain ${chainId}, run with HARDHAT_NETWORK of ${options.chainId}`
+    );
+  requireCapabilities(chainId, ["rpc", "signer"]);
+  const config = loadConfig(chainId);
+  const deployer = signers.deployer(chainId);
+  const proxyAdminWrapper = new ProxyAdminWrapper(chainId, deployer);
+
+  const key = _resolveKey(chainId, contractName, options.key);
+  const proxy: string = key.split(".").reduce((node: any, k) => node[k], config);
+  const previous: string = await proxyAdminWrapper.proxyAdmin.getProxyImplementation(proxy);
+  console.log(`[upgrades] ${contractName} at ${key} (${proxy}), currently ${previous}`);
+  settleImplementationChanges(getNetworkByChainId(chainId), key, previous);
+
+  const factory = await ethers.getContractFactory(contractName, deployer);
+  let implementation = options.implementation;
+  if (!implementation && isDryRun()) {
+    // Preparing deploys the implementation and records it in the OpenZeppelin manifest, only validate instead
+    console.log(`[upgrades] Validating ${contractName} against ${proxy}...`);
+    await upgrades.validateUpgrade(proxy, factory, { unsafeAllow: options.unsafeAllow });
+    console.log("[upgrades] Upgrade safe, pass --implementation to also simulate the upgrade itself");
+    return;
+  }
+  if (!implementation) {
+    console.log(`[upgrades] Preparing ${contractName} implementation...`);
+    implementation = (await upgrades.prepareUpgrade(proxy, factory, { unsafeAllow: options.unsafeAllow })).toString();
+    console.log(`[upgrades] Implementation: ${implementation}`);
+  }
+
+  const data = options.call ? factory.interface.encodeFunctionData(options.call, JSON.parse(options.args)) : undefined;
+  const upgradeOptions = { eta: options.eta, unsafeSkipStorageCheck: options.unsafeSkipStorageCheck };
+  const route = data
+    ? await proxyAdminWrapper.upgradeAndCall(proxy, implementation, data, upgradeOptions)
+    : await proxyAdminWrapper.upgrade(proxy, implementation, upgradeOptions);
+  if (isDryRun()) return;
+
+  const entry = recordImplementationChange(getNetworkByChainId(chainId), key, proxy, {
+    implementation,
+    deployer: await deployer.getAddress(),
+    contract: contractName,
+    // Settled once a later upgrade finds the proxy on it
+    status: route === "signer" ? undefined : "pending",
+    note: `upgrade from ${previous}${
+      route === "signer" ? "" : ` (pending in the ${route === "safe" ? "Safe" : "Timelock"})`
+    }`,
+  });
+  console.log(`[upgrades] Recorded in the deployment history of snapshot #${entry.snapshotId}`);
+
+  console.log("[upgrades] Rollback plan:");
+  if (route === "timelock")
+    console.log(
+      "[upgrades]   before the eta, cancel the queued upgrade: hmx Timelock cancel --tx-hash <see Timelock list-queue>"
+    );
+  if (route === "safe")
+    console.log("[upgrades]   before execution, reject the proposal: hmx Safe reject-nonce --nonce <nonce>");
+  console.log(
+    `[upgrades]   once upgraded, go back to the previous implementation: hmx upgrades upgrade ${contractName} --chain ${chainId} --key ${key} --implementation ${previous}`
+  );
+
+  if (options.verify && !options.implementation) {
+    await verifyContract({ address: implementation, name: contractName });
+  }
+}
+
+const program = new Command();
+
+program.argument("<contract>", "contract name, e.g. ConfigStorage");
+program.requiredOption("--chain-id <chainId>", "chain id", parseInt);
+program.option("--key <key>", "address book key of the proxy, e.g. storages.config, when the name does not tell");
+program.option("--implementation <address>", "upgrade to this implementation instead of preparing one");
+program.option("--call <function>", "function to call on the proxy right after the upgrade");
+program.option("--args <json>", "JSON array of arguments of --call", "[]");
+program.option("--eta <timestamp>", "Timelock eta, defaults to the earliest one", parseInt);
+program.option("--unsafe-skip-storage-check", "upgrade even if the storage layout check fails", false);
+program.option(
+  "--unsafe-allow <kinds>",
+  "comma-separated upgrade safety checks to let through, e.g. delegatecall for LimitTradeHandler",
+  (value: string) => value.split(",").map((kind) => kind.trim()),
+  []
+);
+program.option("--no-verify", "skip verification, see VERIFY_PROVIDERS");
+
+program.parse(process.argv);
+const opts = program.opts();
+
+main(program.args[0], {
+  chainId: opts.chainId,
+  key: opts.key,
+  implementation: opts.implementation,
+  call: opts.call,
+  args: opts.args,
+  eta: opts.eta,
+  unsafeSkipStorageCheck: opts.unsafeSkipStorageCheck,
+  unsafeAllow: opts.unsafeAllow,
+  verify: opts.verify,
+})
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
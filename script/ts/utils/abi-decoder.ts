@@ -0,0 +1,191 @@
+import { ethers } from "ethers";
+import { abi as TimelockAbi } from "../../../abis/Timelock.json";
+import { abi as ProxyAdminAbi } from "../../../abis/ProxyAdmin.json";
+import { loadConfig } from "./config";
+
+export type ContractAbi = {
+  name: string;
+  iface: ethers.utils.Interface;
+};
+
+export type DecodedCall = {
+  contractName: string;
+  iface: ethers.utils.Interface;
+  fragment: ethers.utils.FunctionFragment;
+  args: ethers.utils.Result;
+};
+
+let contractAbis: Array<ContractAbi> | undefined;
+
+// Required rather than imported, so that the decoder also works before typechain is compiled
+function _loadTypechain(): { [name: string]: any } {
+  try {
+    return require("../../../typechain");
+  } catch (e) {
+    if ((e as any).code !== "MODULE_NOT_FOUND") throw e;
+    console.warn("[utils/abi-decoder] typechain is not compiled, decoding with the ABIs under abis/ only");
+    return {};
+  }
+}
+
+/**
+ * ABIs of every typechain factory plus the ones checked in under abis/.
+ * Built on first use, there are a few hundred of them.
+ */
+export function getContractAbis(): Array<ContractAbi> {
+  if (!contractAbis) {
+    contractAbis = Object.entries(_loadTypechain())
+      .filter(([name, factory]) => name.endsWith("__factory") && factory && factory.abi)
+      .map(([name, factory]) => ({
+        name: name.substring(0, name.length - "__factory".length),
+        iface: new ethers.utils.Interface(factory.abi),
+      }));
+    contractAbis.push(
+      { name: "Timelock", iface: new ethers.utils.Interface(TimelockAbi) },
+      { name: "ProxyAdmin", iface: new ethers.utils.Interface(ProxyAdminAbi) }
+    );
+  }
+  return contractAbis;
+}
+
+/**
+ * Finds the address book key of an address, e.g. `storages.config`.
+ */
+export function getAddressBookKey(chainId: number, address: string): string | undefined {
+  const search = (node: any, prefix: string): string | undefined => {
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (typeof value === "string" && value.toLowerCase() === address.toLowerCase()) return path;
+      if (value && typeof value === "object") {
+        const found = search(value, path);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+  return search(loadConfig(chainId), "");
+}
+
+/**
+ * Address book keys named after a contract, e.g. `storages.config` for ConfigStorage,
+ * `oracles.middleware` for OracleMiddleware or `calculator` for Calculator.
+ */
+export function findAddressBookKeys(chainId: number, contractName: string): Array<string> {
+  const keys: Array<string> = [];
+  const lowerName = contractName.toLowerCase();
+  const search = (node: any, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (value && typeof value === "object") {
+        search(value, path);
+        continue;
+      }
+      if (typeof value !== "string" || !ethers.utils.isAddress(value)) continue;
+      const segments = path.toLowerCase().split(".");
+      const last = segments[segments.length - 1];
+      const first = segments[0].replace(/s$/, "");
+      if ([last, `${last}${first}`, `${first}${last}`].includes(lowerName)) keys.push(path);
+    }
+  };
+  search(loadConfig(chainId), "");
+  return keys;
+}
+
+// Ranks ABIs by how well their name matches an address book key such as `handlers.crossMargin`
+function _matchScore(name: string, addressBookKey?: string): number {
+  let score = /^I[A-Z]/.test(name) || /Mock/.test(name) ? -1 : 0;
+  if (!addressBookKey) return score;
+  const segments = addressBookKey.toLowerCase().split(".");
+  const last = segments[segments.length - 1];
+  const first = segments[0].replace(/s$/, "");
+  const lowerName = name.toLowerCase();
+  if (lowerName === `${last}${first}`) score += 3;
+  else if (lowerName === last) score += 2;
+  else if (lowerName.includes(last)) score += 1;
+  return score;
+}
+
+/**
+ * The ABI of the contract at `addressBookKey` that has `functionName`, which may be a full
+ * signature to pick an overload, e.g. ConfigStorage for `storages.config` and `setMarketConfig`.
+ */
+export function findContractAbi(functionName: string, addressBookKey?: string): ContractAbi | undefined {
+  return getContractAbis()
+    .filter((abi) =>
+      Object.values(abi.iface.functions).some((f) => f.name === functionName || f.format() === functionName)
+    )
+    .sort((a, b) => _matchScore(b.name, addressBookKey) - _matchScore(a.name, addressBookKey))[0];
+}
+
+/**
+ * Decodes calldata against the known ABIs. When several contracts share the selector the one
+ * matching `addressBookKey` wins, so that getters are looked up on the right contract.
+ */
+export function decodeCalldata(data: string, addressBookKey?: string): DecodedCall | undefined {
+  if (!data || data.length < 10) return undefined;
+  const selector = data.substring(0, 10).toLowerCase();
+
+  const candidates = getContractAbis()
+    .map((abi) => {
+      const fragment = Object.values(abi.iface.functions).find((f) => abi.iface.getSighash(f) === selector);
+      return fragment ? { abi, fragment } : undefined;
+    })
+    .filter((candidate): candidate is { abi: ContractAbi; fragment: ethers.utils.FunctionFragment } => !!candidate)
+    .sort((a, b) => _matchScore(b.abi.name, addressBookKey) - _matchScore(a.abi.name, addressBookKey));
+
+  for (const { abi, fragment } of candidates) {
+    try {
+      return { contractName: abi.name, iface: abi.iface, fragment, args: abi.iface.decodeFunctionData(fragment, data) };
+    } catch (e) {
+      // Same selector, different argument encoding
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turns revert data into a readable reason, using the custom errors of the known ABIs.
+ */
+export function decodeRevertData(data: string): string {
+  if (!data || data === "0x") return "reverted without reason";
+  const selector = data.substring(0, 10).toLowerCase();
+  if (selector === "0x08c379a0")
+    return ethers.utils.defaultAbiCoder.decode(["string"], ethers.utils.hexDataSlice(data, 4))[0];
+  if (selector === "0x4e487b71")
+    return `panic ${ethers.utils.defaultAbiCoder
+      .decode(["uint256"], ethers.utils.hexDataSlice(data, 4))[0]
+      .toHexString()}`;
+
+  for (const abi of getContractAbis()) {
+    const error = Object.values(abi.iface.errors).find((e) => abi.iface.getSighash(e) === selector);
+    if (!error) continue;
+    const args = abi.iface.decodeErrorResult(error, data);
+    return `${error.name}(${error.inputs.map((input, i) => formatAbiValue(args[i], input)).join(", ")})`;
+  }
+  return `unknown error ${data}`;
+}
+
+export function formatAbiValue(value: any, param: ethers.utils.ParamType): string {
+  if (param.baseType === "tuple") {
+    return `{ ${param.components.map((c, i) => `${c.name || i}: ${formatAbiValue(value[i], c)}`).join(", ")} }`;
+  }
+  if (param.baseType === "array") {
+    return `[${(value as Array<any>).map((v) => formatAbiValue(v, param.arrayChildren)).join(", ")}]`;
+  }
+  if (ethers.BigNumber.isBigNumber(value)) return value.toString();
+  if (param.type === "bytes32") {
+    try {
+      // Asset ids are bytes32 encoded symbols
+      const text = ethers.utils.parseBytes32String(value);
+      if (/^[\x20-\x7e]+$/.test(text)) return `${value} (${text})`;
+    } catch (e) {
+      // Not a string
+    }
+  }
+  return String(value);
+}
+
+export function formatDecodedCall(call: DecodedCall): string {
+  const args = call.fragment.inputs.map((input, i) => `  ${input.name || i}: ${formatAbiValue(call.args[i], input)}`);
+  return `${call.contractName}.${call.fragment.name}(${args.length > 0 ? `\n${args.join(",\n")}\n` : ""})`;
+}
@@ -3,3 +3,18 @@ import { ethers } from "ethers";
 export function getSubAccount(primaryAccount: string, subAccountId: number): string {
   return ethers.utils.hexZeroPad(ethers.BigNumber.from(primaryAccount).xor(subAccountId).toHexString(), 20);
 }
+
+/**
+ * Unlocks `address` on a hardhat or anvil fork so that it can send unsigned transactions. Nodes
+ * without these methods, like Tenderly forks, accept them anyway.
+ */
+export async function impersonateAccount(provider: ethers.providers.JsonRpcProvider, address: string) {
+  for (const method of ["anvil_impersonateAccount", "hardhat_impersonateAccount"]) {
+    try {
+      await provider.send(method, [address]);
+      return;
+    } catch (e) {
+      // Not supported by this node
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { ethers } from "ethers";
+import { ContractAbi, findContractAbi, formatAbiValue, formatDecodedCall, getContractAbis } from "./abi-decoder";
+import { getAddressBookEntry, loadConfig } from "./config";
+import { InputEntry, readInputEntry } from "./input-file";
+import {
+  findAffectedGetters,
+  getSimulationProvider,
+  GetterRead,
+  isForkSimulation,
+  readGetters,
+  simulateTransaction,
+} from "./simulation";
+
+export type ChangeSetOperation = {
+  contractKey: string;
+  to: string;
+  contractName: string;
+  iface: ethers.utils.Interface;
+  fragment: ethers.utils.FunctionFragment;
+  args: Array<any>;
+  data: string;
+  // Views to diff, the ones the operation names plus the ones the call most likely changes
+  getters: Array<GetterRead>;
+};
+
+export type ChangeSet = {
+  title: string;
+  description: string;
+  operations: Array<ChangeSetOperation>;
+};
+
+export type ChangeSetGetterDiff = {
+  contractKey: string;
+  getter: string;
+  before: string;
+  after: string;
+};
+
+export type ChangeSetSimulation = {
+  success: boolean;
+  failures: Array<{ operation: number; revertReason: string }>;
+  diffs: Array<ChangeSetGetterDiff>;
+};
+
+/**
+ * Converts an argument as written in the change set to what ethers encodes: addresses may be
+ * address book keys, bytes32 may be plain strings such as asset ids, structs are objects keyed
+ * by field name.
+ */
+function _normalizeArg(config: any, where: string, param: ethers.utils.ParamType, value: any): any {
+  if (value === undefined || value === null) throw new Error(`[utils/change-set] ${where}: missing`);
+  if (param.baseType === "array") {
+    if (!Array.isArray(value)) throw new Error(`[utils/change-set] ${where}: expected a list`);
+    return value.map((each, i) => _normalizeArg(config, `${where}[${i}]`, param.arrayChildren, each));
+  }
+  if (param.baseType === "tuple") return _normalizeArgs(config, where, param.components, value);
+  if (param.type === "address" && typeof value === "string" && !ethers.utils.isAddress(value)) {
+    const address = getAddressBookEntry(config, value);
+    if (!address)
+      throw new Error(`[utils/change-set] ${where}: ${value} is neither an address nor an address book key`);
+    return address;
+  }
+  if (param.type === "bytes32" && typeof value === "string" && !ethers.utils.isHexString(value, 32))
+    return ethers.utils.formatBytes32String(value);
+  return value;
+}
+
+// Takes a list in parameter order, or an object keyed by parameter name with or without its leading underscore
+function _normalizeArgs(config: any, where: string, params: Array<ethers.utils.ParamType>, values: any): Array<any> {
+  if (Array.isArray(values)) {
+    if (values.length !== params.length)
+      throw new Error(`[utils/change-set] ${where}: expected ${params.length} arguments, got ${values.length}`);
+    return params.map((param, i) => _normalizeArg(config, `${where}[${i}]`, param, values[i]));
+  }
+  if (typeof values !== "object" || values === null)
+    throw new Error(`[utils/change-set] ${where}: expected a list or an object of arguments`);
+  const names = params.map((param) => param.name.replace(/^_/, ""));
+  const unknown = Object.keys(values).filter((key) => !names.includes(key.replace(/^_/, "")));
+  if (unknown.length > 0)
+    throw new Error(`[utils/change-set] ${where}: unknown ${unknown.join(", ")}, expected ${names.join(", ")}`);
+  return params.map((param, i) => {
+    const key = Object.keys(values).find((k) => k.replace(/^_/, "") === names[i]);
+    return _normalizeArg(config, `${where}.${names[i]}`, param, key === undefined ? undefined : values[key]);
+  });
+}
+
+// e.g. `getMarketConfigByIndex(26)` or `positionSizeLimitOf(26)`, arguments are JSON
+function _parseGetter(config: any, where: string, iface: ethers.utils.Interface, spec: string): GetterRead {
+  const match = spec.match(/^(\w+)\((.*)\)$/);
+  if (!match) throw new Error(`[utils/change-set] ${where}: expected a call such as name(arg, ...), got "${spec}"`);
+  let fragment: ethers.utils.FunctionFragment;
+  let args: Array<any>;
+  try {
+    fragment = iface.getFunction(match[1]);
+    args = JSON.parse(`[${match[2]}]`);
+  } catch (e) {
+    throw new Error(`[utils/change-set] ${where}: cannot read "${spec}": ${(e as Error).message}`);
+  }
+  return { fragment, args: _normalizeArgs(config, where, fragment.inputs, args) };
+}
+
+function _readOperation(config: any, entry: InputEntry): ChangeSetOperation {
+  const contractKey = entry.string("contract");
+  const to = getAddressBookEntry(config, contractKey);
+  if (!to) throw new Error(`[utils/change-set] ${entry.where}.contract: ${contractKey} is not in the address book`);
+  const call = entry.string("call");
+  let abi: ContractAbi | undefined;
+  if (entry.has("abi")) {
+    const name = entry.string("abi");
+    abi = getContractAbis().find((each) => each.name === name);
+    if (!abi) throw new Error(`[utils/change-set] ${entry.where}.abi: no ABI named ${name}`);
+  } else {
+    abi = findContractAbi(call, contractKey);
+    if (!abi) throw new Error(`[utils/change-set] ${entry.where}.call: no known contract has ${call}`);
+  }
+  const fragment = Object.values(abi.iface.functions).find((f) => f.name === call || f.format() === call);
+  if (!fragment) throw new Error(`[utils/change-set] ${entry.where}.call: ${abi.name} has no ${call}`);
+  if (Object.values(abi.iface.functions).filter((f) => f.name === call).length > 1)
+    throw new Error(`[utils/change-set] ${entry.where}.call: ${abi.name}.${call} is overloaded, give its signature`);
+
+  const args = _normalizeArgs(config, `${entry.where}.args`, fragment.inputs, entry.has("args") ? entry.raw.args : []);
+  const data = abi.iface.encodeFunctionData(fragment, args);
+  const named = entry.has("getters") ? entry.raw.getters : [];
+  if (!Array.isArray(named)) throw new Error(`[utils/change-set] ${entry.where}.getters: expected a list`);
+  const getters = named.map((spec: any, i: number) =>
+    _parseGetter(config, `${entry.where}.getters[${i}]`, abi!.iface, String(spec))
+  );
+  const decoded = {
+    contractName: abi.name,
+    iface: abi.iface,
+    fragment,
+    args: abi.iface.decodeFunctionData(fragment, data),
+  };
+  for (const getter of findAffectedGetters(decoded))
+    if (!getters.some((g) => g.fragment.format() === getter.fragment.format())) getters.push(getter);
+
+  return { contractKey, to, contractName: abi.name, iface: abi.iface, fragment, args, data, getters };
+}
+
+/**
+ * Reads a change set: a title, a description for reviewers and the operations, each a call
+ * of a function of an address book contract.
+ */
+export function readChangeSet(chainId: number, filePath: string): ChangeSet {
+  const config = loadConfig(chainId);
+  const input = readInputEntry(filePath);
+  return {
+    title: input.string("title"),
+    description: input.has("description") ? input.string("description") : "",
+    operations: input.entries("operations").map((entry) => _readOperation(config, entry)),
+  };
+}
+
+export function describeOperation(operation: ChangeSetOperation): string {
+  return formatDecodedCall({
+    contractName: operation.contractName,
+    iface: operation.iface,
+    fragment: operation.fragment,
+    args: operation.iface.decodeFunctionData(operation.fragment, operation.data),
+  });
+}
+
+function _getterLabel(getter: GetterRead): string {
+  return `${getter.fragment.name}(${getter.args
+    .map((arg, i) => formatAbiValue(arg, getter.fragment.inputs[i]))
+    .join(", ")})`;
+}
+
+async function _readAll(
+  provider: ethers.providers.JsonRpcProvider,
+  operations: Array<ChangeSetOperation>
+): Promise<Array<Array<string>>> {
+  const values: Array<Array<string>> = [];
+  for (const operation of operations)
+    values.push(await readGetters(provider, operation.to, operation.iface, operation.getters));
+  return values;
+}
+
+/**
+ * Runs every operation in order on the `DRY_RUN_FORK_RPC` fork, each from the owner of its
+ * target, and diffs the getters between before the first and after the last one.
+ */
+export async function simulateChangeSet(
+  chainId: number,
+  changeSet: ChangeSet,
+  owners: Array<string>
+): Promise<ChangeSetSimulation> {
+  if (!isForkSimulation())
+    throw new Error(
+      "[utils/change-set] Set DRY_RUN_FORK_RPC to a fork (anvil --fork-url ...) to simulate a change set"
+    );
+  const provider = getSimulationProvider(chainId);
+  const before = await _readAll(provider, changeSet.operations);
+
+  const failures: Array<{ operation: number; revertReason: string }> = [];
+  for (let i = 0; i < changeSet.operations.length; i++) {
+    const operation = changeSet.operations[i];
+    const { success, revertReason } = await simulateTransaction(chainId, {
+      from: owners[i],
+      to: operation.to,
+      data: operation.data,
+      label: `operation ${i + 1}/${changeSet.operations.length} ${operation.contractKey}.${operation.fragment.name}`,
+    });
+    if (!success) failures.push({ operation: i + 1, revertReason: revertReason || "reverted" });
+  }
+
+  const after = await _readAll(provider, changeSet.operations);
+  const diffs: Array<ChangeSetGetterDiff> = [];
+  changeSet.operations.forEach((operation, i) =>
+    operation.getters.forEach((getter, j) => {
+      const row = {
+        contractKey: operation.contractKey,
+        getter: _getterLabel(getter),
+        before: before[i][j],
+        after: after[i][j],
+      };
+      // Operations on the same contract may share getters
+      if (!diffs.some((other) => other.contractKey === row.contractKey && other.getter === row.getter)) diffs.push(row);
+    })
+  );
+  return { success: failures.length === 0, failures, diffs };
+}
+
+/**
+ * Markdown for reviewers, to attach to the Safe proposal or the Timelock queue.
+ */
+export function renderChangeSetReport(
+  changeSet: ChangeSet,
+  routes: Array<string>,
+  simulation?: ChangeSetSimulation
+): string {
+  const lines = [`# ${changeSet.title}`, ""];
+  if (changeSet.description) lines.push(changeSet.description, "");
+  lines.push("## Operations", "");
+  changeSet.operations.forEach((operation, i) => {
+    lines.push(`${i + 1}. \`${operation.contractKey}\` (${operation.to}), executed by the ${routes[i]}`, "");
+    lines.push("```", describeOperation(operation), "```", "");
+  });
+  lines.push("## State changes", "");
+  if (!simulation) {
+    lines.push("Not simulated.");
+    return lines.join("\n");
+  }
+  for (const failure of simulation.failures)
+    lines.push(`- ❌ Operation ${failure.operation} reverts: ${failure.revertReason}`);
+  if (simulation.failures.length > 0) lines.push("");
+  lines.push("| Contract | Getter | Before | After |", "| --- | --- | --- | --- |");
+  for (const diff of simulation.diffs) {
+    const changed = diff.before !== diff.after;
+    lines.push(
+      `| ${diff.contractKey} | ${diff.getter} | ${diff.before} | ${changed ? `**${diff.after}**` : "unchanged"} |`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,87 @@
+import * as readlineSync from "readline-sync";
+import { ethers } from "ethers";
+
+export type OutputFormat = "table" | "json";
+
+export type CliContext = {
+  dryRun: boolean;
+  yes: boolean;
+  output: OutputFormat;
+};
+
+// The `hmx` CLI passes its global options through env vars so that they also reach
+// modules run in-process and can be set when running a script directly.
+const ENV_DRY_RUN = "HMX_DRY_RUN";
+const ENV_YES = "HMX_YES";
+const ENV_OUTPUT = "HMX_OUTPUT";
+
+export function setCliContext(context: CliContext) {
+  process.env[ENV_DRY_RUN] = context.dryRun ? "1" : "";
+  process.env[ENV_YES] = context.yes ? "1" : "";
+  process.env[ENV_OUTPUT] = context.output;
+}
+
+export function getCliContext(): CliContext {
+  const output = process.env[ENV_OUTPUT] || "table";
+  if (output !== "table" && output !== "json")
+    throw new Error(`[utils/cli-context] Unknown output format "${output}", expected table or json`);
+  return {
+    dryRun: !!process.env[ENV_DRY_RUN],
+    yes: !!process.env[ENV_YES],
+    output,
+  };
+}
+
+let directSendsIntercepted = false;
+
+function _interceptDirectSends() {
+  if (directSendsIntercepted) return;
+  // Required lazily, it loads hardhat and the typechain ABIs
+  require("./simulation").interceptDirectSends();
+  directSendsIntercepted = true;
+}
+
+/**
+ * Whether transactions are simulated instead of sent. Also makes ethers signers simulate on first
+ * use, so that a script run directly with `HMX_DRY_RUN` set cannot broadcast past its own checks.
+ */
+export function isDryRun(): boolean {
+  const dryRun = getCliContext().dryRun;
+  if (dryRun) _interceptDirectSends();
+  return dryRun;
+}
+
+function _jsonReplacer(_key: string, value: any) {
+  if (value && value.type === "BigNumber" && value.hex) return ethers.BigNumber.from(value.hex).toString();
+  return value;
+}
+
+/**
+ * Makes the global options effective for scripts that were written before the CLI existed:
+ * `--yes` answers their y/n prompts, `--output json` turns their `console.table` into JSON
+ * and `--dry-run` simulates whatever an ethers signer would have broadcast. The patches hold for
+ * the whole process, which `hmx` only ever uses to run the one script.
+ */
+export function applyCliContext() {
+  const context = getCliContext();
+
+  if (context.yes) {
+    // Patch the module object itself, namespace imports only hold getters to it
+    const readlineSyncModule = require("readline-sync");
+    const question = readlineSyncModule.question;
+    readlineSyncModule.question = (query?: any, options?: readlineSync.BasicOptions) => {
+      if (typeof query === "string" && /\(y\/n\)/i.test(query)) {
+        console.log(`${query}y (--yes)`);
+        return "y";
+      }
+      return question(query, options);
+    };
+    readlineSyncModule.keyInYN = () => true;
+  }
+
+  if (context.output === "json") {
+    console.table = (data: any) => console.log(JSON.stringify(data, _jsonReplacer, 2));
+  }
+
+  if (context.dryRun) _interceptDirectSends();
+}
@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import * as path from "path";
+import { REPO_ROOT } from "./network";
+
+export type CliModuleKind = "commands" | "configs" | "queries" | "deploys" | "upgrades";
+
+export type CliModuleOption = {
+  flags: string;
+  description: string;
+  required: boolean;
+};
+
+export type CliModule = {
+  kind: CliModuleKind;
+  group: string;
+  name: string;
+  filePath: string;
+  // "hardhat" modules take no flags and read the network from HARDHAT_NETWORK
+  runner: "commander" | "hardhat";
+  // Flag the module expects the chain id on, undefined when it has none (e.g. hardcoded to 42161)
+  chainFlag?: string;
+  // Chain id hardcoded in the module, which acts on it whatever network hardhat is on
+  fixedChainId?: number;
+  options: Array<CliModuleOption>;
+  capabilities: Array<string>;
+  description: string;
+  effect?: string;
+};
+
+export const CLI_MODULE_KINDS: Array<CliModuleKind> = ["commands", "configs", "queries", "deploys", "upgrades"];
+
+const SCRIPT_ROOT = path.join(REPO_ROOT, "script/ts");
+const CHAIN_FLAGS = ["--chain-id", "--chainId"];
+
+function _matchAll(regex: RegExp, source: string): Array<RegExpExecArray> {
+  const matches: Array<RegExpExecArray> = [];
+  const global = new RegExp(regex.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(source)) !== null) matches.push(match);
+  return matches;
+}
+
+function _listTsFiles(dir: string): Array<string> {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return _listTsFiles(entryPath);
+      return entry.name.endsWith(".ts") ? [entryPath] : [];
+    })
+    .sort();
+}
+
+function _humanize(name: string): string {
+  const words = name.replace(/[-_]/g, " ");
+  return words.charAt(0).toUpperCase() + words.substring(1);
+}
+
+function _operationName(kind: CliModuleKind, baseName: string, isTopLevel: boolean): string {
+  if (isTopLevel) return baseName;
+  // deploys/OrderbookOracle/indext.ts is an index too
+  const isIndex = baseName === "index" || baseName === "indext";
+  if (kind === "deploys") return isIndex ? "deploy" : `deploy-${baseName}`;
+  if (kind === "upgrades") return isIndex ? "upgrade" : `upgrade-${baseName}`;
+  return baseName;
+}
+
+// A leading comment of the module wins over the description derived from its path
+function _leadingComment(source: string): string | undefined {
+  const match = source.match(/^\s*(?:\/\*\*?([\s\S]*?)\*\/|((?:\/\/.*\n)+))/);
+  if (!match) return undefined;
+  const text = (match[1] || match[2])
+    .split("\n")
+    .map((line) => line.replace(/^\s*(\/\/|\*)?\s?/, "").trim())
+    .filter(Boolean)
+    .join(" ");
+  return text || undefined;
+}
+
+// What running the module does to the chain, as far as can be told from its source
+function _effect(kind: CliModuleKind, source: string, isTopLevel: boolean): string | undefined {
+  if (kind === "queries") return "read-only";
+  if (kind === "deploys" && !isTopLevel) return "deploys contracts";
+  if (source.includes("TimelockWrapper") || source.includes("ProxyAdminWrapper")) return "goes through the Timelock";
+  if (source.includes("OwnerWrapper")) return "sends as the contract owner";
+  if (source.includes("SafeWrapper")) return "proposes a Safe transaction";
+  if (source.includes("signers.") || source.includes("getSigners()")) return "sends transactions";
+  return undefined;
+}
+
+function _describe(kind: CliModuleKind, group: string, name: string, source: string, isTopLevel: boolean): string {
+  const comment = _leadingComment(source);
+  if (comment) return comment;
+  if ((kind === "deploys" || kind === "upgrades") && !isTopLevel) {
+    const [verb, ...rest] = name.split("-");
+    return `${_humanize(verb)} ${group}${rest.length > 0 ? ` (${rest.join("-")})` : ""}`;
+  }
+  return _humanize(name);
+}
+
+function _parseModule(kind: CliModuleKind, filePath: string): CliModule {
+  const source = fs.readFileSync(filePath, "utf8");
+  const relative = path.relative(path.join(SCRIPT_ROOT, kind), filePath).split(path.sep);
+  // Files directly under a kind directory are grouped under the kind itself
+  const isTopLevel = relative.length === 1;
+  const group = isTopLevel ? kind : relative[0];
+  const name = _operationName(kind, path.basename(filePath, ".ts"), isTopLevel);
+
+  const options: Array<CliModuleOption> = [];
+  let chainFlag: string | undefined;
+  for (const match of _matchAll(/\.(requiredOption|option)\(\s*"([^"]+)"\s*,\s*"([^"]*)"/, source)) {
+    const flags = match[2];
+    const longFlag = flags.split(/[ ,]+/).find((flag) => flag.startsWith("--"));
+    if (longFlag && CHAIN_FLAGS.includes(longFlag)) {
+      chainFlag = longFlag;
+      continue;
+    }
+    options.push({ flags, description: match[3], required: match[1] === "requiredOption" });
+  }
+
+  const fixedChainMatch = source.match(/(?:requireCapabilities|loadConfig)\((\d+)\s*[,)]/);
+
+  const capabilitiesMatch = source.match(/requireCapabilities\([^,]+,\s*\[([^\]]*)\]/);
+  const capabilities = capabilitiesMatch
+    ? _matchAll(/["'`]([^"'`]+)["'`]/, capabilitiesMatch[1]).map((match) => match[1])
+    : [];
+
+  return {
+    kind,
+    group,
+    name,
+    filePath,
+    runner: source.includes(`from "commander"`) ? "commander" : "hardhat",
+    chainFlag,
+    fixedChainId: fixedChainMatch ? parseInt(fixedChainMatch[1]) : undefined,
+    options,
+    capabilities,
+    description: _describe(kind, group, name, source, isTopLevel),
+    effect: _effect(kind, source, isTopLevel),
+  };
+}
+
+/**
+ * Finds every runnable script under commands, configs, queries, deploys and upgrades.
+ * Operations that end up with the same name in a group are qualified with their kind.
+ */
+export function discoverCliModules(): Array<CliModule> {
+  const modules = CLI_MODULE_KINDS.flatMap((kind) =>
+    _listTsFiles(path.join(SCRIPT_ROOT, kind)).map((filePath) => _parseModule(kind, filePath))
+  );
+
+  const counts = new Map<string, number>();
+  for (const module of modules) {
+    const key = `${module.group} ${module.name}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  for (const module of modules) {
+    if (counts.get(`${module.group} ${module.name}`)! > 1) module.name = `${module.kind}:${module.name}`;
+  }
+
+  return modules.sort((a, b) => a.group.localeCompare(b.group) || a.name.localeCompare(b.name));
+}
+
+export function findCliModule(modules: Array<CliModule>, group: string, name: string): CliModule | undefined {
+  // Groups are contract names, accept any casing
+  return modules.find((module) => module.group.toLowerCase() === group.toLowerCase() && module.name === name);
+}
@@ -0,0 +1,79 @@
+import { ethers } from "ethers";
+import configSchema, { SchemaNode } from "../entities/config-schema";
+
+export type ConfigIssueKind = "missing" | "malformed" | "unset" | "zero" | "unknown";
+
+export type ConfigIssue = {
+  section: string;
+  path: string;
+  kind: ConfigIssueKind;
+  value?: string;
+};
+
+// Missing and malformed entries make the config unusable. Unset and zero addresses are
+// legitimate for contracts that are not deployed on a chain, so they are only reported.
+const FATAL_ISSUE_KINDS: Array<ConfigIssueKind> = ["missing", "malformed"];
+
+function _walk(node: SchemaNode, value: any, path: Array<string>, issues: Array<ConfigIssue>) {
+  // Top-level addresses (proxyAdmin, safe, ...) are grouped under a single "root" section
+  const section = path.length > 1 || typeof node !== "string" ? path[0] || "root" : "root";
+  const pathStr = path.join(".");
+
+  if (typeof node === "string") {
+    if (value === undefined) {
+      if (node === "address") issues.push({ section, path: pathStr, kind: "missing" });
+      return;
+    }
+    if (typeof value !== "string" || (value !== "" && !ethers.utils.isAddress(value))) {
+      issues.push({ section, path: pathStr, kind: "malformed", value: JSON.stringify(value) });
+    } else if (value === "") {
+      issues.push({ section, path: pathStr, kind: "unset" });
+    } else if (value === ethers.constants.AddressZero) {
+      issues.push({ section, path: pathStr, kind: "zero", value });
+    }
+    return;
+  }
+
+  if (value === undefined) {
+    issues.push({ section, path: pathStr, kind: "missing" });
+    return;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push({ section, path: pathStr, kind: "malformed", value: JSON.stringify(value) });
+    return;
+  }
+  for (const [key, child] of Object.entries(node)) {
+    _walk(child, value[key], [...path, key], issues);
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in node)) {
+      issues.push({ section: path.length > 0 ? path[0] : "root", path: [...path, key].join("."), kind: "unknown" });
+    }
+  }
+}
+
+export function validateConfig(config: any): Array<ConfigIssue> {
+  const issues: Array<ConfigIssue> = [];
+  _walk(configSchema, config, [], issues);
+  return issues;
+}
+
+export function isFatalConfigIssue(issue: ConfigIssue): boolean {
+  return FATAL_ISSUE_KINDS.includes(issue.kind);
+}
+
+export function formatConfigIssues(issues: Array<ConfigIssue>): string {
+  const bySection = issues.reduce((acc, issue) => {
+    (acc[issue.section] = acc[issue.section] || []).push(issue);
+    return acc;
+  }, {} as { [section: string]: Array<ConfigIssue> });
+
+  return Object.entries(bySection)
+    .map(([section, sectionIssues]) => {
+      const lines = sectionIssues.map(
+        (issue) => `  - ${issue.path}: ${issue.kind}${issue.value !== undefined ? ` (${issue.value})` : ""}`
+      );
+      return [`[${section}]`, ...lines].join("\n");
+    })
+    .join("\n");
+}
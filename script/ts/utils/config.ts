@@ -1,72 +1,139 @@
 import { network } from "hardhat";
+import { ethers } from "ethers";
 import * as fs from "fs";
-import ArbitrumGoerliConfig from "../../../configs/arbitrum.goerli.json";
-import ArbitrumMainnetConfig from "../../../configs/arbitrum.mainnet.json";
+import { getImplementationAddress } from "@openzeppelin/upgrades-core";
 import ArbitrumMainnetMarketConfig from "../../../configs/.arbitrum.one.market.json";
-import ArbitrumGoerliMarketConfig from "../../../configs/.arbitrum.goerli.market.json";
+import { getNetworkByChainId, getNetworkByName, resolveRepoPath } from "./network";
+import { formatConfigIssues, isFatalConfigIssue, validateConfig } from "./config-validation";
+import { NetworkEntity } from "../entities/networks";
+import { Config } from "../entities/config-schema";
+import { DeploymentMetadata, diffConfigs, recordConfigChanges } from "./deployment-history";
 
-export function loadConfig(chainId: number) {
-  if (chainId === 42161) {
-    return ArbitrumMainnetConfig;
-  }
-  if (chainId === 421613) {
-    return ArbitrumGoerliConfig;
-  }
-  throw new Error("not found config");
+type MarketConfig = typeof ArbitrumMainnetMarketConfig;
+
+function readJsonFile<T>(relativePath: string): T {
+  return JSON.parse(fs.readFileSync(resolveRepoPath(relativePath), "utf8")) as T;
 }
 
-export function loadMarketConfig(chainId: number) {
-  if (chainId === 42161) {
-    return ArbitrumMainnetMarketConfig;
-  }
-  if (chainId === 421613) {
-    return ArbitrumGoerliMarketConfig;
-  }
-  throw new Error("not found market config");
+export function readConfigFile(chainId: number): unknown {
+  return readJsonFile<unknown>(getNetworkByChainId(chainId).configPath);
 }
 
-export function getConfig() {
-  if (network.name === "matic") {
-    return ArbitrumGoerliConfig;
-  }
-  if (network.name === "tenderly") {
-    return ArbitrumMainnetConfig;
-  }
-  if (network.name === "mumbai") {
-    return ArbitrumGoerliConfig;
+function loadNetworkConfig(entity: NetworkEntity): Config {
+  const config = readJsonFile<unknown>(entity.configPath);
+  const fatalIssues = validateConfig(config).filter(isFatalConfigIssue);
+  if (fatalIssues.length > 0) {
+    throw new Error(`[utils/config] Invalid config ${entity.configPath}\n${formatConfigIssues(fatalIssues)}`);
   }
-  if (network.name === "arb_goerli") {
-    return ArbitrumGoerliConfig;
+  return config as Config;
+}
+
+export function loadConfig(chainId: number): Config {
+  return loadNetworkConfig(getNetworkByChainId(chainId));
+}
+
+/**
+ * Every address of the address book with its key, e.g. `storages.config`. Empty entries are left out.
+ */
+export function listAddressBook(chainId: number): Array<{ key: string; address: string }> {
+  const entries: Array<{ key: string; address: string }> = [];
+  const walk = (node: any, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (value && typeof value === "object") walk(value, path);
+      else if (typeof value === "string" && ethers.utils.isAddress(value) && value !== ethers.constants.AddressZero)
+        entries.push({ key: path, address: value });
+    }
+  };
+  walk(loadConfig(chainId), "");
+  return entries;
+}
+
+/**
+ * Address of an address book entry by its key, e.g. `storages.config`. Empty when the entry is
+ * missing, not an address or the zero address.
+ */
+export function getAddressBookEntry(config: Config, key: string): string {
+  const value = key
+    .split(".")
+    .reduce((node: any, k) => (node && typeof node === "object" ? node[k] : undefined), config);
+  return typeof value === "string" && ethers.utils.isAddress(value) && value !== ethers.constants.AddressZero
+    ? value
+    : "";
+}
+
+/**
+ * Sets an address book entry by its key, adding the sections on its path that are missing.
+ */
+export function setAddressBookEntry(config: Config, key: string, address: string) {
+  const path = key.split(".");
+  const parent = path.slice(0, -1).reduce((node: any, k) => {
+    if (!node[k] || typeof node[k] !== "object") node[k] = {};
+    return node[k];
+  }, config);
+  parent[path[path.length - 1]] = address;
+}
+
+export function loadMarketConfig(chainId: number): MarketConfig {
+  const entity = getNetworkByChainId(chainId);
+  if (!entity.marketConfigPath) throw new Error(`not found market config for ${entity.name}`);
+  return readJsonFile<MarketConfig>(entity.marketConfigPath);
+}
+
+export function getConfig(): Config {
+  return loadNetworkConfig(getNetworkByName(network.name));
+}
+
+async function _resolveDeploymentMetadata(newAddress: string, metadata: DeploymentMetadata) {
+  const resolved = { ...metadata };
+  if (!resolved.implementation && newAddress !== "") {
+    try {
+      resolved.implementation = await getImplementationAddress(network.provider, newAddress);
+    } catch (e) {
+      // Not an EIP-1967 proxy
+    }
   }
-  if (network.name === "arbitrum") {
-    return ArbitrumMainnetConfig;
+  if (resolved.txHash && (!resolved.blockNumber || !resolved.deployer)) {
+    // Wrapped here rather than using hardhat-ethers, so that scripts run without hardhat type-check.
+    // Only `request` is passed on, hardhat's `send` does not have the signature ethers expects.
+    const provider = new ethers.providers.Web3Provider({
+      request: (request: { method: string; params?: Array<any> }) => network.provider.request(request),
+    });
+    const tx = await provider.getTransaction(resolved.txHash);
+    const receipt = await tx.wait();
+    resolved.blockNumber = resolved.blockNumber || receipt.blockNumber;
+    resolved.deployer = resolved.deployer || tx.from;
   }
-
-  throw new Error("not found config");
+  return resolved;
 }
 
-export function writeConfigFile(config: any) {
-  let filePath;
-  switch (network.name) {
-    case "arbitrum":
-      filePath = "./configs/arbitrum.mainnet.json";
-      break;
-    case "matic":
-      filePath = "./configs/arbitrum.goerli.json";
-      break;
-    case "tenderly":
-      filePath = "./configs/arbitrum.mainnet.json";
-      break;
-    case "mumbai":
-      filePath = "./configs/arbitrum.goerli.json";
-      break;
-    case "arb_goerli":
-      filePath = "./configs/arbitrum.goerli.json";
-      break;
-    default:
-      throw Error("Unsupported network");
+export function writeNetworkConfigFile(
+  entity: NetworkEntity,
+  config: Config,
+  metadataByKey: { [key: string]: DeploymentMetadata } = {}
+) {
+  const oldConfig = readJsonFile<Config>(entity.configPath);
+  const changes = diffConfigs(oldConfig, config);
+  console.log(`[utils/config] Writing ${entity.configPath}`);
+  fs.writeFileSync(resolveRepoPath(entity.configPath), JSON.stringify(config, null, 2));
+  if (changes.length > 0) {
+    const snapshot = recordConfigChanges(entity, oldConfig, config, changes, metadataByKey);
+    changes.forEach((c) => console.log(`[utils/config] ${c.key}: ${c.oldAddress || "(unset)"} -> ${c.newAddress}`));
+    console.log(`[utils/config] Recorded snapshot #${snapshot.id}`);
   }
-  console.log(`[utils/config] Writing ${filePath}`);
-  fs.writeFileSync(filePath, JSON.stringify(config, null, 2));
   console.log("[utils/config] ✅ Done");
 }
+
+/**
+ * Writes the config of the current hardhat network and records every changed key in the
+ * deployment history. `metadata` applies to all keys changed by this write.
+ */
+export async function writeConfigFile(config: Config, metadata: DeploymentMetadata = {}) {
+  const entity = getNetworkByName(network.name);
+  const changes = diffConfigs(readJsonFile<Config>(entity.configPath), config);
+  const metadataByKey: { [key: string]: DeploymentMetadata } = {};
+  for (const change of changes) {
+    metadataByKey[change.key] = await _resolveDeploymentMetadata(change.newAddress, metadata);
+  }
+  writeNetworkConfigFile(entity, config, metadataByKey);
+}
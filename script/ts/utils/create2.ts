@@ -0,0 +1,217 @@
+import { ethers } from "ethers";
+import { ethers as hardhatEthers, upgrades } from "hardhat";
+import { ValidationOptions } from "@openzeppelin/upgrades-core";
+import { getNetworkByChainId } from "./network";
+
+// Deterministic deployment proxy, at the same address on every chain it was deployed to with its
+// presigned transaction, see https://github.com/Arachnid/deterministic-deployment-proxy
+export const CREATE2_FACTORY = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+const CREATE2_FACTORY_CODE =
+  "0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3";
+// Create2ProxyDeployer goes through the factory with its own version, it stays where it is when the
+// stack moves to a new one
+const PROXY_DEPLOYER_VERSION = "1";
+
+export type Create2Deployment = {
+  address: string;
+  // Left out when the contract was already at its address
+  txHash?: string;
+};
+
+export type Create2ProxyDeployment = Create2Deployment & {
+  implementation: string;
+};
+
+/**
+ * Salt of a contract, the same on every chain for a given name and version. Bumping the version
+ * gives new addresses, e.g. for a second instance or after a botched deployment.
+ */
+export function getCreate2Salt(name: string, version: string): string {
+  return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(`hmx:${name}:${version}`));
+}
+
+export function getCreate2Address(initCode: ethers.utils.BytesLike, salt: string): string {
+  return ethers.utils.getCreate2Address(CREATE2_FACTORY, salt, ethers.utils.keccak256(initCode));
+}
+
+export function getInitCode(factory: ethers.ContractFactory, args: Array<any>): string {
+  return ethers.utils.hexlify(factory.getDeployTransaction(...args).data!);
+}
+
+async function _proxyDeployerFactory(signer?: ethers.Signer): Promise<ethers.ContractFactory> {
+  return await hardhatEthers.getContractFactory("Create2ProxyDeployer", signer);
+}
+
+/**
+ * Address of a proxy created by Create2ProxyDeployer, from the creation code of
+ * TransparentUpgradeableProxy. Only the caller, the name and the version go into its salt.
+ */
+export function getCreate2ProxyAddress(
+  proxyDeployer: string,
+  proxyCreationCode: ethers.utils.BytesLike,
+  caller: string,
+  name: string,
+  version: string
+): string {
+  const salt = ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(["address", "bytes32"], [caller, getCreate2Salt(`${name}.proxy`, version)])
+  );
+  // The proxy is created pointing to the deployer, which is upgraded away from in the same transaction
+  const initCode = ethers.utils.hexConcat([
+    proxyCreationCode,
+    ethers.utils.defaultAbiCoder.encode(["address", "address", "bytes"], [proxyDeployer, proxyDeployer, "0x"]),
+  ]);
+  return ethers.utils.getCreate2Address(proxyDeployer, salt, ethers.utils.keccak256(initCode));
+}
+
+/**
+ * Whether a contract can go through the factory as is. Contracts setting their owner in the
+ * constructor would be owned by the factory, they go behind a proxy or get a plain deployment.
+ */
+export function isCreate2Deployable(factory: ethers.ContractFactory): boolean {
+  return !factory.interface.functions["owner()"];
+}
+
+/**
+ * Addresses of a proxy and its implementation. The proxy is created and initialized by
+ * Create2ProxyDeployer, so it only depends on who deploys it: the same deployer gets the same
+ * proxy on every chain, whatever the implementation and the ProxyAdmin.
+ */
+export async function precomputeProxyAddresses(
+  factory: ethers.ContractFactory,
+  name: string,
+  version: string,
+  deployer: string
+): Promise<{ address: string; implementation: string }> {
+  const implementation = getCreate2Address(getInitCode(factory, []), getCreate2Salt(name, version));
+  const proxyDeployer = getCreate2Address(
+    getInitCode(await _proxyDeployerFactory(), []),
+    getCreate2Salt("Create2ProxyDeployer", PROXY_DEPLOYER_VERSION)
+  );
+  const proxyFactory = await hardhatEthers.getContractFactory("TransparentUpgradeableProxy");
+  return {
+    address: getCreate2ProxyAddress(proxyDeployer, proxyFactory.bytecode, deployer, name, version),
+    implementation,
+  };
+}
+
+/**
+ * Makes sure the factory is on the chain. Local chains get its code set, other chains need its
+ * presigned transaction sent once by anyone.
+ */
+export async function ensureCreate2Factory(provider: ethers.providers.JsonRpcProvider) {
+  if ((await provider.getCode(CREATE2_FACTORY)) !== "0x") return;
+  const chainId = (await provider.getNetwork()).chainId;
+  if (!getNetworkByChainId(chainId).hardhatNetworks.includes("hardhat"))
+    throw new Error(
+      `[utils/create2] No CREATE2 factory at ${CREATE2_FACTORY} on chain ${chainId}, send its presigned transaction first, see https://github.com/Arachnid/deterministic-deployment-proxy`
+    );
+  console.log(`[utils/create2] Setting the CREATE2 factory code at ${CREATE2_FACTORY}`);
+  await provider.send("hardhat_setCode", [CREATE2_FACTORY, CREATE2_FACTORY_CODE]);
+}
+
+async function _deployCreate2(
+  signer: ethers.Signer,
+  initCode: string,
+  salt: string,
+  label: string
+): Promise<Create2Deployment> {
+  const provider = signer.provider as ethers.providers.JsonRpcProvider;
+  await ensureCreate2Factory(provider);
+  const address = getCreate2Address(initCode, salt);
+  if ((await provider.getCode(address)) !== "0x") {
+    console.log(`[utils/create2] ${label} is already at ${address}`);
+    return { address };
+  }
+  console.log(`[utils/create2] Deploying ${label} to ${address}...`);
+  const tx = await signer.sendTransaction({ to: CREATE2_FACTORY, data: ethers.utils.hexConcat([salt, initCode]) });
+  await tx.wait();
+  // The factory reverts when the creation fails, so this is only a defensive check that the code landed
+  if ((await provider.getCode(address)) === "0x")
+    throw new Error(`[utils/create2] ${label} was not created at ${address}, see ${tx.hash}`);
+  return { address, txHash: tx.hash };
+}
+
+/**
+ * Deploys a contract through the factory, to the same address on every chain given the same
+ * constructor arguments.
+ */
+export async function deployCreate2(
+  signer: ethers.Signer,
+  factory: ethers.ContractFactory,
+  args: Array<any>,
+  name: string,
+  version: string
+): Promise<Create2Deployment> {
+  if (!isCreate2Deployable(factory))
+    throw new Error(`[utils/create2] ${name} would be owned by the CREATE2 factory, deploy it without CREATE2`);
+  return await _deployCreate2(signer, getInitCode(factory, args), getCreate2Salt(name, version), name);
+}
+
+/**
+ * Deploys an implementation through the factory and its proxy through Create2ProxyDeployer, which
+ * initializes the proxy in the same transaction and hands its ownership to the signer. The proxy
+ * is then imported into the upgrades manifest so that it upgrades like one from
+ * `upgrades.deployProxy`.
+ */
+export async function deployProxyCreate2(
+  signer: ethers.Signer,
+  factory: ethers.ContractFactory,
+  initArgs: Array<any>,
+  name: string,
+  version: string,
+  proxyAdmin: string,
+  unsafeAllow?: ValidationOptions["unsafeAllow"]
+): Promise<Create2ProxyDeployment> {
+  if (!factory.interface.functions["owner()"])
+    throw new Error(`[utils/create2] ${name} has no owner() for Create2ProxyDeployer to hand over`);
+  await upgrades.validateImplementation(factory, { unsafeAllow });
+
+  const signerAddress = await signer.getAddress();
+  const { address, implementation } = await precomputeProxyAddresses(factory, name, version, signerAddress);
+  const proxyDeployerFactory = await _proxyDeployerFactory(signer);
+  const proxyDeployer = await _deployCreate2(
+    signer,
+    getInitCode(proxyDeployerFactory, []),
+    getCreate2Salt("Create2ProxyDeployer", PROXY_DEPLOYER_VERSION),
+    "Create2ProxyDeployer"
+  );
+  await _deployCreate2(signer, getInitCode(factory, []), getCreate2Salt(name, version), `${name} implementation`);
+
+  const provider = signer.provider!;
+  let txHash: string | undefined;
+  if ((await provider.getCode(address)) !== "0x") console.log(`[utils/create2] ${name} proxy is already at ${address}`);
+  else {
+    console.log(`[utils/create2] Deploying and initializing ${name} proxy at ${address}...`);
+    const tx = await proxyDeployerFactory
+      .attach(proxyDeployer.address)
+      .deployProxy(
+        getCreate2Salt(`${name}.proxy`, version),
+        implementation,
+        proxyAdmin,
+        factory.interface.encodeFunctionData("initialize", initArgs)
+      );
+    await tx.wait();
+    txHash = tx.hash;
+  }
+
+  await upgrades.forceImport(address, factory, { kind: "transparent" });
+  return { address, txHash, implementation };
+}
+
+/**
+ * Deploys a stateless contract through the factory when DEPLOY_CREATE2_VERSION is set, with a
+ * plain deployment otherwise.
+ */
+export async function deployContract(
+  name: string,
+  args: Array<any>,
+  signer: ethers.Signer,
+  version: string | undefined = process.env.DEPLOY_CREATE2_VERSION
+): Promise<Create2Deployment> {
+  const factory = await hardhatEthers.getContractFactory(name, signer);
+  if (version) return await deployCreate2(signer, factory, args, name, version);
+  const contract = await factory.deploy(...args);
+  await contract.deployed();
+  return { address: contract.address, txHash: contract.deployTransaction.hash };
+}
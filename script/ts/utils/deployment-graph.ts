@@ -0,0 +1,81 @@
+import deploymentGraph, {
+  DeploymentArg,
+  DeploymentNode,
+  DeploymentRef,
+  WiringStep,
+} from "../entities/deployment-graph";
+import { getNetworkByChainId } from "./network";
+
+// Kept apart from utils/deployment-orchestrator so that the graph loads without hardhat or a compiled typechain
+
+export type DeploymentGraphItem = {
+  id: string;
+  deps: Array<string>;
+  node?: DeploymentNode;
+  step?: WiringStep;
+};
+
+export function isDeploymentRef(arg: DeploymentArg): arg is DeploymentRef {
+  return typeof arg === "object" && arg !== null && "ref" in arg;
+}
+
+function _isLocal(chainId: number): boolean {
+  return getNetworkByChainId(chainId).hardhatNetworks.includes("hardhat");
+}
+
+/**
+ * The nodes and wiring steps for the chain, in an order where everything comes after what it
+ * depends on. Local-only mocks become external dependencies on other chains. With `only`, the
+ * other nodes are external dependencies too and only the wiring touching the selected ones is kept.
+ */
+export function sortDeploymentGraph(chainId: number, only?: Array<string>): Array<DeploymentGraphItem> {
+  const local = _isLocal(chainId);
+  let nodes = deploymentGraph.nodes.filter((node) => local || !node.localOnly);
+  let wiring = deploymentGraph.wiring;
+  if (only && only.length > 0) {
+    const unknown = only.filter((key) => !nodes.some((node) => node.key === key));
+    if (unknown.length > 0)
+      throw new Error(`[utils/deployment-graph] Not in the deployment graph: ${unknown.join(", ")}`);
+    nodes = nodes.filter((node) => only.includes(node.key));
+    wiring = wiring.filter(
+      (step) => only.includes(step.contract) || step.args.some((arg) => isDeploymentRef(arg) && only.includes(arg.ref))
+    );
+  }
+
+  const refs = (args: Array<DeploymentArg>) => args.filter(isDeploymentRef).map((arg) => arg.ref);
+  const items: Array<DeploymentGraphItem> = [
+    ...nodes.map((node) => ({ id: node.key, deps: [...refs(node.args), ...(node.after || [])], node })),
+    ...wiring.map((step) => ({
+      id: step.id,
+      deps: [step.contract, ...refs(step.args), ...(step.after || [])],
+      step,
+    })),
+  ];
+  const ids = new Set(items.map((item) => item.id));
+  const stepIds = new Set(deploymentGraph.wiring.map((step) => step.id));
+
+  const sorted: Array<DeploymentGraphItem> = [];
+  const done = new Set<string>();
+  let remaining = items;
+  while (remaining.length > 0) {
+    // Steps left out by `only` are assumed done, keys outside of the graph come from the address book
+    const ready = remaining.filter((item) => item.deps.every((dep) => !ids.has(dep) || done.has(dep)));
+    if (ready.length === 0)
+      throw new Error(
+        `[utils/deployment-graph] Dependency cycle between ${remaining.map((item) => item.id).join(", ")}`
+      );
+    for (const item of ready) {
+      sorted.push(item);
+      done.add(item.id);
+    }
+    remaining = remaining.filter((item) => !done.has(item.id));
+  }
+
+  const unknownSteps = items
+    .map((item) => [...(item.node ? item.node.after || [] : []), ...(item.step ? item.step.after || [] : [])])
+    .reduce((acc, after) => acc.concat(after), [] as Array<string>)
+    .filter((id) => !stepIds.has(id));
+  if (unknownSteps.length > 0)
+    throw new Error(`[utils/deployment-graph] Unknown wiring steps: ${[...new Set(unknownSteps)].join(", ")}`);
+  return sorted;
+}
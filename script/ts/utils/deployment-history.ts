@@ -0,0 +1,217 @@
+import * as fs from "fs";
+import { execSync } from "child_process";
+import { resolveRepoPath } from "./network";
+import { NetworkEntity } from "../entities/networks";
+import { Config } from "../entities/config-schema";
+
+export type DeploymentHistoryEntry = {
+  snapshotId: number;
+  key: string;
+  oldAddress: string;
+  newAddress: string;
+  implementation: string;
+  txHash: string;
+  blockNumber: number;
+  gitCommit: string;
+  deployer: string;
+  timestamp: number;
+  note?: string;
+  // Hash of the deployed code and arguments, see utils/deployment-orchestrator
+  fingerprint?: string;
+  // Contract name of the deployed code, used to verify it
+  contract?: string;
+  // An upgrade waiting in the Safe or the Timelock, left out of the lineage until it is live
+  status?: "pending";
+};
+
+export type ConfigSnapshot = {
+  id: number;
+  timestamp: number;
+  gitCommit: string;
+  note?: string;
+  config: Config;
+};
+
+export type DeploymentHistory = {
+  snapshots: Array<ConfigSnapshot>;
+  entries: Array<DeploymentHistoryEntry>;
+};
+
+export type DeploymentMetadata = {
+  implementation?: string;
+  txHash?: string;
+  blockNumber?: number;
+  deployer?: string;
+  note?: string;
+  fingerprint?: string;
+  contract?: string;
+  status?: "pending";
+};
+
+export type ConfigChange = {
+  key: string;
+  oldAddress: string;
+  newAddress: string;
+};
+
+export function getHistoryPath(entity: NetworkEntity): string {
+  return entity.configPath.replace(/\.json$/, ".history.json");
+}
+
+export function readDeploymentHistory(entity: NetworkEntity): DeploymentHistory {
+  const filePath = resolveRepoPath(getHistoryPath(entity));
+  if (!fs.existsSync(filePath)) return { snapshots: [], entries: [] };
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as DeploymentHistory;
+}
+
+export function writeDeploymentHistory(entity: NetworkEntity, history: DeploymentHistory) {
+  fs.writeFileSync(resolveRepoPath(getHistoryPath(entity)), JSON.stringify(history, null, 2));
+}
+
+export function getGitCommit(): string {
+  try {
+    return execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch (e) {
+    return "";
+  }
+}
+
+function _flatten(value: any, prefix: string, out: { [key: string]: string }) {
+  if (value === null || value === undefined) return;
+  if (typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) _flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    return;
+  }
+  out[prefix] = String(value);
+}
+
+export function diffConfigs(oldConfig: any, newConfig: any): Array<ConfigChange> {
+  const oldFlat: { [key: string]: string } = {};
+  const newFlat: { [key: string]: string } = {};
+  _flatten(oldConfig, "", oldFlat);
+  _flatten(newConfig, "", newFlat);
+
+  const keys = [...new Set([...Object.keys(oldFlat), ...Object.keys(newFlat)])];
+  return keys
+    .filter((key) => (oldFlat[key] || "").toLowerCase() !== (newFlat[key] || "").toLowerCase())
+    .map((key) => ({ key, oldAddress: oldFlat[key] || "", newAddress: newFlat[key] || "" }));
+}
+
+/**
+ * Appends a snapshot of `newConfig` and one entry per changed key to the history sidecar.
+ * The first recorded write also snapshots `oldConfig` so the pre-history state can be restored.
+ */
+export function recordConfigChanges(
+  entity: NetworkEntity,
+  oldConfig: Config,
+  newConfig: Config,
+  changes: Array<ConfigChange>,
+  metadataByKey: { [key: string]: DeploymentMetadata }
+): ConfigSnapshot {
+  const history = readDeploymentHistory(entity);
+  const gitCommit = getGitCommit();
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  if (history.snapshots.length === 0) {
+    history.snapshots.push({ id: 0, timestamp, gitCommit, note: "initial state", config: oldConfig });
+  }
+
+  const notes = [...new Set(Object.values(metadataByKey).map((m) => m.note))].filter(Boolean);
+  const snapshot: ConfigSnapshot = {
+    id: history.snapshots[history.snapshots.length - 1].id + 1,
+    timestamp,
+    gitCommit,
+    note: notes.length > 0 ? notes.join(", ") : undefined,
+    config: newConfig,
+  };
+  history.snapshots.push(snapshot);
+
+  for (const change of changes) {
+    const metadata = metadataByKey[change.key] || {};
+    history.entries.push({
+      snapshotId: snapshot.id,
+      key: change.key,
+      oldAddress: change.oldAddress,
+      newAddress: change.newAddress,
+      implementation: metadata.implementation || "",
+      txHash: metadata.txHash || "",
+      blockNumber: metadata.blockNumber || 0,
+      gitCommit,
+      deployer: metadata.deployer || "",
+      timestamp,
+      note: metadata.note,
+      fingerprint: metadata.fingerprint,
+      contract: metadata.contract,
+    });
+  }
+
+  writeDeploymentHistory(entity, history);
+  return snapshot;
+}
+
+/**
+ * Records a proxy upgrade, the proxy address stays while its implementation changes. The entry
+ * belongs to the latest snapshot since the address book itself does not change.
+ */
+export function recordImplementationChange(
+  entity: NetworkEntity,
+  key: string,
+  proxy: string,
+  metadata: DeploymentMetadata
+): DeploymentHistoryEntry {
+  const history = readDeploymentHistory(entity);
+  const entry: DeploymentHistoryEntry = {
+    snapshotId: history.snapshots.length > 0 ? history.snapshots[history.snapshots.length - 1].id : 0,
+    key,
+    oldAddress: proxy,
+    newAddress: proxy,
+    implementation: metadata.implementation || "",
+    txHash: metadata.txHash || "",
+    blockNumber: metadata.blockNumber || 0,
+    gitCommit: getGitCommit(),
+    deployer: metadata.deployer || "",
+    timestamp: Math.floor(Date.now() / 1000),
+    note: metadata.note,
+    fingerprint: metadata.fingerprint,
+    contract: metadata.contract,
+    status: metadata.status,
+  };
+  history.entries.push(entry);
+  writeDeploymentHistory(entity, history);
+  return entry;
+}
+
+export function getLineage(
+  entity: NetworkEntity,
+  key: string,
+  includePending: boolean = false
+): Array<DeploymentHistoryEntry> {
+  return readDeploymentHistory(entity).entries.filter(
+    (entry) => entry.key === key && (includePending || entry.status !== "pending")
+  );
+}
+
+/**
+ * Marks the pending upgrades of a proxy to its live implementation as done. The ones to another
+ * implementation stay pending, they may still be executed.
+ */
+export function settleImplementationChanges(entity: NetworkEntity, key: string, liveImplementation: string) {
+  const history = readDeploymentHistory(entity);
+  const settled = history.entries.filter(
+    (entry) =>
+      entry.key === key &&
+      entry.status === "pending" &&
+      entry.implementation.toLowerCase() === liveImplementation.toLowerCase()
+  );
+  if (settled.length === 0) return;
+  for (const entry of settled) delete entry.status;
+  writeDeploymentHistory(entity, history);
+}
+
+export function getSnapshot(entity: NetworkEntity, snapshotId: number): ConfigSnapshot {
+  const snapshot = readDeploymentHistory(entity).snapshots.find((s) => s.id === snapshotId);
+  if (!snapshot) throw new Error(`[utils/deployment-history] Snapshot #${snapshotId} not found for ${entity.name}`);
+  return snapshot;
+}
@@ -0,0 +1,375 @@
+import { ethers } from "ethers";
+import { ethers as hardhatEthers, upgrades } from "hardhat";
+import deploymentGraph, { DeploymentArg, DeploymentNode, WiringStep } from "../entities/deployment-graph";
+import { compareAddress } from "./address";
+import { getAddressBookEntry, loadConfig, setAddressBookEntry, writeConfigFile } from "./config";
+import {
+  Create2Deployment,
+  deployCreate2,
+  deployProxyCreate2,
+  getCreate2Address,
+  getCreate2Salt,
+  getInitCode,
+  isCreate2Deployable,
+  precomputeProxyAddresses,
+} from "./create2";
+import { DeploymentGraphItem, isDeploymentRef, sortDeploymentGraph } from "./deployment-graph";
+import { getLineage, recordImplementationChange, settleImplementationChanges } from "./deployment-history";
+import { getNetworkByChainId } from "./network";
+import { stripMetadata } from "./upgrade-safety";
+import { OwnerWrapper } from "../wrappers/OwnerWrapper";
+import ProxyAdminWrapper from "../wrappers/ProxyAdminWrapper";
+
+export type DeploymentStatus =
+  // Contracts
+  | "missing"
+  | "changed"
+  | "untracked"
+  | "up to date"
+  // Wiring steps
+  | "needed"
+  | "done"
+  | "after deploy";
+
+export type DeploymentPlanItem = {
+  id: string;
+  status: DeploymentStatus;
+  detail: string;
+  node?: DeploymentNode;
+  step?: WiringStep;
+};
+
+export type DeploymentResult = {
+  deployed: Array<string>;
+  upgraded: Array<string>;
+  wired: Array<string>;
+  // Upgrades and wiring waiting in the Safe or the Timelock
+  pending: Array<string>;
+};
+
+export type PrecomputedAddress = {
+  key: string;
+  contract: string;
+  // Empty when the node does not go through the CREATE2 factory or depends on one without an address
+  address: string;
+  implementation?: string;
+  detail: string;
+};
+
+const NOTE = "deploy-stack";
+
+function _resolveArgs(config: any, args: Array<DeploymentArg>): Array<any> {
+  return args.map((arg) => {
+    if (!isDeploymentRef(arg)) return arg;
+    const address = getAddressBookEntry(config, arg.ref);
+    if (!address && !arg.optional) throw new Error(`[utils/deployment-orchestrator] ${arg.ref} is not deployed`);
+    return address || ethers.constants.AddressZero;
+  });
+}
+
+/**
+ * Keccak of the creation code without its compiler metadata, plus the constructor arguments of
+ * plain contracts. Initializer arguments are left out as a deployed proxy cannot take new ones.
+ */
+export function getDeploymentFingerprint(
+  factory: ethers.ContractFactory,
+  node: DeploymentNode,
+  args: Array<any>
+): string {
+  const code = stripMetadata(ethers.utils.arrayify(factory.bytecode));
+  return ethers.utils.keccak256(ethers.utils.concat([code, node.proxy ? "0x" : factory.interface.encodeDeploy(args)]));
+}
+
+// A pending upgrade counts once the proxy is on its implementation, the next run settles it
+function _recordedFingerprint(chainId: number, key: string, liveImplementation?: string): string | undefined {
+  const lineage = getLineage(getNetworkByChainId(chainId), key, true).filter(
+    (entry) =>
+      entry.status !== "pending" ||
+      (liveImplementation !== undefined && compareAddress(entry.implementation, liveImplementation))
+  );
+  return lineage.length > 0 ? lineage[lineage.length - 1].fingerprint : undefined;
+}
+
+// The check is the view named by the step, taking the leading arguments of the call and returning the last one
+function _checkFragment(step: WiringStep): {
+  call: ethers.utils.FunctionFragment;
+  check?: ethers.utils.FunctionFragment;
+} {
+  const call = ethers.utils.FunctionFragment.from(`function ${step.call}`);
+  if (!step.check) return { call };
+  const inputs = call.inputs.map((input) => input.type);
+  const check = ethers.utils.FunctionFragment.from(
+    `function ${step.check}(${inputs.slice(0, -1).join(",")}) view returns (${inputs[inputs.length - 1]})`
+  );
+  return { call, check };
+}
+
+/**
+ * What the check of a wiring step returns against what the step would set, e.g. `true` for a
+ * service executor or the calculator address for `setCalculator`.
+ */
+export async function readWiringStep(
+  provider: ethers.providers.Provider,
+  config: any,
+  step: WiringStep
+): Promise<{ expected: string; actual: string }> {
+  const { check } = _checkFragment(step);
+  if (!check) throw new Error(`[utils/deployment-orchestrator] ${step.id} has no check`);
+  const args = _resolveArgs(config, step.args);
+  const contract = new ethers.Contract(getAddressBookEntry(config, step.contract), [check], provider);
+  const value = await contract[check.name](...args.slice(0, -1));
+  return { expected: String(args[args.length - 1]), actual: String(value) };
+}
+
+async function _isWired(provider: ethers.providers.Provider, config: any, step: WiringStep): Promise<boolean> {
+  const { expected, actual } = await readWiringStep(provider, config, step);
+  return expected.toLowerCase() === actual.toLowerCase();
+}
+
+/**
+ * Works out, without sending anything, what a run would deploy, upgrade and wire. Fails when a
+ * dependency outside of the graph is not in the address book.
+ */
+export async function planDeployment(
+  chainId: number,
+  signer: ethers.Signer,
+  only?: Array<string>
+): Promise<Array<DeploymentPlanItem>> {
+  const config = loadConfig(chainId);
+  const provider = signer.provider!;
+  const items = sortDeploymentGraph(chainId, only);
+  const ids = new Set(items.map((item) => item.id));
+  const stepIds = new Set(deploymentGraph.wiring.map((step) => step.id));
+
+  const missing: { [key: string]: Array<string> } = {};
+  for (const item of items) {
+    const args = item.node ? item.node.args : [{ ref: item.step!.contract }, ...item.step!.args];
+    for (const arg of args.filter(isDeploymentRef))
+      if (!ids.has(arg.ref) && !arg.optional && !getAddressBookEntry(config, arg.ref))
+        missing[arg.ref] = [...(missing[arg.ref] || []), item.id];
+  }
+  if (Object.keys(missing).length > 0)
+    throw new Error(
+      `[utils/deployment-orchestrator] Missing from the address book: ${Object.entries(missing)
+        .map(([key, users]) => `${key} (needed by ${users.join(", ")})`)
+        .join(", ")}`
+    );
+
+  // Keys getting a new address, and everything that will change during the run
+  const moving = new Set<string>();
+  const changing = new Set<string>();
+  const plan: Array<DeploymentPlanItem> = [];
+  for (const item of items) {
+    if (item.node) {
+      const node = item.node;
+      const address = getAddressBookEntry(config, node.key);
+      const movingDep = node.args.filter(isDeploymentRef).find((arg) => moving.has(arg.ref));
+      let status: DeploymentStatus;
+      let detail: string;
+      if (!address || (await provider.getCode(address)) === "0x") {
+        status = "missing";
+        detail = `deploy ${node.contract}${node.proxy ? " behind a proxy" : ""}`;
+      } else if (!node.proxy && movingDep) {
+        status = "changed";
+        detail = `redeploy ${node.contract}, ${movingDep.ref} gets a new address`;
+      } else {
+        const factory = await hardhatEthers.getContractFactory(node.contract, signer);
+        const fingerprint = getDeploymentFingerprint(factory, node, _resolveArgs(config, node.args));
+        const liveImplementation = node.proxy ? await upgrades.erc1967.getImplementationAddress(address) : undefined;
+        const recorded = _recordedFingerprint(chainId, node.key, liveImplementation);
+        status = recorded === undefined ? "untracked" : recorded === fingerprint ? "up to date" : "changed";
+        detail =
+          status === "untracked"
+            ? `${address}, deployed outside of the graph, left as is`
+            : status === "changed"
+            ? `${node.proxy ? "upgrade" : "redeploy"} ${node.contract}`
+            : address;
+      }
+      if (status === "missing" || (status === "changed" && !node.proxy)) moving.add(node.key);
+      if (status === "missing" || status === "changed") changing.add(node.key);
+      plan.push({ id: item.id, status, detail, node });
+      continue;
+    }
+
+    const step = item.step!;
+    const deps = item.deps.filter((dep) => !stepIds.has(dep));
+    let status: DeploymentStatus;
+    if (deps.some((dep) => moving.has(dep))) status = "after deploy";
+    else if (step.check) status = (await _isWired(provider, config, step)) ? "done" : "needed";
+    else status = item.deps.some((dep) => changing.has(dep)) ? "needed" : "done";
+    if (status !== "done") changing.add(step.id);
+    plan.push({ id: item.id, status, detail: `${step.contract}.${step.call}`, step });
+  }
+  return plan;
+}
+
+/**
+ * Where a CREATE2 run of the deployer with the given version puts each node of the graph.
+ * Dependencies take their address book address, else their precomputed one, so that the configs of
+ * a new chain can be filled in before anything is deployed.
+ */
+export async function precomputeDeployment(
+  chainId: number,
+  version: string,
+  deployer: string,
+  only?: Array<string>
+): Promise<Array<PrecomputedAddress>> {
+  const config = loadConfig(chainId);
+  const working = JSON.parse(JSON.stringify(config));
+  const rows: Array<PrecomputedAddress> = [];
+  for (const item of sortDeploymentGraph(chainId, only)) {
+    if (!item.node) continue;
+    const node = item.node;
+    const factory = await hardhatEthers.getContractFactory(node.contract);
+    const row: PrecomputedAddress = { key: node.key, contract: node.contract, address: "", detail: "" };
+    if (node.proxy) Object.assign(row, await precomputeProxyAddresses(factory, node.contract, version, deployer));
+    else if (!isCreate2Deployable(factory)) row.detail = "ownable, deployed without CREATE2";
+    else {
+      const dep = node.args
+        .filter(isDeploymentRef)
+        .find((arg) => !arg.optional && !getAddressBookEntry(working, arg.ref));
+      if (dep) row.detail = `${dep.ref} has no address`;
+      else
+        row.address = getCreate2Address(
+          getInitCode(factory, _resolveArgs(working, node.args)),
+          getCreate2Salt(node.contract, version)
+        );
+    }
+    const current = getAddressBookEntry(config, node.key);
+    if (current && row.address && !compareAddress(current, row.address)) row.detail = `address book has ${current}`;
+    if (!current && row.address) setAddressBookEntry(working, node.key, row.address);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function _deploy(
+  signer: ethers.Signer,
+  config: any,
+  node: DeploymentNode,
+  factory: ethers.ContractFactory,
+  args: Array<any>,
+  create2Version?: string
+): Promise<Create2Deployment> {
+  if (create2Version && node.proxy) {
+    if (!config.proxyAdmin) {
+      config.proxyAdmin = await upgrades.deployProxyAdmin(signer);
+      await writeConfigFile(config, { note: NOTE });
+    }
+    return await deployProxyCreate2(
+      signer,
+      factory,
+      args,
+      node.contract,
+      create2Version,
+      config.proxyAdmin,
+      node.unsafeAllow
+    );
+  }
+  if (create2Version && isCreate2Deployable(factory))
+    return await deployCreate2(signer, factory, args, node.contract, create2Version);
+  if (create2Version)
+    console.log(`[utils/deployment-orchestrator] ${node.contract} is ownable, deploying without CREATE2`);
+  const contract = node.proxy
+    ? await upgrades.deployProxy(factory, args, { unsafeAllow: node.unsafeAllow })
+    : await factory.deploy(...args);
+  await contract.deployed();
+  return { address: contract.address, txHash: contract.deployTransaction.hash };
+}
+
+/**
+ * Carries a plan out in order. Contracts are written to the address book as soon as deployed so
+ * that a failed run resumes where it stopped. Upgrades go through the ProxyAdmin and wiring is
+ * executed as the owner of each contract, either of which may end up pending in the Safe or the
+ * Timelock. With a CREATE2 version, proxies and contracts without an owner go through the CREATE2
+ * factory to the addresses `precomputeDeployment` gives.
+ */
+export async function executeDeployment(
+  chainId: number,
+  signer: ethers.Signer,
+  plan: Array<DeploymentPlanItem>,
+  options: { create2Version?: string } = {}
+): Promise<DeploymentResult> {
+  const config = loadConfig(chainId);
+  const provider = signer.provider!;
+  const result: DeploymentResult = { deployed: [], upgraded: [], wired: [], pending: [] };
+  const changed = new Set<string>();
+  let ownerWrapper: OwnerWrapper | undefined;
+
+  for (const item of plan) {
+    if (item.node) {
+      const node = item.node;
+      if (item.status !== "missing" && item.status !== "changed") continue;
+      const factory = await hardhatEthers.getContractFactory(node.contract, signer);
+      const args = _resolveArgs(config, node.args);
+      const fingerprint = getDeploymentFingerprint(factory, node, args);
+      const address = getAddressBookEntry(config, node.key);
+
+      if (item.status === "missing" || !node.proxy) {
+        console.log(`[utils/deployment-orchestrator] Deploying ${node.contract} as ${node.key}...`);
+        const contract = await _deploy(signer, config, node, factory, args, options.create2Version);
+        console.log(`[utils/deployment-orchestrator] ${node.key}: ${contract.address}`);
+        if (node.proxy && !config.proxyAdmin) {
+          config.proxyAdmin = await upgrades.erc1967.getAdminAddress(contract.address);
+          await writeConfigFile(config, { note: NOTE });
+        }
+        setAddressBookEntry(config, node.key, contract.address);
+        await writeConfigFile(config, {
+          txHash: contract.txHash,
+          fingerprint,
+          contract: node.contract,
+          note: NOTE,
+        });
+        result.deployed.push(node.key);
+        changed.add(node.key);
+        continue;
+      }
+
+      console.log(`[utils/deployment-orchestrator] Preparing ${node.contract} implementation for ${node.key}...`);
+      const implementation = (
+        await upgrades.prepareUpgrade(address, factory, { unsafeAllow: node.unsafeAllow })
+      ).toString();
+      const proxyAdminWrapper = new ProxyAdminWrapper(chainId, signer);
+      const current: string = await proxyAdminWrapper.proxyAdmin.getProxyImplementation(address);
+      settleImplementationChanges(getNetworkByChainId(chainId), node.key, current);
+      // Only the compiler metadata changed, there is nothing to upgrade to
+      const route = compareAddress(current, implementation)
+        ? "signer"
+        : await proxyAdminWrapper.upgrade(address, implementation);
+      recordImplementationChange(getNetworkByChainId(chainId), node.key, address, {
+        implementation,
+        deployer: await signer.getAddress(),
+        fingerprint,
+        contract: node.contract,
+        note: route === "signer" ? NOTE : `${NOTE} (pending in the ${route === "safe" ? "Safe" : "Timelock"})`,
+        // Settled once a later run finds the proxy on it
+        status: route === "signer" ? undefined : "pending",
+      });
+      if (route === "signer") {
+        result.upgraded.push(node.key);
+        changed.add(node.key);
+      } else result.pending.push(node.key);
+      continue;
+    }
+
+    const step = item.step!;
+    const needed = step.check
+      ? !(await _isWired(provider, config, step))
+      : [step.contract, ...step.args.filter(isDeploymentRef).map((arg) => arg.ref), ...(step.after || [])].some((dep) =>
+          changed.has(dep)
+        );
+    if (!needed) continue;
+
+    if (!ownerWrapper) ownerWrapper = new OwnerWrapper(chainId, signer);
+    const { call } = _checkFragment(step);
+    const data = new ethers.utils.Interface([call]).encodeFunctionData(call, _resolveArgs(config, step.args));
+    const [route] = await ownerWrapper.authExecMany([
+      { to: getAddressBookEntry(config, step.contract), data, info: step.id },
+    ]);
+    if (route === "signer") {
+      result.wired.push(step.id);
+      changed.add(step.id);
+    } else result.pending.push(step.id);
+  }
+  return result;
+}
@@ -0,0 +1,200 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readlineSync from "readline-sync";
+import * as yaml from "js-yaml";
+import { ethers } from "ethers";
+
+const BPS = 10000;
+// BPS fields of the config structs are uint32
+const MAX_UINT32 = 2 ** 32 - 1;
+const UNIT_SUFFIXES: { [suffix: string]: number } = { K: 3, M: 6, B: 9 };
+
+/**
+ * Reads a YAML or JSON input file. Relative paths are resolved against the working directory.
+ */
+export function readInputFile(filePath: string): any {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) throw new Error(`[utils/input-file] Input file ${filePath} not found`);
+  const source = fs.readFileSync(absolutePath, "utf8");
+  const extension = path.extname(absolutePath).toLowerCase();
+  try {
+    if (extension === ".json") return JSON.parse(source);
+    if (extension === ".yaml" || extension === ".yml") return yaml.load(source);
+  } catch (e) {
+    throw new Error(`[utils/input-file] Cannot parse ${filePath}: ${(e as Error).message}`);
+  }
+  throw new Error(`[utils/input-file] Unsupported input file ${filePath}, expected .yaml, .yml or .json`);
+}
+
+/**
+ * A value of an input file, converted from human units on read. Every conversion is exact,
+ * a value that does not fit the on-chain unit (e.g. 0.005% as BPS) is an error.
+ */
+export class InputEntry {
+  constructor(readonly raw: any, readonly where: string) {}
+
+  private _fail(key: string, message: string): never {
+    throw new Error(`[utils/input-file] ${this.where}.${key}: ${message}`);
+  }
+
+  private _get(key: string): any {
+    const value = this.raw[key];
+    if (value === undefined || value === null) this._fail(key, "missing");
+    return value;
+  }
+
+  // Numbers are taken as written, strings may use `_` or `,` separators and a K, M or B suffix
+  private _decimal(key: string, value: any, allowSuffix: boolean): string {
+    if (typeof value === "number") {
+      if (!Number.isFinite(value) || /e/i.test(String(value)))
+        this._fail(key, `${value} cannot be read exactly, quote it as a string`);
+      return String(value);
+    }
+    if (typeof value !== "string") this._fail(key, `expected a number, got ${JSON.stringify(value)}`);
+    const match = value.replace(/[_,\s]/g, "").match(/^(-?\d+(?:\.\d+)?)([KMB])?$/i);
+    if (!match || (match[2] && !allowSuffix)) this._fail(key, `expected a number, got "${value}"`);
+    if (!match[2]) return match[1];
+    return ethers.utils.formatUnits(ethers.utils.parseUnits(match[1], 18 + UNIT_SUFFIXES[match[2].toUpperCase()]), 18);
+  }
+
+  private _parseUnits(key: string, decimal: string, decimals: number): ethers.BigNumber {
+    try {
+      return ethers.utils.parseUnits(decimal, decimals);
+    } catch (e) {
+      return this._fail(key, `${decimal} has more precision than the contract can store`);
+    }
+  }
+
+  has(key: string): boolean {
+    return this.raw[key] !== undefined && this.raw[key] !== null;
+  }
+
+  entry(key: string): InputEntry {
+    const value = this._get(key);
+    if (typeof value !== "object" || Array.isArray(value)) this._fail(key, "expected an object");
+    return new InputEntry(value, `${this.where}.${key}`);
+  }
+
+  entries(key: string): Array<InputEntry> {
+    const value = this._get(key);
+    if (!Array.isArray(value) || value.length === 0) this._fail(key, "expected a non-empty list");
+    return value.map((each: any, i: number) => {
+      if (typeof each !== "object" || each === null || Array.isArray(each))
+        throw new Error(`[utils/input-file] ${this.where}.${key}[${i}]: expected an object`);
+      return new InputEntry(each, `${this.where}.${key}[${i}]`);
+    });
+  }
+
+  string(key: string): string {
+    const value = this._get(key);
+    if (typeof value !== "string" || value.length === 0) this._fail(key, "expected a string");
+    return value;
+  }
+
+  boolean(key: string, defaultValue?: boolean): boolean {
+    if (!this.has(key) && defaultValue !== undefined) return defaultValue;
+    const value = this._get(key);
+    if (typeof value !== "boolean") this._fail(key, `expected true or false, got ${JSON.stringify(value)}`);
+    return value;
+  }
+
+  integer(key: string, min: number = 0, max: number = Number.MAX_SAFE_INTEGER): number {
+    const value = this._get(key);
+    if (!Number.isInteger(value) || value < min || value > max)
+      this._fail(key, `expected an integer between ${min} and ${max}, got ${JSON.stringify(value)}`);
+    return value;
+  }
+
+  oneOf<T extends string>(key: string, values: ReadonlyArray<T>): T {
+    const value = this.string(key);
+    if (!values.includes(value as T)) this._fail(key, `expected one of ${values.join(", ")}, got "${value}"`);
+    return value as T;
+  }
+
+  address(key: string, defaultValue?: string): string {
+    if (!this.has(key) && defaultValue !== undefined) return defaultValue;
+    const value = this.string(key);
+    if (!ethers.utils.isAddress(value)) this._fail(key, `"${value}" is not an address`);
+    return ethers.utils.getAddress(value);
+  }
+
+  // Asset symbol such as ETH or GM-BTCUSD, as a bytes32 asset id
+  assetId(key: string): string {
+    const symbol = this.string(key);
+    if (ethers.utils.toUtf8Bytes(symbol).length > 31) this._fail(key, `"${symbol}" is too long for an asset id`);
+    return ethers.utils.formatBytes32String(symbol);
+  }
+
+  // e.g. `0.01` or `"0.01%"`, to BPS
+  percentBps(key: string, max: number = MAX_UINT32): number {
+    const raw = this._get(key);
+    const decimal = this._decimal(key, typeof raw === "string" ? raw.replace(/%$/, "") : raw, false);
+    const bps = this._parseUnits(key, decimal, 2);
+    if (bps.isNegative() || bps.gt(max)) this._fail(key, `${decimal}% is out of range`);
+    return bps.toNumber();
+  }
+
+  // e.g. `100` or `"100%"`, to a 1e18 = 100% fraction
+  percentE18(key: string): ethers.BigNumber {
+    const raw = this._get(key);
+    const value = this._parseUnits(
+      key,
+      this._decimal(key, typeof raw === "string" ? raw.replace(/%$/, "") : raw, false),
+      16
+    );
+    if (value.isNegative()) this._fail(key, "must not be negative");
+    return value;
+  }
+
+  // e.g. `1000` or `"1000x"`, to the initial margin fraction in BPS
+  leverageImfBps(key: string): number {
+    const raw = this._get(key);
+    const leverage = Number(this._decimal(key, typeof raw === "string" ? raw.replace(/x$/i, "") : raw, false));
+    if (leverage < 1) this._fail(key, `leverage must be at least 1, got ${leverage}`);
+    const imfBps = BPS / leverage;
+    if (!Number.isInteger(imfBps)) this._fail(key, `${leverage}x does not give a whole BPS initial margin fraction`);
+    return imfBps;
+  }
+
+  // e.g. `3000000`, `"3,000,000"` or `"3M"`, to E30
+  usdE30(key: string): ethers.BigNumber {
+    const value = this._parseUnits(key, this._decimal(key, this._get(key), true), 30);
+    if (value.isNegative()) this._fail(key, "must not be negative");
+    return value;
+  }
+
+  units(key: string, decimals: number): ethers.BigNumber {
+    const value = this._parseUnits(key, this._decimal(key, this._get(key), true), decimals);
+    if (value.isNegative()) this._fail(key, "must not be negative");
+    return value;
+  }
+}
+
+export function readInputEntry(filePath: string): InputEntry {
+  const raw = readInputFile(filePath);
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw))
+    throw new Error(`[utils/input-file] ${filePath} must contain an object at the top level`);
+  return new InputEntry(raw, path.basename(filePath));
+}
+
+function _flatten(row: { [key: string]: any }, prefix: string = ""): { [key: string]: any } {
+  return Object.entries(row).reduce((flat, [key, value]) => {
+    if (ethers.BigNumber.isBigNumber(value)) return { ...flat, [`${prefix}${key}`]: value.toString() };
+    if (value && typeof value === "object" && !Array.isArray(value))
+      return { ...flat, ..._flatten(value, `${prefix}${key}.`) };
+    return { ...flat, [`${prefix}${key}`]: value };
+  }, {} as { [key: string]: any });
+}
+
+/**
+ * Prints the values that are about to be sent, in on-chain units, and asks to go on.
+ * Nested objects are flattened into `parent.child` columns.
+ */
+export function confirmNormalizedInputs(title: string, rows: Array<{ [key: string]: any }>): boolean {
+  console.log(`[utils/input-file] ${title}`);
+  console.table(rows.map((row) => _flatten(row)));
+  const confirm = readlineSync.question("Confirm to send these values? (y/n): ");
+  if (confirm === "y") return true;
+  console.log(confirm === "n" ? "Cancelled!" : "Invalid input!");
+  return false;
+}
@@ -0,0 +1,422 @@
+import { ethers } from "ethers";
+import {
+  ConfigStorage__factory,
+  EcoPyth2__factory,
+  MockErc20__factory,
+  MockPyth__factory,
+  OracleMiddleware__factory,
+  PerpStorage__factory,
+  PythAdapter__factory,
+} from "../../../typechain";
+import assetClasses from "../entities/asset-classes";
+import marketRegistry, {
+  AssetClass,
+  getEcoPythAssets,
+  getRegistryAsset,
+  getRegistryAssetId,
+} from "../entities/market-registry";
+import { getAddressBookEntry, loadConfig } from "./config";
+import { InputEntry, readInputEntry } from "./input-file";
+import { priceToClosestTick } from "./price";
+
+const BPS = 10000;
+// OracleMiddleware market status
+const MARKET_ACTIVE = 2;
+// EcoPyth2 prices have no confidence interval
+const CONFIDENCE_THRESHOLD_E6 = 2500;
+// As test/integration/02_BaseIntTest_SetConfig.i.sol
+const MOVING_WINDOW = { length: 15, interval: 60 };
+
+export type LocalSeedCollateral = {
+  symbol: string;
+  // Address book key of the mock
+  token: string;
+  assetId: string;
+  decimals: number;
+  isStableCoin: boolean;
+  collateralFactorBPS: number;
+  // Not accepted in HLP when undefined
+  hlpTargetWeight?: ethers.BigNumber;
+  // Minted to every funded account
+  amount: ethers.BigNumber;
+};
+
+export type LocalSeedMarket = {
+  index: number;
+  config: {
+    assetId: string;
+    maxLongPositionSize: ethers.BigNumber;
+    maxShortPositionSize: ethers.BigNumber;
+    increasePositionFeeRateBPS: number;
+    decreasePositionFeeRateBPS: number;
+    initialMarginFractionBPS: number;
+    maintenanceMarginFractionBPS: number;
+    maxProfitRateBPS: number;
+    assetClass: number;
+    allowIncreasePosition: boolean;
+    active: boolean;
+    fundingRate: { maxSkewScaleUSD: ethers.BigNumber; maxFundingRate: ethers.BigNumber };
+  };
+};
+
+export type LocalSeed = {
+  accounts: { count: number; ether: ethers.BigNumber };
+  // USD price of every EcoPyth asset of the registry, in EcoPyth order
+  prices: Array<{ symbol: string; assetId: string; price: number }>;
+  trustPriceAge: number;
+  collaterals: Array<LocalSeedCollateral>;
+  liquidityConfig: {
+    hlpTotalTokenWeight: number;
+    hlpSafetyBufferBPS: number;
+    taxFeeRateBPS: number;
+    flashLoanFeeRateBPS: number;
+    maxHLPUtilizationBPS: number;
+    depositFeeRateBPS: number;
+    withdrawFeeRateBPS: number;
+    dynamicFeeEnabled: boolean;
+    enabled: boolean;
+  };
+  swapConfig: { stablecoinSwapFeeRateBPS: number; swapFeeRateBPS: number };
+  tradingConfig: { fundingInterval: number; minProfitDuration: number; devFeeRateBPS: number; maxPosition: number };
+  liquidationConfig: { liquidationFeeUSDE30: ethers.BigNumber };
+  pnlFactorBPS: number;
+  minimumPositionSize: ethers.BigNumber;
+  // By asset class index
+  assetClassConfigs: Array<{ baseBorrowingRate: ethers.BigNumber }>;
+  // By market index
+  markets: Array<LocalSeedMarket>;
+};
+
+function _readCollateral(entry: InputEntry): LocalSeedCollateral {
+  const symbol = entry.string("symbol");
+  const collateral = marketRegistry.collaterals[symbol];
+  if (!collateral) throw new Error(`[utils/local-seed] ${entry.where}.symbol: ${symbol} is not a registry collateral`);
+  return {
+    symbol,
+    token: entry.string("token"),
+    assetId: getRegistryAssetId(getRegistryAsset(collateral.asset)),
+    decimals: collateral.decimals,
+    isStableCoin: entry.boolean("stablecoin"),
+    collateralFactorBPS: entry.percentBps("collateralFactor", BPS),
+    hlpTargetWeight: entry.has("hlpTargetWeight") ? entry.percentE18("hlpTargetWeight") : undefined,
+    amount: entry.units("amount", collateral.decimals),
+  };
+}
+
+function _readMarket(classes: InputEntry, index: number): LocalSeedMarket {
+  const market = marketRegistry.markets.find((each) => each.index === index)!;
+  const defaults = classes.entry(market.assetClass).entry("market");
+  const config = {
+    assetId: getRegistryAssetId(getRegistryAsset(market.asset)),
+    maxLongPositionSize: defaults.usdE30("maxLongPositionSizeUSD"),
+    maxShortPositionSize: defaults.usdE30("maxShortPositionSizeUSD"),
+    increasePositionFeeRateBPS: defaults.percentBps("increasePositionFee", BPS),
+    decreasePositionFeeRateBPS: defaults.percentBps("decreasePositionFee", BPS),
+    initialMarginFractionBPS: defaults.leverageImfBps("maxLeverage"),
+    maintenanceMarginFractionBPS: defaults.percentBps("maintenanceMarginFraction", BPS),
+    maxProfitRateBPS: defaults.percentBps("maxProfit"),
+    assetClass: assetClasses[market.assetClass],
+    allowIncreasePosition: true,
+    active: true,
+    fundingRate: {
+      maxSkewScaleUSD: defaults.entry("fundingRate").usdE30("maxSkewScaleUSD"),
+      maxFundingRate: defaults.entry("fundingRate").percentE18("maxFundingRatePerDay"),
+    },
+  };
+  if (config.maintenanceMarginFractionBPS >= config.initialMarginFractionBPS)
+    throw new Error(`[utils/local-seed] ${defaults.where}: maintenance margin must be below the initial margin`);
+  return { index, config };
+}
+
+/**
+ * Reads the seed of a local deployment, see configs/inputs/Local/bootstrap.yaml. Every market
+ * of the market registry is configured from the defaults of its asset class.
+ */
+export function readLocalSeed(filePath: string): LocalSeed {
+  const input = readInputEntry(filePath);
+
+  const prices = input.entry("prices");
+  const ecoPythAssets = getEcoPythAssets();
+  const unknown = Object.keys(prices.raw).filter((symbol) => !ecoPythAssets.some((asset) => asset.symbol === symbol));
+  if (unknown.length > 0)
+    throw new Error(`[utils/local-seed] ${prices.where}: ${unknown.join(", ")} not priced by EcoPyth in the registry`);
+
+  const collaterals = input.entries("collaterals").map(_readCollateral);
+  const hlpWeight = collaterals.reduce(
+    (sum, collateral) => sum.add(collateral.hlpTargetWeight || 0),
+    ethers.BigNumber.from(0)
+  );
+  if (!hlpWeight.eq(ethers.utils.parseEther("1")))
+    throw new Error(
+      `[utils/local-seed] ${input.where}.collaterals: hlpTargetWeight adds up to ${ethers.utils.formatUnits(
+        hlpWeight,
+        16
+      )}%, expected 100%`
+    );
+
+  const classes = input.entry("assetClasses");
+  const classNames = (Object.keys(assetClasses) as Array<AssetClass>).sort((a, b) => assetClasses[a] - assetClasses[b]);
+  const marketIndexes = marketRegistry.markets.map((market) => market.index).sort((a, b) => a - b);
+  // Markets can only be appended, the registry has to have every index
+  if (marketIndexes.some((index, i) => index !== i))
+    throw new Error("[utils/local-seed] Market indexes of the registry are not contiguous");
+
+  const liquidity = input.entry("liquidity");
+  const swap = input.entry("swap");
+  const trading = input.entry("trading");
+  return {
+    accounts: {
+      count: input.entry("accounts").integer("count", 1),
+      ether: input.entry("accounts").units("ether", 18),
+    },
+    prices: ecoPythAssets.map((asset) => ({
+      symbol: asset.symbol,
+      assetId: getRegistryAssetId(asset),
+      price: prices.has(asset.symbol) ? Number(ethers.utils.formatUnits(prices.units(asset.symbol, 8), 8)) : 1,
+    })),
+    trustPriceAge: input.integer("trustPriceAgeSeconds", 1, 2 ** 32 - 1),
+    collaterals,
+    liquidityConfig: {
+      // Recomputed by ConfigStorage from the HLP tokens
+      hlpTotalTokenWeight: 0,
+      hlpSafetyBufferBPS: liquidity.percentBps("hlpSafetyBuffer", BPS),
+      taxFeeRateBPS: liquidity.percentBps("taxFee", BPS),
+      flashLoanFeeRateBPS: liquidity.percentBps("flashLoanFee", BPS),
+      maxHLPUtilizationBPS: liquidity.percentBps("maxHLPUtilization", BPS),
+      depositFeeRateBPS: liquidity.percentBps("depositFee", BPS),
+      withdrawFeeRateBPS: liquidity.percentBps("withdrawFee", BPS),
+      dynamicFeeEnabled: liquidity.boolean("dynamicFeeEnabled"),
+      enabled: liquidity.boolean("enabled"),
+    },
+    swapConfig: {
+      stablecoinSwapFeeRateBPS: swap.percentBps("stablecoinSwapFee", BPS),
+      swapFeeRateBPS: swap.percentBps("swapFee", BPS),
+    },
+    tradingConfig: {
+      fundingInterval: trading.integer("fundingIntervalSeconds", 1),
+      minProfitDuration: trading.integer("minProfitDurationSeconds"),
+      devFeeRateBPS: trading.percentBps("devFee", BPS),
+      maxPosition: trading.integer("maxPosition", 1, 255),
+    },
+    liquidationConfig: { liquidationFeeUSDE30: input.usdE30("liquidationFeeUSD") },
+    pnlFactorBPS: input.percentBps("pnlFactor", BPS),
+    minimumPositionSize: input.usdE30("minimumPositionSizeUSD"),
+    assetClassConfigs: classNames.map((name) => ({
+      baseBorrowingRate: classes.entry(name).percentE18("baseBorrowingRate"),
+    })),
+    markets: marketIndexes.map((index) => _readMarket(classes, index)),
+  };
+}
+
+function _lookup(config: any, key: string): string {
+  const address = getAddressBookEntry(config, key);
+  if (!address) throw new Error(`[utils/local-seed] ${key} is not in the address book, deploy the stack first`);
+  return address;
+}
+
+async function _send(label: string, tx: Promise<ethers.ContractTransaction>) {
+  console.log(`[utils/local-seed] ${label}...`);
+  await (await tx).wait();
+}
+
+/**
+ * Configures a freshly deployed local stack: the global configs, the collaterals and HLP tokens,
+ * every market of the registry, and the oracles. Prices are fed through EcoPyth2, which the
+ * PythAdapter and the OracleMiddleware read from, and to the MockPyth standing in for Pyth.
+ *
+ * Safe to run again: configs are set over, markets and EcoPyth2 asset ids that are already
+ * there are left as is and prices are fed fresh.
+ */
+export async function seedLocalDeployment(chainId: number, signer: ethers.Signer, seed: LocalSeed) {
+  const config = loadConfig(chainId);
+  const signerAddress = await signer.getAddress();
+  const configStorage = ConfigStorage__factory.connect(_lookup(config, "storages.config"), signer);
+  const perpStorage = PerpStorage__factory.connect(_lookup(config, "storages.perp"), signer);
+  const ecoPyth = EcoPyth2__factory.connect(_lookup(config, "oracles.ecoPyth2"), signer);
+  const pythAdapter = PythAdapter__factory.connect(_lookup(config, "oracles.pythAdapter"), signer);
+  const middleware = OracleMiddleware__factory.connect(_lookup(config, "oracles.middleware"), signer);
+
+  await _send("Setting liquidity config", configStorage.setLiquidityConfig(seed.liquidityConfig));
+  await _send("Setting swap config", configStorage.setSwapConfig(seed.swapConfig));
+  await _send("Setting trading config", configStorage.setTradingConfig(seed.tradingConfig));
+  await _send("Setting liquidation config", configStorage.setLiquidationConfig(seed.liquidationConfig));
+  await _send("Setting PnL factor", configStorage.setPnlFactor(seed.pnlFactorBPS));
+  await _send("Setting minimum position size", configStorage.setMinimumPositionSize(seed.minimumPositionSize));
+  await _send(
+    "Setting moving window config",
+    perpStorage.setMovingWindowConfig(MOVING_WINDOW.length, MOVING_WINDOW.interval)
+  );
+
+  const assetClassCount = (await configStorage.getAssetClassConfigsLength()).toNumber();
+  for (let i = 0; i < seed.assetClassConfigs.length; i++)
+    await _send(
+      `Setting asset class ${i}`,
+      i < assetClassCount
+        ? configStorage.setAssetClassConfigByIndex(i, seed.assetClassConfigs[i])
+        : configStorage.addAssetClassConfig(seed.assetClassConfigs[i])
+    );
+
+  const tokens = seed.collaterals.map((collateral) => _lookup(config, collateral.token));
+  await _send(
+    "Setting collateral asset configs",
+    configStorage.setAssetConfigs(
+      seed.collaterals.map((collateral) => collateral.assetId),
+      seed.collaterals.map((collateral, i) => ({
+        tokenAddress: tokens[i],
+        assetId: collateral.assetId,
+        decimals: collateral.decimals,
+        isStableCoin: collateral.isStableCoin,
+      }))
+    )
+  );
+  await _send(
+    "Setting collateral token configs",
+    configStorage.setCollateralTokenConfigs(
+      seed.collaterals.map((collateral) => collateral.assetId),
+      seed.collaterals.map((collateral) => ({
+        settleStrategy: ethers.constants.AddressZero,
+        collateralFactorBPS: collateral.collateralFactorBPS,
+        accepted: true,
+      }))
+    )
+  );
+  const hlpCollaterals = seed.collaterals.filter((collateral) => collateral.hlpTargetWeight);
+  await _send(
+    `Accepting ${hlpCollaterals.map((collateral) => collateral.symbol).join(", ")} in HLP`,
+    configStorage.addOrUpdateAcceptedToken(
+      hlpCollaterals.map((collateral) => tokens[seed.collaterals.indexOf(collateral)]),
+      hlpCollaterals.map((collateral) => ({
+        targetWeight: collateral.hlpTargetWeight!,
+        bufferLiquidity: 0,
+        // Weights are not enforced locally
+        maxWeightDiff: ethers.utils.parseEther("1000"),
+        accepted: true,
+      }))
+    )
+  );
+
+  const marketCount = (await configStorage.getMarketConfigsLength()).toNumber();
+  for (const market of seed.markets.slice(0, marketCount)) {
+    const existing = await configStorage.marketConfigs(market.index);
+    if (existing.assetId !== market.config.assetId)
+      throw new Error(
+        `[utils/local-seed] Market ${market.index} is ${ethers.utils.parseBytes32String(
+          existing.assetId
+        )} on chain, the registry has ${ethers.utils.parseBytes32String(market.config.assetId)}`
+      );
+  }
+  for (const market of seed.markets.slice(marketCount))
+    await _send(
+      `Adding market ${market.index} ${ethers.utils.parseBytes32String(market.config.assetId)}`,
+      configStorage.addMarketConfig(market.config, false)
+    );
+
+  // EcoPyth2 indexes are append only and have to follow the registry, after its placeholder
+  const assetIds = seed.prices.map((price) => price.assetId);
+  const onChainAssetIds: Array<string> = (await ecoPyth.getAssetIds()).slice(1);
+  onChainAssetIds.forEach((assetId, i) => {
+    if (assetId !== assetIds[i])
+      throw new Error(`[utils/local-seed] EcoPyth2 asset id ${i} is ${assetId}, the registry has ${assetIds[i]}`);
+  });
+  if (onChainAssetIds.length < assetIds.length)
+    await _send(
+      `Inserting ${assetIds.length - onChainAssetIds.length} asset ids in EcoPyth2`,
+      ecoPyth.insertAssetIds(assetIds.slice(onChainAssetIds.length))
+    );
+  await _send(
+    "Setting PythAdapter configs",
+    pythAdapter.setConfigs(
+      assetIds,
+      assetIds,
+      assetIds.map(() => false)
+    )
+  );
+  await _send(
+    "Setting OracleMiddleware asset price configs",
+    middleware.setAssetPriceConfigs(
+      assetIds,
+      assetIds.map(() => CONFIDENCE_THRESHOLD_E6),
+      assetIds.map(() => seed.trustPriceAge),
+      assetIds.map(() => pythAdapter.address)
+    )
+  );
+  if (!(await middleware.isUpdater(signerAddress)))
+    await _send("Setting OracleMiddleware updater", middleware.setUpdater(signerAddress, true));
+  const marketAssetIds = [...new Set(seed.markets.map((market) => market.config.assetId))];
+  await _send(
+    "Opening markets",
+    middleware.setMultipleMarketStatus(
+      marketAssetIds,
+      marketAssetIds.map(() => MARKET_ACTIVE)
+    )
+  );
+
+  if (!(await ecoPyth.isUpdaters(signerAddress)))
+    await _send("Setting EcoPyth2 updater", ecoPyth.setUpdater(signerAddress, true));
+  await feedLocalPrices(chainId, signer, seed);
+}
+
+/**
+ * Feeds the prices of the seed to EcoPyth2 and MockPyth, as published now. They go stale after
+ * the trusted price age of the seed.
+ */
+export async function feedLocalPrices(chainId: number, signer: ethers.Signer, seed: LocalSeed) {
+  const config = loadConfig(chainId);
+  const ecoPyth = EcoPyth2__factory.connect(_lookup(config, "oracles.ecoPyth2"), signer);
+  const latestBlock = await signer.provider!.getBlock("latest");
+  const priceUpdateData = await ecoPyth.buildPriceUpdateData(seed.prices.map((each) => priceToClosestTick(each.price)));
+  const publishTimeDiffUpdateData = await ecoPyth.buildPublishTimeUpdateData(seed.prices.map(() => 0));
+  await _send(
+    `Feeding ${seed.prices.length} prices`,
+    ecoPyth.updatePriceFeeds(
+      priceUpdateData,
+      publishTimeDiffUpdateData,
+      latestBlock.timestamp,
+      ethers.constants.HashZero
+    )
+  );
+
+  const mockPyth = MockPyth__factory.connect(_lookup(config, "oracles.pyth"), signer);
+  const updateData = await Promise.all(
+    seed.prices.map((each) => {
+      const priceE8 = ethers.utils.parseUnits(each.price.toFixed(8), 8);
+      return mockPyth.createPriceFeedUpdateData(each.assetId, priceE8, 0, -8, priceE8, 0, latestBlock.timestamp);
+    })
+  );
+  await _send(
+    `Feeding ${seed.prices.length} prices to MockPyth`,
+    mockPyth.updatePriceFeeds(updateData, { value: await mockPyth.getUpdateFee(updateData) })
+  );
+}
+
+/**
+ * Tops every account up to the ether and the collateral amounts of the seed. Ether is sent by
+ * `funder`, the mocks mint to anyone.
+ */
+export async function fundLocalAccounts(
+  chainId: number,
+  funder: ethers.Signer,
+  accounts: Array<string>,
+  seed: LocalSeed
+) {
+  const config = loadConfig(chainId);
+  for (const account of accounts) {
+    const balance = await funder.provider!.getBalance(account);
+    if (balance.lt(seed.accounts.ether)) {
+      console.log(
+        `[utils/local-seed] Sending ${ethers.utils.formatEther(seed.accounts.ether.sub(balance))} ETH to ${account}...`
+      );
+      await (await funder.sendTransaction({ to: account, value: seed.accounts.ether.sub(balance) })).wait();
+    }
+    for (const collateral of seed.collaterals) {
+      const token = MockErc20__factory.connect(_lookup(config, collateral.token), funder);
+      const tokenBalance: ethers.BigNumber = await token.balanceOf(account);
+      if (tokenBalance.gte(collateral.amount)) continue;
+      const amount = collateral.amount.sub(tokenBalance);
+      await _send(
+        `Minting ${ethers.utils.formatUnits(amount, collateral.decimals)} ${collateral.symbol} to ${account}`,
+        token.mint(account, amount)
+      );
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import marketRegistry, { getEcoPythAssets, getRegistryAssetId, RegistryMarket } from "../entities/market-registry";
+import {
+  ecoPythAssetIdByIndex,
+  ecoPythHoomanReadableByIndex,
+  ecoPythPriceFeedIdsByIndex,
+} from "../constants/eco-pyth-index";
+import { Config } from "../entities/config-schema";
+import { getNetworkByChainId, resolveRepoPath } from "./network";
+
+export const PRICE_FEED_CONFIG_PATH = "configs/.pricefeed.mainnet.json";
+
+function _marketJson(market: RegistryMarket) {
+  const assetId = getRegistryAssetId(
+    marketRegistry.assets.find((asset) => asset.symbol === market.asset) || { symbol: market.asset }
+  );
+  // Keeps the key order of the file consumed by the frontend
+  return {
+    index: market.index,
+    name: market.name,
+    assetId,
+    quotedAssetId: market.quotedAssetId,
+    slug: market.slug,
+    assetSymbol: market.assetSymbol,
+    quotedAssetSymbol: market.quotedAssetSymbol,
+    sortIndex: market.sortIndex,
+  };
+}
+
+function _readCheckedInJson(path: string): any {
+  const filePath = resolveRepoPath(path);
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, "utf8")) : undefined;
+}
+
+// Sorts entries in the order of the checked in file, new entries go last in registry order
+function _inCheckedInOrder<T>(items: Array<T>, checkedInKeys: Array<string>, key: (item: T) => string): Array<T> {
+  const position = (item: T) => {
+    const i = checkedInKeys.indexOf(key(item));
+    return i === -1 ? checkedInKeys.length : i;
+  };
+  return [...items].sort((a, b) => position(a) - position(b));
+}
+
+export function buildMarketConfigJson() {
+  const checkedIn = _readCheckedInJson(getNetworkByChainId(marketRegistry.chainId).marketConfigPath!);
+  return {
+    markets: marketRegistry.markets.map(_marketJson),
+    assets: _inCheckedInOrder(
+      marketRegistry.assets,
+      Object.keys(checkedIn?.assets || {}),
+      (asset) => asset.symbol
+    ).reduce((acc, asset) => {
+      acc[asset.symbol] = getRegistryAssetId(asset);
+      return acc;
+    }, {} as { [symbol: string]: string }),
+  };
+}
+
+export function buildPriceFeedJson() {
+  const checkedIn = _readCheckedInJson(PRICE_FEED_CONFIG_PATH);
+  const priceFeeds = getEcoPythAssets()
+    .filter((asset) => asset.legacyPriceFeed)
+    .map((asset) => ({
+      symbol: asset.legacyPriceFeed!.symbol,
+      assetId: getRegistryAssetId(asset),
+      pythPriceId: (asset.price as { pythPriceId: string }).pythPriceId,
+      isInverse: asset.legacyPriceFeed!.isInverse,
+    }));
+  return {
+    glpAssetId: ethers.utils.formatBytes32String(marketRegistry.glpAsset),
+    priceFeeds: _inCheckedInOrder(
+      priceFeeds,
+      (checkedIn?.priceFeeds || []).map((priceFeed: { symbol: string }) => priceFeed.symbol),
+      (priceFeed) => priceFeed.symbol
+    ),
+  };
+}
+
+// Files generated from the registry, with the same formatting as the checked in files
+export function getGeneratedRegistryFiles(): Array<{ path: string; content: string }> {
+  return [
+    { path: getNetworkByChainId(marketRegistry.chainId).marketConfigPath!, content: buildMarketConfigJson() },
+    { path: PRICE_FEED_CONFIG_PATH, content: buildPriceFeedJson() },
+  ].map((file) => ({ path: file.path, content: `${JSON.stringify(file.content, null, 2)}\n` }));
+}
+
+export function isGeneratedFileUpToDate(file: { path: string; content: string }): boolean {
+  const filePath = resolveRepoPath(file.path);
+  return fs.existsSync(filePath) && fs.readFileSync(filePath, "utf8") === file.content;
+}
+
+function _duplicates(values: Array<string>): Array<string> {
+  return [...new Set(values.filter((value, i) => values.indexOf(value) !== i))];
+}
+
+/**
+ * Checks the registry against itself and the address book, without touching the chain.
+ * Returns one message per problem found.
+ */
+export function checkRegistry(config: Config): Array<string> {
+  const problems: Array<string> = [];
+  const assetsBySymbol = new Map(marketRegistry.assets.map((asset) => [asset.symbol, asset]));
+
+  for (const symbol of _duplicates(marketRegistry.assets.map((asset) => asset.symbol)))
+    problems.push(`asset ${symbol} is declared more than once`);
+  for (const assetId of _duplicates(marketRegistry.assets.map((asset) => getRegistryAssetId(asset).toLowerCase())))
+    problems.push(`asset id ${assetId} is used by more than one asset`);
+
+  // EcoPyth indexes
+  const ecoPythAssets = getEcoPythAssets();
+  ecoPythAssets.forEach((asset, i) => {
+    if (asset.ecoPythIndex !== i)
+      problems.push(`${asset.symbol} has EcoPyth index ${asset.ecoPythIndex}, expected ${i}`);
+    if (!asset.price) problems.push(`${asset.symbol} has an EcoPyth index but no price source`);
+  });
+  for (const asset of marketRegistry.assets) {
+    if (asset.price && asset.ecoPythIndex === undefined)
+      problems.push(`${asset.symbol} has a price source but no EcoPyth index`);
+  }
+  const pythPriceIds = ecoPythAssets
+    .filter((asset) => asset.price && "pythPriceId" in asset.price)
+    .map((asset) => (asset.price as { pythPriceId: string }).pythPriceId.toLowerCase());
+  for (const priceId of _duplicates(pythPriceIds)) problems.push(`Pyth price id ${priceId} is used more than once`);
+
+  // Arrays consumed by the price feeders
+  if (
+    ecoPythPriceFeedIdsByIndex.length !== ecoPythAssetIdByIndex.length ||
+    ecoPythAssetIdByIndex.length !== ecoPythHoomanReadableByIndex.length
+  ) {
+    problems.push(
+      `EcoPyth arrays are misaligned: ${ecoPythPriceFeedIdsByIndex.length} price ids, ${ecoPythAssetIdByIndex.length} asset ids, ${ecoPythHoomanReadableByIndex.length} names`
+    );
+  }
+  ecoPythAssetIdByIndex.forEach((assetId, i) => {
+    if (getRegistryAssetId(assetsBySymbol.get(ecoPythHoomanReadableByIndex[i])!) !== assetId)
+      problems.push(`EcoPyth index ${i}: asset id does not belong to ${ecoPythHoomanReadableByIndex[i]}`);
+  });
+
+  // Markets
+  marketRegistry.markets.forEach((market, i) => {
+    if (market.index !== i) problems.push(`market ${market.name} has index ${market.index}, expected ${i}`);
+    const asset = assetsBySymbol.get(market.asset);
+    if (!asset) {
+      problems.push(`market ${market.name} references unknown asset ${market.asset}`);
+      return;
+    }
+    if (!asset.price) {
+      problems.push(`market ${market.name}: ${asset.symbol} has neither a Pyth feed nor a price adapter`);
+      return;
+    }
+    if ("priceAdapter" in asset.price) {
+      const adapter = config.oracles.priceAdapters[asset.price.priceAdapter];
+      if (!adapter || adapter === ethers.constants.AddressZero)
+        problems.push(
+          `market ${market.name}: price adapter oracles.priceAdapters.${asset.price.priceAdapter} is not deployed`
+        );
+    }
+  });
+
+  // Collaterals
+  for (const [symbol, collateral] of Object.entries(marketRegistry.collaterals)) {
+    const asset = assetsBySymbol.get(collateral.asset);
+    if (!asset) problems.push(`collateral ${symbol} references unknown asset ${collateral.asset}`);
+    else if (!asset.price) problems.push(`collateral ${symbol}: ${asset.symbol} is not priced by EcoPyth`);
+  }
+
+  return problems;
+}
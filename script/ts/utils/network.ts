@@ -0,0 +1,20 @@
+import path from "path";
+import networks, { NetworkEntity } from "../entities/networks";
+
+export const REPO_ROOT = path.join(__dirname, "../../..");
+
+export function getNetworkByChainId(chainId: number): NetworkEntity {
+  const network = networks.find((n) => n.chainId === chainId);
+  if (!network) throw new Error(`[utils/network] Unknown chain id ${chainId}`);
+  return network;
+}
+
+export function getNetworkByName(name: string): NetworkEntity {
+  const network = networks.find((n) => n.name === name || n.hardhatNetworks.includes(name));
+  if (!network) throw new Error(`[utils/network] Unknown network ${name}`);
+  return network;
+}
+
+export function resolveRepoPath(relativePath: string): string {
+  return path.join(REPO_ROOT, relativePath);
+}
@@ -0,0 +1,259 @@
+import { ethers } from "ethers";
+import { abi as TimelockAbi } from "../../../abis/Timelock.json";
+import { compareAddress } from "./address";
+import { listAddressBook, loadConfig } from "./config";
+import { readInputEntry } from "./input-file";
+import { getSafeAbi } from "./safe-offline";
+
+// EIP-1967 admin slot, bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1)
+const ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+const NONE = "none";
+const IGNORE = "ignore";
+
+export type OwnershipRoles = { [role: string]: string };
+
+/**
+ * Expected ownership, by role (safe, timelock, proxyAdmin, deployer) or address. `none` expects
+ * no owner, `ignore` skips the check. Owner rules are keyed by address book patterns where `*`
+ * stands for one segment of the key, the most specific pattern wins.
+ */
+export type OwnershipPolicy = {
+  owner: { [pattern: string]: string };
+  proxyAdmin: string;
+  timelockAdmin: string;
+  safe: { minThreshold: number; minOwners: number };
+  forbiddenOwners: Array<string>;
+};
+
+export type OwnershipRecord = {
+  key: string;
+  address: string;
+  hasCode: boolean;
+  // Undefined when the contract has no owner()
+  owner?: string;
+  // Undefined when the contract is not an EIP-1967 proxy
+  proxyAdmin?: string;
+};
+
+export type GovernanceState = {
+  timelockAdmin: string;
+  timelockPendingAdmin: string;
+  safeOwners: Array<string>;
+  safeThreshold: number;
+};
+
+export type OwnershipDeviation = {
+  key: string;
+  address: string;
+  check: string;
+  expected: string;
+  actual: string;
+};
+
+export function readOwnershipPolicy(filePath: string): OwnershipPolicy {
+  const input = readInputEntry(filePath);
+  const owner = input.entry("owner");
+  const safe = input.entry("safe");
+  const forbiddenOwners = input.has("forbiddenOwners") ? input.raw.forbiddenOwners : [];
+  if (!Array.isArray(forbiddenOwners) || forbiddenOwners.some((o) => typeof o !== "string"))
+    throw new Error(`[utils/ownership-audit] ${filePath}: forbiddenOwners has to be a list of roles or addresses`);
+  return {
+    owner: Object.keys(owner.raw).reduce((rules, pattern) => {
+      rules[pattern] = owner.string(pattern);
+      return rules;
+    }, {} as { [pattern: string]: string }),
+    proxyAdmin: input.string("proxyAdmin"),
+    timelockAdmin: input.string("timelockAdmin"),
+    safe: { minThreshold: safe.integer("minThreshold", 1), minOwners: safe.integer("minOwners", 1) },
+    forbiddenOwners,
+  };
+}
+
+function _specificity(pattern: string, key: string): number {
+  const patternSegments = pattern.split(".");
+  const keySegments = key.split(".");
+  if (patternSegments.length !== keySegments.length) return -1;
+  let literal = 0;
+  for (let i = 0; i < patternSegments.length; i++) {
+    if (patternSegments[i] === "*") continue;
+    if (patternSegments[i] !== keySegments[i]) return -1;
+    literal++;
+  }
+  return literal;
+}
+
+export function matchOwnerRule(policy: OwnershipPolicy, key: string): string | undefined {
+  let best: { specificity: number; expected: string } | undefined;
+  for (const [pattern, expected] of Object.entries(policy.owner)) {
+    const specificity = _specificity(pattern, key);
+    if (specificity >= 0 && (!best || specificity >= best.specificity)) best = { specificity, expected };
+  }
+  return best ? best.expected : undefined;
+}
+
+export function getOwnershipRoles(chainId: number, deployer?: string): OwnershipRoles {
+  const config = loadConfig(chainId);
+  const roles: OwnershipRoles = { safe: config.safe, timelock: config.timelock, proxyAdmin: config.proxyAdmin };
+  if (deployer) roles.deployer = deployer;
+  return roles;
+}
+
+function _resolve(roles: OwnershipRoles, expected: string): string | undefined {
+  if (expected === NONE || expected === IGNORE) return expected;
+  if (ethers.utils.isAddress(expected)) return expected;
+  return roles[expected];
+}
+
+function _name(roles: OwnershipRoles, address?: string): string {
+  if (!address || address === ethers.constants.AddressZero) return NONE;
+  const role = Object.keys(roles).find((r) => compareAddress(roles[r], address));
+  return role ? `${role} (${address})` : address;
+}
+
+async function _readAddress(
+  provider: ethers.providers.Provider,
+  address: string,
+  getter: string
+): Promise<string | undefined> {
+  try {
+    return await new ethers.Contract(address, [`function ${getter}() view returns (address)`], provider)[getter]();
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the owner and the proxy admin of every address of the address book.
+ */
+export async function readOwnership(
+  chainId: number,
+  provider: ethers.providers.Provider
+): Promise<Array<OwnershipRecord>> {
+  const records: Array<OwnershipRecord> = [];
+  for (const { key, address } of listAddressBook(chainId)) {
+    const [code, owner, adminSlot] = await Promise.all([
+      provider.getCode(address),
+      _readAddress(provider, address, "owner"),
+      provider.getStorageAt(address, ADMIN_SLOT),
+    ]);
+    const proxyAdmin = ethers.utils.hexDataSlice(adminSlot, 12);
+    records.push({
+      key,
+      address,
+      hasCode: code !== "0x",
+      owner,
+      proxyAdmin: ethers.BigNumber.from(proxyAdmin).isZero() ? undefined : ethers.utils.getAddress(proxyAdmin),
+    });
+  }
+  return records;
+}
+
+export async function readGovernanceState(
+  chainId: number,
+  provider: ethers.providers.Provider
+): Promise<GovernanceState> {
+  const config = loadConfig(chainId);
+  const timelock = new ethers.Contract(config.timelock, TimelockAbi, provider);
+  const safe = new ethers.Contract(config.safe, getSafeAbi(), provider);
+  const [timelockAdmin, timelockPendingAdmin, safeOwners, safeThreshold] = await Promise.all([
+    timelock.admin(),
+    timelock.pendingAdmin(),
+    safe.getOwners(),
+    safe.getThreshold(),
+  ]);
+  return { timelockAdmin, timelockPendingAdmin, safeOwners, safeThreshold: safeThreshold.toNumber() };
+}
+
+/**
+ * Compares what was read on chain against the policy and returns every deviation.
+ */
+export function auditOwnership(
+  policy: OwnershipPolicy,
+  roles: OwnershipRoles,
+  records: Array<OwnershipRecord>,
+  governance: GovernanceState
+): Array<OwnershipDeviation> {
+  const deviations: Array<OwnershipDeviation> = [];
+  const expect = (record: { key: string; address: string }, check: string, expected: string, actual?: string) => {
+    const resolved = _resolve(roles, expected);
+    if (resolved === IGNORE) return;
+    const ok =
+      resolved === NONE
+        ? !actual || actual === ethers.constants.AddressZero
+        : resolved !== undefined && compareAddress(resolved, actual || "");
+    if (ok) return;
+    deviations.push({
+      key: record.key,
+      address: record.address,
+      check,
+      expected:
+        resolved === undefined ? `${expected} (unknown role)` : resolved === NONE ? NONE : _name(roles, resolved),
+      actual: _name(roles, actual),
+    });
+  };
+
+  for (const record of records) {
+    const ownerRule = matchOwnerRule(policy, record.key);
+    if (ownerRule === IGNORE) continue;
+    if (!record.hasCode) {
+      deviations.push({
+        key: record.key,
+        address: record.address,
+        check: "code",
+        expected: "a contract",
+        actual: "no code",
+      });
+      continue;
+    }
+    if (ownerRule !== undefined) expect(record, "owner()", ownerRule, record.owner);
+    if (record.proxyAdmin) expect(record, "proxy admin", policy.proxyAdmin, record.proxyAdmin);
+    for (const forbidden of policy.forbiddenOwners) {
+      const address = roles[forbidden] || (ethers.utils.isAddress(forbidden) ? forbidden : undefined);
+      if (address && record.owner && compareAddress(record.owner, address))
+        deviations.push({
+          key: record.key,
+          address: record.address,
+          check: "forbidden owner",
+          expected: `not ${forbidden}`,
+          actual: _name(roles, record.owner),
+        });
+    }
+  }
+
+  const timelockRecord = { key: "timelock", address: roles.timelock };
+  expect(timelockRecord, "admin()", policy.timelockAdmin, governance.timelockAdmin);
+  if (governance.timelockPendingAdmin !== ethers.constants.AddressZero)
+    deviations.push({
+      ...timelockRecord,
+      check: "pendingAdmin()",
+      expected: NONE,
+      actual: _name(roles, governance.timelockPendingAdmin),
+    });
+
+  const safeRecord = { key: "safe", address: roles.safe };
+  if (governance.safeThreshold < policy.safe.minThreshold)
+    deviations.push({
+      ...safeRecord,
+      check: "getThreshold()",
+      expected: `>= ${policy.safe.minThreshold}`,
+      actual: String(governance.safeThreshold),
+    });
+  if (governance.safeOwners.length < policy.safe.minOwners)
+    deviations.push({
+      ...safeRecord,
+      check: "getOwners()",
+      expected: `>= ${policy.safe.minOwners} owners`,
+      actual: `${governance.safeOwners.length} owners`,
+    });
+  for (const forbidden of policy.forbiddenOwners) {
+    const address = roles[forbidden];
+    if (address && governance.safeOwners.some((owner) => compareAddress(owner, address)))
+      deviations.push({
+        ...safeRecord,
+        check: "getOwners()",
+        expected: `not ${forbidden}`,
+        actual: _name(roles, address),
+      });
+  }
+  return deviations;
+}
@@ -0,0 +1,360 @@
+import { ethers } from "ethers";
+import { getAddressBookKey } from "./abi-decoder";
+import { compareAddress } from "./address";
+import { getAddressBookEntry, loadConfig } from "./config";
+import { InputEntry, readInputEntry } from "./input-file";
+
+/**
+ * A mapping granting access on a contract, e.g. `orderExecutors` of a handler. The mapping is
+ * keyed by `subjects` addresses and holds a flag or an address.
+ */
+export type PermissionSet = {
+  contractKey: string;
+  // Public mapping getter, also the name of the set in the manifest
+  getter: string;
+  subjects: 1 | 2;
+  valueType: "bool" | "address";
+  // The subjects come first in every event and the new value last
+  events: Array<string>;
+  // Takes the subjects then the value, or one array of each when batched
+  setter: string;
+  batchSetter: boolean;
+};
+
+export type PermissionValue = boolean | string;
+
+export type Permission = {
+  contractKey: string;
+  getter: string;
+  subject: Array<string>;
+  value: PermissionValue;
+};
+
+export type PermissionChange = Permission & { current: PermissionValue };
+
+export type PermissionManifest = {
+  labels: { [name: string]: string };
+  permissions: Array<Permission>;
+  // `contractKey.getter` of the sets the manifest declares, the others are left alone
+  managedSets: Array<string>;
+};
+
+export type PermissionTransaction = {
+  contractKey: string;
+  to: string;
+  data: string;
+  description: string;
+};
+
+function _flagSet(contractKey: string, getter: string, event: string, setter: string, batchSetter = false) {
+  return { contractKey, getter, subjects: 1, valueType: "bool", events: [event], setter, batchSetter } as PermissionSet;
+}
+
+const LOG_PAGE_BLOCKS = 1000000;
+
+const SERVICE_EXECUTOR_EVENT = "event LogSetServiceExecutor(address indexed executorAddress, bool isServiceExecutor)";
+const SERVICE_EXECUTOR_BATCH_SETTER = "function setServiceExecutorBatch(address[], bool[])";
+const ORDER_EXECUTOR_EVENT = "event LogSetOrderExecutor(address executor, bool isAllow)";
+const ORDER_EXECUTOR_SETTER = "function setOrderExecutor(address, bool)";
+const UPDATER_EVENT = "event LogSetUpdater(address indexed _account, bool _isActive)";
+const UPDATERS_SETTER = "function setUpdaters(address[], bool[])";
+const WHITELISTED_CALLER_EVENT = "event LogSetWhitelistedCaller(address indexed caller, bool isWhitelisted)";
+const WHITELISTED_CALLERS_SETTER = "function setWhitelistedCallers(address[], bool[])";
+const WHITELIST_EXECUTOR_SETTER = "function setWhitelistExecutor(address, bool)";
+const WHITELISTED_EXECUTOR_EVENT = "event LogSetWhitelistedExecutor(address indexed _account, bool _active)";
+const WHITELISTED_EXECUTOR_SETTER = "function setWhitelistedExecutor(address, bool)";
+
+export const PERMISSION_SETS: Array<PermissionSet> = [
+  {
+    contractKey: "storages.config",
+    getter: "serviceExecutors",
+    subjects: 2,
+    valueType: "bool",
+    events: [
+      "event LogSetServiceExecutor(address indexed contractAddress, address executorAddress, bool isServiceExecutor)",
+    ],
+    setter: "function setServiceExecutors(address[], address[], bool[])",
+    batchSetter: true,
+  },
+  _flagSet("storages.perp", "serviceExecutors", SERVICE_EXECUTOR_EVENT, SERVICE_EXECUTOR_BATCH_SETTER, true),
+  _flagSet("storages.vault", "serviceExecutors", SERVICE_EXECUTOR_EVENT, SERVICE_EXECUTOR_BATCH_SETTER, true),
+  {
+    contractKey: "storages.vault",
+    getter: "strategyAllowances",
+    subjects: 2,
+    valueType: "address",
+    events: [
+      "event LogSetStrategyAllowance(address indexed token, address strategy, address prevTarget, address newTarget)",
+    ],
+    setter: "function setStrategyAllowance(address, address, address)",
+    batchSetter: false,
+  },
+  _flagSet("handlers.crossMargin", "orderExecutors", ORDER_EXECUTOR_EVENT, ORDER_EXECUTOR_SETTER),
+  _flagSet("handlers.limitTrade", "orderExecutors", ORDER_EXECUTOR_EVENT, ORDER_EXECUTOR_SETTER),
+  _flagSet("handlers.liquidity", "orderExecutors", ORDER_EXECUTOR_EVENT, ORDER_EXECUTOR_SETTER),
+  _flagSet(
+    "handlers.ext01",
+    "orderExecutors",
+    "event LogSetOrderExecutor(address indexed executor, bool prevIsAllow, bool isAllow)",
+    ORDER_EXECUTOR_SETTER
+  ),
+  _flagSet(
+    "handlers.rebalanceHLP",
+    "whitelistExecutors",
+    "event LogSetWhitelistExecutor(address indexed _executor, bool _isAllow)",
+    WHITELIST_EXECUTOR_SETTER
+  ),
+  _flagSet(
+    "handlers.rebalanceHLPv2",
+    "whitelistExecutors",
+    "event LogSetWhitelistExecutor(address indexed _executor, bool _prevAllow, bool _isAllow)",
+    WHITELIST_EXECUTOR_SETTER
+  ),
+  _flagSet("oracles.middleware", "isUpdater", UPDATER_EVENT, "function setUpdater(address, bool)"),
+  _flagSet("oracles.ecoPyth", "isUpdaters", UPDATER_EVENT, UPDATERS_SETTER, true),
+  _flagSet("oracles.ecoPyth2", "isUpdaters", UPDATER_EVENT, UPDATERS_SETTER, true),
+  _flagSet("oracles.orderbook", "isUpdaters", UPDATER_EVENT, UPDATERS_SETTER, true),
+  _flagSet("hooks.tlc", "whitelistedCallers", WHITELISTED_CALLER_EVENT, WHITELISTED_CALLERS_SETTER, true),
+  _flagSet("hooks.tradingStaking", "whitelistedCallers", WHITELISTED_CALLER_EVENT, WHITELISTED_CALLERS_SETTER, true),
+  _flagSet("strategies.erc20Approve", "whitelistedExecutors", WHITELISTED_EXECUTOR_EVENT, WHITELISTED_EXECUTOR_SETTER),
+  _flagSet(
+    "strategies.distributeSTIPARB",
+    "whitelistedExecutors",
+    WHITELISTED_EXECUTOR_EVENT,
+    WHITELISTED_EXECUTOR_SETTER
+  ),
+];
+
+function _setId(set: { contractKey: string; getter: string }): string {
+  return `${set.contractKey}.${set.getter}`;
+}
+
+function _interface(set: PermissionSet): ethers.utils.Interface {
+  const getter = `function ${set.getter}(${set.subjects === 1 ? "address" : "address, address"}) view returns (${
+    set.valueType
+  })`;
+  return new ethers.utils.Interface([getter, set.setter, ...set.events]);
+}
+
+function _isDefault(value: PermissionValue): boolean {
+  return value === false || value === ethers.constants.AddressZero;
+}
+
+function _sameValue(a: PermissionValue, b: PermissionValue): boolean {
+  return typeof a === "string" && typeof b === "string" ? compareAddress(a, b) : a === b;
+}
+
+/**
+ * The permission sets of the chain, leaving out the contracts missing from its address book.
+ */
+export function getPermissionSets(chainId: number): Array<PermissionSet> {
+  const config = loadConfig(chainId);
+  return PERMISSION_SETS.filter((set) => getAddressBookEntry(config, set.contractKey));
+}
+
+/**
+ * Reads the manifest of expected permissions. It is keyed by contract then mapping, a flag mapping
+ * lists who is granted, keyed by the first subject when it has two, and an address mapping
+ * gives the value of each subject pair. Names are labels of the manifest, address book keys
+ * or addresses.
+ */
+export function readPermissionManifest(chainId: number, filePath: string): PermissionManifest {
+  const config = loadConfig(chainId);
+  const input = readInputEntry(filePath);
+  const labels: { [name: string]: string } = {};
+  if (input.has("labels")) {
+    const entry = input.entry("labels");
+    for (const name of Object.keys(entry.raw)) labels[name] = entry.address(name);
+  }
+  const resolve = (where: string, name: any): string => {
+    if (typeof name !== "string") throw new Error(`[utils/permission-audit] ${where}: expected a name or an address`);
+    const address =
+      labels[name] || getAddressBookEntry(config, name) || (ethers.utils.isAddress(name) ? name : undefined);
+    if (!address)
+      throw new Error(
+        `[utils/permission-audit] ${where}: ${name} is neither a label, an address book key nor an address`
+      );
+    return ethers.utils.getAddress(address);
+  };
+  const list = (where: string, value: any): Array<string> => {
+    if (!Array.isArray(value)) throw new Error(`[utils/permission-audit] ${where}: expected a list`);
+    return value.map((name, i) => resolve(`${where}[${i}]`, name));
+  };
+
+  const permissions: Array<Permission> = [];
+  const managedSets: Array<string> = [];
+  for (const contractKey of Object.keys(input.raw).filter((key) => key !== "labels")) {
+    const contract = new InputEntry(input.raw[contractKey], `${input.where}.${contractKey}`);
+    for (const getter of Object.keys(contract.raw || {})) {
+      const set = PERMISSION_SETS.find((s) => s.contractKey === contractKey && s.getter === getter);
+      if (!set) throw new Error(`[utils/permission-audit] ${contract.where}.${getter}: not a known permission set`);
+      const where = `${contract.where}.${getter}`;
+      const value = contract.raw[getter] || (set.subjects === 1 ? [] : {});
+      managedSets.push(_setId(set));
+      if (set.subjects === 1) {
+        for (const subject of list(where, value))
+          permissions.push({ contractKey, getter, subject: [subject], value: true });
+        continue;
+      }
+      const firsts = contract.entry(getter);
+      for (const first of Object.keys(firsts.raw)) {
+        const firstAddress = resolve(where, first);
+        if (set.valueType === "bool") {
+          for (const second of list(`${where}.${first}`, firsts.raw[first]))
+            permissions.push({ contractKey, getter, subject: [firstAddress, second], value: true });
+        } else {
+          const seconds = firsts.entry(first);
+          for (const second of Object.keys(seconds.raw))
+            permissions.push({
+              contractKey,
+              getter,
+              subject: [firstAddress, resolve(`${where}.${first}`, second)],
+              value: resolve(`${where}.${first}.${second}`, seconds.raw[second]),
+            });
+        }
+      }
+    }
+  }
+  return { labels, permissions, managedSets };
+}
+
+// RPCs reject log queries over too many blocks
+async function _getLogs(
+  provider: ethers.providers.Provider,
+  filter: { address: string; topics: Array<Array<string>> },
+  fromBlock: number,
+  toBlock: number
+): Promise<Array<ethers.providers.Log>> {
+  const logs: Array<ethers.providers.Log> = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_PAGE_BLOCKS)
+    logs.push(
+      ...(await provider.getLogs({
+        ...filter,
+        fromBlock: start,
+        toBlock: Math.min(start + LOG_PAGE_BLOCKS - 1, toBlock),
+      }))
+    );
+  return logs;
+}
+
+/**
+ * Reconstructs the permissions in place: every subject ever set by an event, along with the
+ * subjects of the manifest, is read back from the mapping getter.
+ */
+export async function readPermissions(
+  chainId: number,
+  provider: ethers.providers.Provider,
+  manifest: PermissionManifest,
+  fromBlock: number
+): Promise<Array<Permission>> {
+  const config = loadConfig(chainId);
+  const toBlock = await provider.getBlockNumber();
+  const permissions: Array<Permission> = [];
+  for (const set of getPermissionSets(chainId)) {
+    const address = getAddressBookEntry(config, set.contractKey);
+    const iface = _interface(set);
+    const logs = await _getLogs(
+      provider,
+      { address, topics: [Object.values(iface.events).map((event) => iface.getEventTopic(event))] },
+      fromBlock,
+      toBlock
+    );
+
+    const candidates: Array<Array<string>> = [];
+    const addCandidate = (subject: Array<string>) => {
+      if (!candidates.some((other) => other.every((address, i) => compareAddress(address, subject[i]))))
+        candidates.push(subject);
+    };
+    for (const log of logs) addCandidate(iface.parseLog(log).args.slice(0, set.subjects));
+    manifest.permissions
+      .filter((permission) => _setId(permission) === _setId(set))
+      .forEach((permission) => addCandidate(permission.subject));
+
+    const contract = new ethers.Contract(address, iface, provider);
+    const values: Array<PermissionValue> = await Promise.all(
+      candidates.map((subject) => contract[set.getter](...subject))
+    );
+    candidates.forEach((subject, i) => {
+      if (!_isDefault(values[i]))
+        permissions.push({ contractKey: set.contractKey, getter: set.getter, subject, value: values[i] });
+    });
+  }
+  return permissions;
+}
+
+/**
+ * Changes that bring the managed sets of the manifest to what it declares, revoking whatever
+ * it does not.
+ */
+export function diffPermissions(manifest: PermissionManifest, current: Array<Permission>): Array<PermissionChange> {
+  const find = (permissions: Array<Permission>, permission: Permission) =>
+    permissions.find(
+      (other) =>
+        _setId(other) === _setId(permission) &&
+        other.subject.every((address, i) => compareAddress(address, permission.subject[i]))
+    );
+  const changes: Array<PermissionChange> = [];
+  for (const expected of manifest.permissions) {
+    const actual = find(current, expected);
+    if (!actual || !_sameValue(actual.value, expected.value))
+      changes.push({
+        ...expected,
+        current: actual ? actual.value : typeof expected.value === "boolean" ? false : ethers.constants.AddressZero,
+      });
+  }
+  for (const actual of current) {
+    if (!manifest.managedSets.includes(_setId(actual)) || find(manifest.permissions, actual)) continue;
+    changes.push({
+      ...actual,
+      value: typeof actual.value === "boolean" ? false : ethers.constants.AddressZero,
+      current: actual.value,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Encodes the changes, one call per batch setter and per change otherwise.
+ */
+export function encodePermissionChanges(
+  chainId: number,
+  changes: Array<PermissionChange>,
+  labels: { [name: string]: string } = {}
+): Array<PermissionTransaction> {
+  const config = loadConfig(chainId);
+  const transactions: Array<PermissionTransaction> = [];
+  for (const set of PERMISSION_SETS) {
+    const setChanges = changes.filter((change) => _setId(change) === _setId(set));
+    if (setChanges.length === 0) continue;
+    const iface = _interface(set);
+    const setter = Object.values(iface.functions).find((f) => f.name !== set.getter)!;
+    const to = getAddressBookEntry(config, set.contractKey);
+    const describe = (change: PermissionChange) =>
+      `${change.subject.map((address) => labelAddress(chainId, address, labels)).join(" → ")}: ${
+        typeof change.value === "boolean" ? change.value : labelAddress(chainId, change.value, labels)
+      }`;
+    if (set.batchSetter) {
+      const columns = [...Array(set.subjects).keys()].map((i) => setChanges.map((change) => change.subject[i]));
+      transactions.push({
+        contractKey: set.contractKey,
+        to,
+        data: iface.encodeFunctionData(setter, [...columns, setChanges.map((change) => change.value)]),
+        description: `${set.getter} ${setChanges.map(describe).join(", ")}`,
+      });
+    } else {
+      for (const change of setChanges)
+        transactions.push({
+          contractKey: set.contractKey,
+          to,
+          data: iface.encodeFunctionData(setter, [...change.subject, change.value]),
+          description: `${set.getter} ${describe(change)}`,
+        });
+    }
+  }
+  return transactions;
+}
+
+export function labelAddress(chainId: number, address: string, labels: { [name: string]: string } = {}): string {
+  const label = Object.keys(labels).find((name) => compareAddress(labels[name], address));
+  return label || getAddressBookKey(chainId, address) || address;
+}
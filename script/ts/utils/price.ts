@@ -5,6 +5,7 @@ import {
   ecoPythAssetIdByIndex,
   ecoPythHoomanReadableByIndex,
   ecoPythPriceFeedIdsByIndex,
+  ecoPythSymbolsWithPriceAdapters,
   multiplicationFactorMapByAssetId,
 } from "../constants/eco-pyth-index";
 import { loadConfig } from "./config";
@@ -20,8 +21,6 @@ function _priceToPriceE8(price: string, expo: number, multiplicationFactor: numb
   return priceBN.div(Math.pow(10, priceDecimals.sub(targetBN).toNumber()));
 }
 
-const assetIdWithPriceAdapters = ["GLP", "wstETH", "GM-BTCUSD", "GM-ETHUSD", "DIX"];
-
 export async function getUpdatePriceData(
   priceIds: string[],
   provider: ethers.providers.Provider
@@ -38,14 +37,14 @@ export async function getUpdatePriceData(
   });
 
   const prices = await connection.getLatestPriceFeeds(
-    priceIds.filter((each) => !assetIdWithPriceAdapters.includes(each))
+    priceIds.filter((each) => !ecoPythSymbolsWithPriceAdapters.includes(each))
   );
   if (!prices) {
     throw new Error("Failed to get prices from Pyth");
   }
   const buildData = [];
   for (let i = 0; i < priceIds.length; i++) {
-    if (assetIdWithPriceAdapters.includes(priceIds[i])) {
+    if (ecoPythSymbolsWithPriceAdapters.includes(priceIds[i])) {
       // If the asset is GLP, use the GLP price from the contract
       buildData.push({
         assetId: ecoPythAssetIdByIndex[i],
@@ -80,7 +79,7 @@ export async function getUpdatePriceData(
     });
   }
   const vaas = await connection.getPriceFeedsUpdateData(
-    priceIds.filter((each) => !assetIdWithPriceAdapters.includes(each))
+    priceIds.filter((each) => !ecoPythSymbolsWithPriceAdapters.includes(each))
   );
   hashedVaas = ethers.utils.keccak256(
     "0x" +
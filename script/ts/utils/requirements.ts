@@ -0,0 +1,62 @@
+import dotenv from "dotenv";
+import { getNetworkByChainId } from "./network";
+import { NetworkEntity } from "../entities/networks";
+import { getMissingSignerRequirements, SignerRole } from "./signer-config";
+import { getSafeOfflineDir } from "./safe-offline-dir";
+
+dotenv.config();
+
+type BaseCapability = "rpc" | "signer" | "subgraph" | "safe" | "oneInch" | "hmxApi" | "tenderly" | "etherscan";
+// "signer" is the deployer; other roles are declared as `signer:<role>`
+export type Capability = BaseCapability | `signer:${SignerRole}`;
+
+// Returns a human readable reason for each requirement that is not met. Empty when satisfied.
+type CapabilityCheck = (network: NetworkEntity) => Array<string>;
+
+function _missingEnv(...keys: Array<string>): Array<string> {
+  return keys.filter((key) => !process.env[key]).map((key) => `set ${key} in .env`);
+}
+
+const capabilityChecks: { [capability in BaseCapability]: CapabilityCheck } = {
+  rpc: (network) => (network.defaultRpc ? [] : _missingEnv(network.rpcEnvKey)),
+  signer: () => getMissingSignerRequirements("deployer"),
+  subgraph: (network) =>
+    network.statSubgraphUrlEnvKey
+      ? _missingEnv(network.statSubgraphUrlEnvKey)
+      : [`no stat subgraph is registered for ${network.name} in entities/networks.ts`],
+  // Offline mode writes proposals to files and needs no transaction service
+  safe: (network) =>
+    network.safeTxServiceUrl || getSafeOfflineDir()
+      ? []
+      : [`no Safe transaction service is registered for ${network.name}, set SAFE_OFFLINE_DIR to work offline`],
+  oneInch: () => _missingEnv("ONE_INCH_URL", "ONE_INCH_API_KEY"),
+  hmxApi: (network) => _missingEnv(network.chainId === 42161 ? "HMX_API_PROD_ENDPOINT" : "HMX_API_DEV_ENDPOINT"),
+  tenderly: () => _missingEnv("TENDERLY_USERNAME", "TENDERLY_PROJECT_NAME"),
+  etherscan: () => _missingEnv("ETHERSCAN_API_KEY"),
+};
+
+export function getMissingRequirements(chainId: number, capabilities: Array<Capability>): Array<string> {
+  const network = getNetworkByChainId(chainId);
+  return [...new Set(capabilities)].flatMap((capability) => {
+    const reasons = capability.startsWith("signer:")
+      ? getMissingSignerRequirements(capability.substring("signer:".length) as SignerRole)
+      : capabilityChecks[capability as BaseCapability](network);
+    return reasons.map((reason) => `${capability}: ${reason}`);
+  });
+}
+
+/**
+ * Checks every capability a command needs up front so that a single error lists
+ * everything that has to be configured, instead of failing on the first missing var.
+ */
+export function requireCapabilities(chainId: number, capabilities: Array<Capability>) {
+  const missing = getMissingRequirements(chainId, capabilities);
+  if (missing.length === 0) return;
+
+  const network = getNetworkByChainId(chainId);
+  throw new Error(
+    `[utils/requirements] Missing requirements for ${network.name} (${chainId}):\n${missing
+      .map((m) => `  - ${m}`)
+      .join("\n")}`
+  );
+}
@@ -0,0 +1,12 @@
+import * as path from "path";
+
+// Kept apart from utils/safe-offline so that checking requirements does not load the ABI decoder
+const OFFLINE_DIR_ENV_KEY = "SAFE_OFFLINE_DIR";
+
+/**
+ * Directory proposals are written to instead of the Safe transaction service, when set.
+ */
+export function getSafeOfflineDir(): string | undefined {
+  const dir = process.env[OFFLINE_DIR_ENV_KEY];
+  return dir ? path.resolve(dir) : undefined;
+}
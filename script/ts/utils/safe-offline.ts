@@ -0,0 +1,269 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { getMultiSendDeployment, getSafeL2SingletonDeployment } from "@safe-global/safe-deployments";
+import { decodeCalldata, formatDecodedCall } from "./abi-decoder";
+
+export type SafeOfflineCall = {
+  to: string;
+  value: string;
+  data: string;
+};
+
+// Fields of the SafeTx EIP-712 struct
+export type SafeOfflineTransaction = SafeOfflineCall & {
+  operation: number;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+};
+
+export type SafeOfflineSignature = {
+  signer: string;
+  data: string;
+};
+
+/**
+ * Transaction Builder batch file with the Safe transaction it stands for. The Transaction Builder
+ * reads `transactions`, everything under `safe` is ours and ignored by it.
+ */
+export type SafeOfflineFile = {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: Array<SafeOfflineCall & { contractMethod: null; contractInputsValues: null; description: string }>;
+  safe: {
+    address: string;
+    safeTxHash: string;
+    transaction: SafeOfflineTransaction;
+    signatures: Array<SafeOfflineSignature>;
+  };
+};
+
+// Safe contracts of 1.3.0 and later, which include the chain id in their EIP-712 domain
+const SAFE_VERSION = "1.3.0";
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { type: "address", name: "to" },
+    { type: "uint256", name: "value" },
+    { type: "bytes", name: "data" },
+    { type: "uint8", name: "operation" },
+    { type: "uint256", name: "safeTxGas" },
+    { type: "uint256", name: "baseGas" },
+    { type: "uint256", name: "gasPrice" },
+    { type: "address", name: "gasToken" },
+    { type: "address", name: "refundReceiver" },
+    { type: "uint256", name: "nonce" },
+  ],
+};
+
+export function getSafeAbi(): Array<any> {
+  return getSafeL2SingletonDeployment({ version: SAFE_VERSION })!.abi;
+}
+
+export function getMultiSendAddress(chainId: number): string {
+  const deployment = getMultiSendDeployment({ version: SAFE_VERSION })!;
+  return deployment.networkAddresses[chainId.toString()] || deployment.defaultAddress;
+}
+
+export function encodeMultiSend(calls: Array<SafeOfflineCall>): string {
+  const transactions = ethers.utils.hexConcat(
+    calls.map((call) =>
+      ethers.utils.solidityPack(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [0, call.to, call.value, ethers.utils.hexDataLength(call.data), call.data]
+      )
+    )
+  );
+  return new ethers.utils.Interface(["function multiSend(bytes transactions)"]).encodeFunctionData("multiSend", [
+    transactions,
+  ]);
+}
+
+// Reverse of `encodeMultiSend`, keeping the operation of every call
+export function decodeMultiSend(data: string): Array<SafeOfflineCall & { operation: number }> {
+  const [transactions] = new ethers.utils.Interface(["function multiSend(bytes transactions)"]).decodeFunctionData(
+    "multiSend",
+    data
+  );
+  const bytes = ethers.utils.arrayify(transactions);
+  const calls: Array<SafeOfflineCall & { operation: number }> = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    const length = ethers.BigNumber.from(ethers.utils.hexDataSlice(transactions, offset + 53, offset + 85)).toNumber();
+    calls.push({
+      operation: bytes[offset],
+      to: ethers.utils.getAddress(ethers.utils.hexDataSlice(transactions, offset + 1, offset + 21)),
+      value: ethers.BigNumber.from(ethers.utils.hexDataSlice(transactions, offset + 21, offset + 53)).toString(),
+      data: ethers.utils.hexDataSlice(transactions, offset + 85, offset + 85 + length),
+    });
+    offset += 85 + length;
+  }
+  return calls;
+}
+
+export function buildSafeOfflineTransaction(
+  chainId: number,
+  calls: Array<SafeOfflineCall>,
+  nonce: number
+): SafeOfflineTransaction {
+  const base = {
+    safeTxGas: "0",
+    baseGas: "0",
+    gasPrice: "0",
+    gasToken: ethers.constants.AddressZero,
+    refundReceiver: ethers.constants.AddressZero,
+    nonce,
+  };
+  if (calls.length === 1) return { ...calls[0], operation: 0, ...base };
+  // MultiSend is delegatecalled, like the Safe SDK does for transaction arrays
+  return { to: getMultiSendAddress(chainId), value: "0", data: encodeMultiSend(calls), operation: 1, ...base };
+}
+
+export function getSafeTxHash(chainId: number, safeAddress: string, tx: SafeOfflineTransaction): string {
+  return ethers.utils._TypedDataEncoder.hash(
+    { chainId, verifyingContract: safeAddress },
+    SAFE_TX_TYPES,
+    tx as { [key: string]: any }
+  );
+}
+
+/**
+ * Signs like `eth_sign` does for the Safe SDK: an EIP-191 signature of the hash with v + 4,
+ * which works with any ethers signer, including keystores and hardware wallets.
+ */
+export async function signSafeTxHash(signer: ethers.Signer, safeTxHash: string): Promise<SafeOfflineSignature> {
+  const signature = ethers.utils.splitSignature(await signer.signMessage(ethers.utils.arrayify(safeTxHash)));
+  return {
+    signer: await signer.getAddress(),
+    data: ethers.utils.hexConcat([signature.r, signature.s, ethers.utils.hexlify(signature.v + 4)]),
+  };
+}
+
+export function recoverSafeSigner(safeTxHash: string, signature: string): string {
+  const v = ethers.utils.arrayify(signature)[64];
+  if (v > 30) {
+    const unprefixed = ethers.utils.hexConcat([
+      ethers.utils.hexDataSlice(signature, 0, 64),
+      ethers.utils.hexlify(v - 4),
+    ]);
+    return ethers.utils.recoverAddress(ethers.utils.hashMessage(ethers.utils.arrayify(safeTxHash)), unprefixed);
+  }
+  return ethers.utils.recoverAddress(safeTxHash, signature);
+}
+
+// The Safe expects signatures sorted by signer
+export function encodeSafeSignatures(signatures: Array<SafeOfflineSignature>): string {
+  return ethers.utils.hexConcat(
+    [...signatures]
+      .sort((a, b) => (a.signer.toLowerCase() < b.signer.toLowerCase() ? -1 : 1))
+      .map((signature) => signature.data)
+  );
+}
+
+function _describe(call: SafeOfflineCall): string {
+  const decoded = decodeCalldata(call.data);
+  return decoded ? formatDecodedCall(decoded) : `${call.to} ${call.data.substring(0, 10)}`;
+}
+
+export function buildSafeOfflineFile(
+  chainId: number,
+  safeAddress: string,
+  calls: Array<SafeOfflineCall>,
+  tx: SafeOfflineTransaction,
+  signature: SafeOfflineSignature
+): SafeOfflineFile {
+  const safeTxHash = getSafeTxHash(chainId, safeAddress, tx);
+  const descriptions = calls.map(_describe);
+  return {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: `Nonce ${tx.nonce}: ${safeTxHash}`,
+      description: descriptions.join("\n"),
+      txBuilderVersion: "1.16.1",
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: signature.signer,
+    },
+    transactions: calls.map((call, i) => ({
+      ...call,
+      contractMethod: null,
+      contractInputsValues: null,
+      description: descriptions[i],
+    })),
+    safe: { address: safeAddress, safeTxHash, transaction: tx, signatures: [signature] },
+  };
+}
+
+export function getSafeOfflineFilePath(dir: string, file: SafeOfflineFile): string {
+  return path.join(
+    dir,
+    `${file.safe.address}-${file.safe.transaction.nonce}-${file.safe.safeTxHash.substring(0, 10)}.json`
+  );
+}
+
+export function readSafeOfflineFile(filePath: string): SafeOfflineFile {
+  const file = JSON.parse(fs.readFileSync(filePath, "utf8")) as SafeOfflineFile;
+  if (!file.safe || !file.safe.transaction)
+    throw new Error(`[utils/safe-offline] ${filePath} is not a Safe transaction written in offline mode`);
+  const safeTxHash = getSafeTxHash(Number(file.chainId), file.safe.address, file.safe.transaction);
+  if (safeTxHash !== file.safe.safeTxHash)
+    throw new Error(`[utils/safe-offline] ${filePath} was modified, its transaction hashes to ${safeTxHash}`);
+  for (const signature of file.safe.signatures) {
+    if (recoverSafeSigner(safeTxHash, signature.data).toLowerCase() !== signature.signer.toLowerCase())
+      throw new Error(`[utils/safe-offline] ${filePath} has an invalid signature of ${signature.signer}`);
+  }
+  return file;
+}
+
+export function writeSafeOfflineFile(filePath: string, file: SafeOfflineFile) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2));
+}
+
+/**
+ * Offline files of `safeAddress` in `dir`. Files that cannot be read or do not check out are
+ * skipped with a warning, so that one stray file does not block every later proposal.
+ */
+export function listSafeOfflineFiles(dir: string, safeAddress: string): Array<SafeOfflineFile> {
+  if (!fs.existsSync(dir)) return [];
+  const files: Array<SafeOfflineFile> = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.toLowerCase().startsWith(safeAddress.toLowerCase()) || !name.endsWith(".json")) continue;
+    const filePath = path.join(dir, name);
+    try {
+      files.push(readSafeOfflineFile(filePath));
+    } catch (e) {
+      console.warn(`[utils/safe-offline] Skipping ${filePath}: ${(e as Error).message}`);
+    }
+  }
+  return files;
+}
+
+/**
+ * Adds the signatures of `others` to `file`. All of them must be copies of the same transaction.
+ */
+export function mergeSafeOfflineSignatures(file: SafeOfflineFile, others: Array<SafeOfflineFile>): SafeOfflineFile {
+  const signatures = [...file.safe.signatures];
+  for (const other of others) {
+    if (other.safe.safeTxHash !== file.safe.safeTxHash)
+      throw new Error(
+        `[utils/safe-offline] Cannot merge signatures of ${other.safe.safeTxHash} into ${file.safe.safeTxHash}`
+      );
+    for (const signature of other.safe.signatures) {
+      if (!signatures.some((s) => s.signer.toLowerCase() === signature.signer.toLowerCase()))
+        signatures.push(signature);
+    }
+  }
+  return { ...file, safe: { ...file.safe, signatures } };
+}
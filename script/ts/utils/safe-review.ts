@@ -0,0 +1,126 @@
+import { ethers } from "ethers";
+import { decodeCalldata, DecodedCall, formatDecodedCall, getAddressBookKey } from "./abi-decoder";
+import { compareAddress } from "./address";
+import { readDeploymentHistory } from "./deployment-history";
+import { getNetworkByChainId } from "./network";
+import { decodeMultiSend, getMultiSendAddress } from "./safe-offline";
+
+export type CallTree = {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  // Address book key, or what else we know the target as. Undefined for unknown targets.
+  targetLabel?: string;
+  call?: DecodedCall;
+  // Addresses the call involves that are neither in the address book nor in the deployment history
+  unknownAddresses: Array<string>;
+  notes: Array<string>;
+  children: Array<CallTree>;
+};
+
+const MULTI_SEND_SELECTOR = ethers.utils.id("multiSend(bytes)").substring(0, 10);
+const TIMELOCK_CALLS = ["queueTransaction", "executeTransaction", "cancelTransaction"];
+
+function _labelAddress(chainId: number, address: string): string | undefined {
+  const key = getAddressBookKey(chainId, address);
+  if (key) return key;
+  if (compareAddress(address, getMultiSendAddress(chainId))) return "MultiSend";
+  const deployment = readDeploymentHistory(getNetworkByChainId(chainId)).entries.find(
+    (entry) => entry.implementation && compareAddress(entry.implementation, address)
+  );
+  return deployment ? `implementation of ${deployment.key}` : undefined;
+}
+
+/**
+ * Decodes a call against the project ABIs, down to the calls it makes on our behalf: the calls
+ * of a MultiSend, the payload of Timelock transactions and the call of `ProxyAdmin.upgradeAndCall`.
+ */
+export function decodeCallTree(
+  chainId: number,
+  to: string,
+  value: ethers.BigNumberish,
+  data: string,
+  operation: number = 0
+): CallTree {
+  const targetLabel = _labelAddress(chainId, to);
+  const tree: CallTree = {
+    to,
+    value: ethers.BigNumber.from(value).toString(),
+    data,
+    operation,
+    targetLabel,
+    unknownAddresses: targetLabel ? [] : [to],
+    notes: [],
+    children: [],
+  };
+  if (operation === 1) tree.notes.push("delegatecall");
+
+  if (data.substring(0, 10).toLowerCase() === MULTI_SEND_SELECTOR) {
+    tree.children = decodeMultiSend(data).map((call) =>
+      decodeCallTree(chainId, call.to, call.value, call.data, call.operation)
+    );
+    return tree;
+  }
+
+  tree.call = decodeCalldata(data, targetLabel);
+  if (!tree.call) {
+    if (data !== "0x") tree.notes.push("calldata does not match any known ABI");
+    return tree;
+  }
+
+  const { fragment, args } = tree.call;
+  if (tree.call.contractName === "Timelock" && TIMELOCK_CALLS.includes(fragment.name)) {
+    const [target, txValue, signature, payload, eta] = args;
+    tree.notes.push(`eta ${new Date(eta.toNumber() * 1000).toISOString()}`);
+    tree.children.push(
+      decodeCallTree(
+        chainId,
+        target,
+        txValue,
+        signature ? ethers.utils.hexConcat([ethers.utils.id(signature).substring(0, 10), payload]) : payload
+      )
+    );
+  } else if (tree.call.contractName === "ProxyAdmin" && fragment.name.startsWith("upgrade")) {
+    const [proxy, implementation, payload] = args;
+    const proxyLabel = _labelAddress(chainId, proxy);
+    const implementationLabel = _labelAddress(chainId, implementation);
+    if (!proxyLabel) tree.unknownAddresses.push(proxy);
+    if (!implementationLabel) tree.unknownAddresses.push(implementation);
+    tree.notes.push(
+      `upgrades ${proxyLabel || "⚠️ unknown proxy"} to ${
+        implementationLabel || "⚠️ an implementation not in the deployment history"
+      }`
+    );
+    if (payload && payload !== "0x") tree.children.push(decodeCallTree(chainId, proxy, 0, payload));
+  }
+  return tree;
+}
+
+export function findUnknownAddresses(tree: CallTree): Array<string> {
+  const unknown = tree.children.reduce((acc, child) => acc.concat(findUnknownAddresses(child)), tree.unknownAddresses);
+  return unknown.filter((address, i) => unknown.findIndex((other) => compareAddress(address, other)) === i);
+}
+
+/**
+ * Calls the Safe makes itself, which is every call of a MultiSend it delegatecalls.
+ */
+export function flattenSafeCalls(tree: CallTree): Array<CallTree> {
+  if (tree.operation === 1 && tree.targetLabel === "MultiSend")
+    return tree.children.reduce((acc, child) => acc.concat(flattenSafeCalls(child)), [] as Array<CallTree>);
+  return [tree];
+}
+
+export function formatCallTree(tree: CallTree, depth: number = 0): string {
+  const indent = "  ".repeat(depth);
+  const lines = [
+    `→ ${tree.to} (${tree.targetLabel || "⚠️ unknown target"})${tree.value !== "0" ? ` value ${tree.value}` : ""}`,
+  ];
+  if (tree.call) lines.push(...formatDecodedCall(tree.call).split("\n"));
+  else if (tree.children.length === 0 && tree.data !== "0x") lines.push(`data: ${tree.data}`);
+  for (const note of tree.notes) lines.push(`# ${note}`);
+  return [
+    ...lines.map((line) => `${indent}${line}`),
+    ...tree.children.map((child) => formatCallTree(child, depth + 1)),
+  ].join("\n");
+}
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import dotenv from "dotenv";
+import { resolveRepoPath } from "./network";
+
+dotenv.config();
+
+export type SignerRole = "deployer" | "priceFeeder" | "orderExecutor" | "liquidator" | "treasuryProposer";
+
+export const SIGNER_ROLES: Array<SignerRole> = [
+  "deployer",
+  "priceFeeder",
+  "orderExecutor",
+  "liquidator",
+  "treasuryProposer",
+];
+
+export type SignerSpec =
+  | { backend: "privateKey"; envKey: string }
+  | { backend: "keystore"; path: string; passwordEnvKey: string }
+  | { backend: "mnemonic"; envKey: string; path: string }
+  | { backend: "remote"; url: string; address: string }
+  | { backend: "impersonate"; address: string };
+
+const SIGNERS_CONFIG_PATH = "configs/signers.json";
+const DEFAULT_SIGNER_SPEC = "privateKey:MAINNET_PRIVATE_KEY";
+const DEFAULT_KEYSTORE_PASSWORD_ENV_KEY = "KEYSTORE_PASSWORD";
+const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+const ACTING_ROLE_ENV_KEY = "HMX_SIGNER_ROLE";
+
+// Per-process overrides, set by commands that take a `--signer` flag
+const overrides: { [role in SignerRole]?: string } = {};
+
+export function setSignerOverride(role: SignerRole, spec: string) {
+  overrides[role] = spec;
+}
+
+function _roleEnvKey(role: SignerRole): string {
+  return `SIGNER_${role.replace(/([A-Z])/g, "_$1").toUpperCase()}`;
+}
+
+function _readSignersConfig(): { [role: string]: string } {
+  const filePath = resolveRepoPath(SIGNERS_CONFIG_PATH);
+  if (!fs.existsSync(filePath)) return {};
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Parses a signer spec string:
+ * - `privateKey:<ENV_KEY>`
+ * - `keystore:<path>[:<PASSWORD_ENV_KEY>]`
+ * - `mnemonic:<ENV_KEY>[:<derivation path>]`
+ * - `remote:<address>@<json-rpc url>`
+ * - `impersonate:<address>`
+ */
+export function parseSignerSpec(spec: string): SignerSpec {
+  const separator = spec.indexOf(":");
+  const backend = separator === -1 ? spec : spec.substring(0, separator);
+  const rest = separator === -1 ? "" : spec.substring(separator + 1);
+
+  switch (backend) {
+    case "privateKey":
+      return { backend, envKey: rest || "MAINNET_PRIVATE_KEY" };
+    case "keystore": {
+      const [path, passwordEnvKey] = rest.split(":");
+      return { backend, path, passwordEnvKey: passwordEnvKey || DEFAULT_KEYSTORE_PASSWORD_ENV_KEY };
+    }
+    case "mnemonic": {
+      const [envKey, ...path] = rest.split(":");
+      return { backend, envKey, path: path.join(":") || DEFAULT_DERIVATION_PATH };
+    }
+    case "remote": {
+      const at = rest.indexOf("@");
+      if (at === -1) throw new Error(`[utils/signer-config] Remote signer spec must be remote:<address>@<url>`);
+      return { backend, address: rest.substring(0, at), url: rest.substring(at + 1) };
+    }
+    case "impersonate":
+      return { backend, address: rest };
+    default:
+      throw new Error(`[utils/signer-config] Unknown signer backend "${backend}" in "${spec}"`);
+  }
+}
+
+function _configuredSpec(role: SignerRole): string | undefined {
+  return overrides[role] || process.env[_roleEnvKey(role)] || _readSignersConfig()[role];
+}
+
+// Makes commands that sign as the deployer sign as another role instead (`hmx --signer-role`)
+export function setActingSignerRole(role: SignerRole) {
+  if (!SIGNER_ROLES.includes(role))
+    throw new Error(`[utils/signer-config] Unknown signer role "${role}", expected one of ${SIGNER_ROLES.join(", ")}`);
+  process.env[ACTING_ROLE_ENV_KEY] = role;
+}
+
+/**
+ * Resolves the signer spec of a role. The first match wins: `--signer` override,
+ * `SIGNER_<ROLE>` env var, then `configs/signers.json`. Only the deployer has a default, other
+ * roles must be configured so that they never sign with the deployer's key by accident.
+ * The deployer resolves to the acting role's spec when one is set.
+ */
+export function getSignerSpec(role: SignerRole): SignerSpec {
+  const actingRole = role === "deployer" ? (process.env[ACTING_ROLE_ENV_KEY] as SignerRole | undefined) : undefined;
+  const spec =
+    (actingRole && _configuredSpec(actingRole)) ||
+    _configuredSpec(role) ||
+    (role === "deployer" ? DEFAULT_SIGNER_SPEC : undefined);
+  if (!spec)
+    throw new Error(
+      `[utils/signer-config] No signer for ${role}, set ${_roleEnvKey(role)} or add it to ${SIGNERS_CONFIG_PATH}`
+    );
+  return parseSignerSpec(spec);
+}
+
+export function getMissingSignerRequirements(role: SignerRole): Array<string> {
+  let spec: SignerSpec;
+  try {
+    spec = getSignerSpec(role);
+  } catch (e) {
+    return [(e as Error).message];
+  }
+
+  const missingEnv = (key: string) => (process.env[key] ? [] : [`set ${key} in .env`]);
+  switch (spec.backend) {
+    case "privateKey":
+      return missingEnv(spec.envKey);
+    case "keystore":
+      return [
+        ...(fs.existsSync(spec.path) ? [] : [`keystore file ${spec.path} does not exist`]),
+        ...missingEnv(spec.passwordEnvKey),
+      ];
+    case "mnemonic":
+      return missingEnv(spec.envKey);
+    case "remote":
+    case "impersonate":
+      return spec.address ? [] : [`${spec.backend} signer of ${role} has no address`];
+  }
+}
@@ -0,0 +1,297 @@
+import { ethers } from "ethers";
+import chains from "../entities/chains";
+import {
+  decodeCalldata,
+  decodeRevertData,
+  DecodedCall,
+  formatAbiValue,
+  formatDecodedCall,
+  getAddressBookKey,
+} from "./abi-decoder";
+import { impersonateAccount } from "./account";
+
+export type SimulationRequest = {
+  from: string;
+  to?: string;
+  value?: ethers.BigNumberish;
+  data: string;
+  label: string;
+};
+
+export type GetterChange = {
+  getter: string;
+  before: string;
+  after: string;
+};
+
+export type GetterRead = {
+  fragment: ethers.utils.FunctionFragment;
+  args: Array<any>;
+};
+
+export type SimulationResult = {
+  success: boolean;
+  revertReason?: string;
+  getters: Array<GetterChange>;
+};
+
+// Unsigned sends from the owner need a node that allows impersonation (anvil, hardhat node, Tenderly fork).
+// The fork keeps the simulated state, so later steps of the same script build on earlier ones.
+const FORK_RPC_ENV_KEY = "DRY_RUN_FORK_RPC";
+const MAX_GETTERS = 6;
+// Balance the impersonated sender is topped up to on the fork, Safes and the Timelock hold no gas
+const FORK_GAS_BALANCE = ethers.utils.parseEther("10");
+const SETTER_PREFIX = /^(set|update|add|remove|insert|upsert|increase|decrease|grant|revoke)/;
+const TIMELOCK_CALLS = [
+  "queueTransaction(address,uint256,string,bytes,uint256)",
+  "executeTransaction(address,uint256,string,bytes,uint256)",
+];
+
+let forkProvider: ethers.providers.JsonRpcProvider | undefined;
+
+export function isForkSimulation(): boolean {
+  return !!process.env[FORK_RPC_ENV_KEY];
+}
+
+export function getSimulationProvider(chainId: number): ethers.providers.JsonRpcProvider {
+  const forkRpc = process.env[FORK_RPC_ENV_KEY];
+  if (!forkRpc) return chains[chainId].jsonRpcProvider;
+  if (!forkProvider) forkProvider = new ethers.providers.JsonRpcProvider(forkRpc);
+  return forkProvider;
+}
+
+function _findRevertData(error: any): string | undefined {
+  // Providers nest the revert data differently
+  for (let e = error; e; e = e.error) {
+    if (typeof e.data === "string" && e.data.startsWith("0x")) return e.data;
+    if (e.data && typeof e.data.data === "string") return e.data.data;
+  }
+  return undefined;
+}
+
+function _label(chainId: number, address?: string): string {
+  if (!address) return "(contract creation)";
+  const key = getAddressBookKey(chainId, address);
+  return key ? `${address} (${key})` : address;
+}
+
+/**
+ * Views of the called contract that the call most likely changes: `setTradingConfig` maps to
+ * `tradingConfig()`/`getTradingConfig()`, and getters whose parameters match the leading
+ * arguments of the call are read with those arguments (e.g. `getMarketConfigByIndex(index)`).
+ */
+export function findAffectedGetters(call: DecodedCall): Array<GetterRead> {
+  if (!SETTER_PREFIX.test(call.fragment.name)) return [];
+  const needle = call.fragment.name.replace(SETTER_PREFIX, "").toLowerCase().replace(/s$/, "");
+  if (!needle) return [];
+
+  const views = Object.values(call.iface.functions).filter(
+    (f) => (f.stateMutability === "view" || f.stateMutability === "pure") && f.name.toLowerCase().includes(needle)
+  );
+  const withArgs = views
+    .filter(
+      (f) =>
+        f.inputs.length > 0 &&
+        f.inputs.every((input, i) => call.fragment.inputs[i] && call.fragment.inputs[i].type === input.type)
+    )
+    .map((fragment) => ({ fragment, args: call.args.slice(0, fragment.inputs.length) }));
+  // Whole-collection getters are only a fallback, they tend to be noisy
+  const getters =
+    withArgs.length > 0
+      ? withArgs
+      : views.filter((f) => f.inputs.length === 0).map((fragment) => ({ fragment, args: [] }));
+  return getters.slice(0, MAX_GETTERS);
+}
+
+export async function readGetters(
+  provider: ethers.providers.JsonRpcProvider,
+  to: string,
+  iface: ethers.utils.Interface,
+  getters: Array<GetterRead>
+): Promise<Array<string>> {
+  return Promise.all(
+    getters.map(async ({ fragment, args }) => {
+      try {
+        const result = iface.decodeFunctionResult(
+          fragment,
+          await provider.call({ to, data: iface.encodeFunctionData(fragment, args) })
+        );
+        return fragment.outputs!.map((output, i) => formatAbiValue(result[i], output)).join(", ");
+      } catch (e) {
+        return "(read failed)";
+      }
+    })
+  );
+}
+
+async function _execute(
+  provider: ethers.providers.JsonRpcProvider,
+  request: SimulationRequest
+): Promise<{ success: boolean; revertReason?: string }> {
+  const tx = {
+    from: request.from,
+    to: request.to,
+    data: request.data,
+    value: ethers.BigNumber.from(request.value || 0).toHexString(),
+  };
+  try {
+    if (!isForkSimulation()) {
+      await provider.call(tx);
+      return { success: true };
+    }
+    await impersonateAccount(provider, request.from);
+    const balance = await provider.getBalance(request.from);
+    const needed = FORK_GAS_BALANCE.add(request.value || 0);
+    if (balance.lt(needed)) {
+      for (const method of ["anvil_setBalance", "hardhat_setBalance", "tenderly_setBalance"]) {
+        try {
+          await provider.send(method, [request.from, ethers.utils.hexValue(needed)]);
+          break;
+        } catch (e) {
+          // Not supported by this node
+        }
+      }
+    }
+    // Raw RPC on purpose, signers are intercepted in dry-run mode
+    const hash = await provider.send("eth_sendTransaction", [tx]);
+    const receipt = await provider.waitForTransaction(hash);
+    if (receipt.status === 1) return { success: true };
+    // Replay to get the reason, the failed tx did not change state
+    await provider.call(tx);
+    return { success: false, revertReason: "reverted without reason" };
+  } catch (e) {
+    const revertData = _findRevertData(e);
+    return { success: false, revertReason: revertData ? decodeRevertData(revertData) : (e as Error).message };
+  }
+}
+
+/**
+ * Simulates a transaction as `from` without broadcasting it, then prints the decoded call,
+ * whether it succeeds and the values of the getters it affects. Runs against `DRY_RUN_FORK_RPC`
+ * when set, otherwise uses `eth_call` against the chain and can only show the values before.
+ * Timelock queue/execute calls also simulate the payload as the Timelock.
+ */
+export async function simulateTransaction(
+  chainId: number,
+  request: SimulationRequest,
+  depth: number = 0
+): Promise<SimulationResult> {
+  const indent = "  ".repeat(depth);
+  const log = (message: string) =>
+    console.log(
+      message
+        .split("\n")
+        .map((line) => `[utils/simulation] ${indent}${line}`)
+        .join("\n")
+    );
+  const provider = getSimulationProvider(chainId);
+  const isFork = isForkSimulation();
+
+  log(`🔍 Dry run: ${request.label}`);
+  log(`from: ${_label(chainId, request.from)}`);
+  log(`to:   ${_label(chainId, request.to)}`);
+  if (request.value && !ethers.BigNumber.from(request.value).isZero()) log(`value: ${request.value.toString()}`);
+
+  const call = request.to ? decodeCalldata(request.data, getAddressBookKey(chainId, request.to)) : undefined;
+  log(call ? formatDecodedCall(call) : `data: ${request.data}`);
+
+  const getters = call ? findAffectedGetters(call) : [];
+  const before = call ? await readGetters(provider, request.to!, call.iface, getters) : [];
+  const { success, revertReason } = await _execute(provider, request);
+  const after =
+    call && isFork && success ? await readGetters(provider, request.to!, call.iface, getters) : getters.map(() => "");
+
+  log(success ? "✅ Succeeds" : `❌ Reverts: ${revertReason}`);
+  const changes = getters.map(({ fragment, args }, i) => ({
+    getter: `${fragment.name}(${args.map((arg, j) => formatAbiValue(arg, fragment.inputs[j])).join(", ")})`,
+    before: before[i],
+    after: isFork ? after[i] : "(set DRY_RUN_FORK_RPC to see)",
+  }));
+  if (changes.length > 0) console.table(changes);
+
+  if (call && TIMELOCK_CALLS.includes(call.fragment.format())) {
+    const [target, value, signature, data] = call.args;
+    await simulateTransaction(
+      chainId,
+      {
+        from: request.to!,
+        to: target,
+        value,
+        data: signature ? ethers.utils.hexConcat([ethers.utils.id(signature).substring(0, 10), data]) : data,
+        label: `Timelock payload of ${call.fragment.name}`,
+      },
+      depth + 1
+    );
+  }
+
+  return { success, revertReason, getters: changes };
+}
+
+function _dryRunResponse(
+  tx: ethers.providers.TransactionRequest,
+  from: string,
+  nonce: number,
+  chainId: number,
+  result: SimulationResult
+): ethers.providers.TransactionResponse {
+  const receipt = {
+    to: tx.to || "",
+    from,
+    contractAddress: tx.to ? "" : ethers.utils.getContractAddress({ from, nonce }),
+    transactionIndex: 0,
+    gasUsed: ethers.BigNumber.from(0),
+    logsBloom: "0x",
+    blockHash: ethers.constants.HashZero,
+    transactionHash: ethers.constants.HashZero,
+    logs: [],
+    blockNumber: 0,
+    confirmations: 0,
+    cumulativeGasUsed: ethers.BigNumber.from(0),
+    effectiveGasPrice: ethers.BigNumber.from(0),
+    byzantium: true,
+    type: 0,
+    status: result.success ? 1 : 0,
+  };
+  return {
+    hash: ethers.constants.HashZero,
+    to: tx.to,
+    from,
+    nonce,
+    gasLimit: ethers.BigNumber.from(tx.gasLimit || 0),
+    data: ethers.utils.hexlify(tx.data || "0x"),
+    value: ethers.BigNumber.from(tx.value || 0),
+    chainId,
+    confirmations: 0,
+    // Like ethers, which throws on a reverted receipt, so scripts stop where the real send would have
+    wait: async () => {
+      if (!result.success)
+        throw new Error(`[utils/simulation] Dry run of the transaction reverts: ${result.revertReason}`);
+      return receipt;
+    },
+  };
+}
+
+/**
+ * Makes every ethers signer simulate instead of broadcasting. The returned response has a
+ * zero hash and `wait()` settles immediately, with a receipt when the simulation succeeds.
+ */
+export function interceptDirectSends() {
+  const simulate: typeof ethers.Signer.prototype.sendTransaction = async function (
+    this: ethers.Signer,
+    transaction: ethers.utils.Deferrable<ethers.providers.TransactionRequest>
+  ) {
+    const tx: ethers.providers.TransactionRequest = await ethers.utils.resolveProperties(transaction);
+    const from = await this.getAddress();
+    const chainId = (await this.provider!.getNetwork()).chainId;
+    const result = await simulateTransaction(chainId, {
+      from,
+      to: tx.to,
+      value: tx.value,
+      data: ethers.utils.hexlify(tx.data || "0x"),
+      label: "direct send",
+    });
+    return _dryRunResponse(tx, from, await this.provider!.getTransactionCount(from), chainId, result);
+  };
+  ethers.Signer.prototype.sendTransaction = simulate;
+  ethers.providers.JsonRpcSigner.prototype.sendTransaction = simulate;
+}
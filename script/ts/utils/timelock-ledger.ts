@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { abi as TimelockAbi } from "../../../abis/Timelock.json";
+import chains from "../entities/chains";
+import { getNetworkByChainId, resolveRepoPath } from "./network";
+import { loadConfig } from "./config";
+import { NetworkEntity } from "../entities/networks";
+import { TimelockWrapperTransaction } from "../wrappers/TimelockWrapper/type";
+
+// "proposed" and "executing" are waiting on the Safe to queue and execute respectively
+export type TimelockLedgerStatus = "proposed" | "queued" | "executing" | "executed" | "cancelled" | "expired";
+
+export type TimelockLedgerEntry = TimelockWrapperTransaction & {
+  // Id of the transaction in the Timelock, keccak256 of its target, value, signature, data and eta
+  txHash: string;
+  data: string;
+  status: TimelockLedgerStatus;
+  queuedBlock?: number;
+  // Block a Safe proposal was made at, the Safe queues it later
+  proposedBlock?: number;
+  cancelledAt?: string;
+  updatedAt: number;
+};
+
+export type TimelockLedger = {
+  entries: Array<TimelockLedgerEntry>;
+};
+
+export type TimelockReconciliation = {
+  txHash: string;
+  info: string;
+  from: TimelockLedgerStatus;
+  to: TimelockLedgerStatus;
+};
+
+export const PENDING_STATUSES: Array<TimelockLedgerStatus> = ["proposed", "queued", "executing"];
+
+export function getTimelockLedgerPath(entity: NetworkEntity): string {
+  return entity.configPath.replace(/\.json$/, ".timelock.json");
+}
+
+export function readTimelockLedger(chainId: number): TimelockLedger {
+  const filePath = resolveRepoPath(getTimelockLedgerPath(getNetworkByChainId(chainId)));
+  if (!fs.existsSync(filePath)) return { entries: [] };
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as TimelockLedger;
+}
+
+export function writeTimelockLedger(chainId: number, ledger: TimelockLedger) {
+  fs.writeFileSync(
+    resolveRepoPath(getTimelockLedgerPath(getNetworkByChainId(chainId))),
+    JSON.stringify(ledger, null, 2)
+  );
+}
+
+export function getTimelockTxHash(
+  target: string,
+  value: ethers.BigNumberish,
+  signature: string,
+  data: string,
+  eta: ethers.BigNumberish
+): string {
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      ["address", "uint256", "string", "bytes", "uint256"],
+      [target, value, signature, data, eta]
+    )
+  );
+}
+
+/**
+ * Adds a transaction handed to the Timelock to the ledger of its chain, along with the block it
+ * was queued or proposed at, from which its Timelock events are looked for.
+ */
+export function recordTimelockTransaction(
+  tx: TimelockWrapperTransaction,
+  status: TimelockLedgerStatus,
+  block: number
+): TimelockLedgerEntry {
+  const data = ethers.utils.defaultAbiCoder.encode(tx.paramTypes, tx.params);
+  const entry: TimelockLedgerEntry = {
+    ...tx,
+    txHash: getTimelockTxHash(tx.target, tx.value, tx.signature, data, tx.eta),
+    data,
+    status,
+    ...(status === "proposed" ? { proposedBlock: block } : { queuedBlock: block }),
+    updatedAt: Math.floor(Date.now() / 1000),
+  };
+  const ledger = readTimelockLedger(tx.chainId);
+  // Queueing the same call again with the same eta gives the same id, the latest record wins
+  ledger.entries = [...ledger.entries.filter((e) => e.txHash !== entry.txHash), entry];
+  writeTimelockLedger(tx.chainId, ledger);
+  return entry;
+}
+
+export function updateTimelockLedgerEntry(
+  chainId: number,
+  txHash: string,
+  changes: Partial<TimelockLedgerEntry>
+): TimelockLedgerEntry | undefined {
+  const ledger = readTimelockLedger(chainId);
+  const entry = ledger.entries.find((e) => e.txHash === txHash);
+  if (!entry) return undefined;
+  Object.assign(entry, changes, { updatedAt: Math.floor(Date.now() / 1000) });
+  writeTimelockLedger(chainId, ledger);
+  return entry;
+}
+
+export function findTimelockLedgerEntry(chainId: number, txHash: string): TimelockLedgerEntry {
+  const entry = readTimelockLedger(chainId).entries.find((e) => e.txHash.toLowerCase() === txHash.toLowerCase());
+  if (!entry) throw new Error(`[utils/timelock-ledger] ${txHash} is not in the Timelock ledger of chain ${chainId}`);
+  return entry;
+}
+
+export function formatTimeToEta(eta: number, now: number, gracePeriod: number): string {
+  if (now > eta + gracePeriod) return "stale";
+  if (now >= eta) return "ready";
+  const seconds = eta - now;
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.ceil((seconds % 3600) / 60);
+  return `${days > 0 ? `${days}d ` : ""}${hours}h ${minutes}m`;
+}
+
+/**
+ * Brings the pending entries of the ledger in line with the Timelock: proposals the Safe has
+ * queued become "queued", entries no longer queued become "executed" or "cancelled" from the
+ * Timelock events, and entries past eta + GRACE_PERIOD become "expired".
+ */
+export async function reconcileTimelockLedger(chainId: number): Promise<Array<TimelockReconciliation>> {
+  const config = loadConfig(chainId);
+  const provider = chains[chainId].jsonRpcProvider;
+  const timelock = new ethers.Contract(config.timelock, TimelockAbi, provider);
+  const gracePeriod = Number((await timelock.GRACE_PERIOD()).toString());
+  const now = (await provider.getBlock("latest")).timestamp;
+
+  const ledger = readTimelockLedger(chainId);
+  const changes: Array<TimelockReconciliation> = [];
+  for (const entry of ledger.entries.filter((e) => PENDING_STATUSES.includes(e.status))) {
+    let status = entry.status;
+    if (await timelock.queuedTransactions(entry.txHash)) {
+      if (status === "proposed") status = "queued";
+    } else {
+      const fromBlock = entry.queuedBlock || entry.proposedBlock;
+      if (fromBlock === undefined) {
+        // Looking from genesis is more than RPCs serve
+        console.warn(`[utils/timelock-ledger] ${entry.txHash} (${entry.info}) has no start block, left as ${status}`);
+        continue;
+      }
+      const [executed] = await timelock.queryFilter(timelock.filters.ExecuteTransaction(entry.txHash), fromBlock);
+      const [cancelled] = executed
+        ? []
+        : await timelock.queryFilter(timelock.filters.CancelTransaction(entry.txHash), fromBlock);
+      if (executed) {
+        status = "executed";
+        entry.executedAt = executed.transactionHash;
+      } else if (cancelled) {
+        status = "cancelled";
+        entry.cancelledAt = cancelled.transactionHash;
+      } else if (status !== "proposed") {
+        console.warn(
+          `[utils/timelock-ledger] ${entry.txHash} (${entry.info}) is no longer queued but was neither executed nor cancelled since block ${fromBlock}`
+        );
+      }
+    }
+    if (PENDING_STATUSES.includes(status) && now > Number(entry.eta) + gracePeriod) status = "expired";
+
+    if (status !== entry.status) {
+      changes.push({ txHash: entry.txHash, info: entry.info, from: entry.status, to: status });
+      entry.status = status;
+      entry.updatedAt = Math.floor(Date.now() / 1000);
+    }
+  }
+  writeTimelockLedger(chainId, ledger);
+  return changes;
+}
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import {
+  getStorageUpgradeReport,
+  ManifestData,
+  networkNames,
+  StorageLayout,
+  withValidationDefaults,
+} from "@openzeppelin/upgrades-core";
+import { getContractAbis } from "./abi-decoder";
+import { compareAddress } from "./address";
+import { resolveRepoPath } from "./network";
+
+export type StorageLayoutCheck = {
+  compatible: boolean;
+  explanation: string;
+};
+
+export type ImplementationDiff = {
+  oldSize: number;
+  newSize: number;
+  // Same code once the compiler metadata is stripped
+  sameCode: boolean;
+  addedFunctions: Array<string>;
+  removedFunctions: Array<string>;
+};
+
+const PUSH1 = 0x60;
+const PUSH4 = 0x63;
+const PUSH32 = 0x7f;
+const DUP1 = 0x80;
+const DUP16 = 0x8f;
+const EQ = 0x14;
+
+/**
+ * The OpenZeppelin upgrades manifest of the chain, as kept by `upgrades.deployProxy` and `upgrades.prepareUpgrade`.
+ */
+export function readUpgradesManifest(chainId: number): ManifestData | undefined {
+  const fileName = (networkNames as { [chainId: number]: string | undefined })[chainId] || `unknown-${chainId}`;
+  const filePath = resolveRepoPath(`.openzeppelin/${fileName}.json`);
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as ManifestData;
+}
+
+export function getManifestStorageLayout(chainId: number, implementation: string): StorageLayout | undefined {
+  const manifest = readUpgradesManifest(chainId);
+  if (!manifest) return undefined;
+  const deployment = Object.values(manifest.impls).find(
+    (impl) =>
+      impl &&
+      (compareAddress(impl.address, implementation) ||
+        (impl.allAddresses || []).some((address) => compareAddress(address, implementation)))
+  );
+  return deployment ? deployment.layout : undefined;
+}
+
+/**
+ * Compares the storage layouts of two implementations recorded in the manifest. Undefined when
+ * either of them is missing from it.
+ */
+export function checkStorageLayout(
+  chainId: number,
+  oldImplementation: string,
+  newImplementation: string
+): StorageLayoutCheck | undefined {
+  const original = getManifestStorageLayout(chainId, oldImplementation);
+  const updated = getManifestStorageLayout(chainId, newImplementation);
+  if (!original || !updated) return undefined;
+  const report = getStorageUpgradeReport(original, updated, withValidationDefaults({}));
+  return { compatible: report.pass, explanation: report.ok ? "" : report.explain(false) };
+}
+
+// The trailing CBOR metadata changes with every build, its length is in the last two bytes
+export function stripMetadata(code: Uint8Array): Uint8Array {
+  if (code.length < 2) return code;
+  const metadataLength = (code[code.length - 2] << 8) + code[code.length - 1] + 2;
+  return metadataLength < code.length ? code.slice(0, code.length - metadataLength) : code;
+}
+
+/**
+ * Selectors of the function dispatcher, which compares the calldata selector against each of
+ * them with `PUSH4 <selector> (DUPn) EQ`.
+ */
+export function extractSelectors(code: string): Array<string> {
+  const bytes = stripMetadata(ethers.utils.arrayify(code));
+  const selectors = new Set<string>();
+  for (let i = 0; i < bytes.length; i++) {
+    const op = bytes[i];
+    if (op === PUSH4) {
+      const next = bytes[i + 5];
+      if (next === EQ || (next >= DUP1 && next <= DUP16 && bytes[i + 6] === EQ))
+        selectors.add(ethers.utils.hexlify(bytes.slice(i + 1, i + 5)));
+    }
+    if (op >= PUSH1 && op <= PUSH32) i += op - PUSH1 + 1;
+  }
+  return [...selectors];
+}
+
+export function describeSelector(selector: string): string {
+  for (const abi of getContractAbis()) {
+    const fragment = Object.values(abi.iface.functions).find((f) => abi.iface.getSighash(f) === selector);
+    if (fragment) return `${selector} ${fragment.format()}`;
+  }
+  return selector;
+}
+
+export async function diffImplementations(
+  provider: ethers.providers.Provider,
+  oldImplementation: string,
+  newImplementation: string
+): Promise<ImplementationDiff> {
+  const [oldCode, newCode] = await Promise.all([
+    provider.getCode(oldImplementation),
+    provider.getCode(newImplementation),
+  ]);
+  if (newCode === "0x") throw new Error(`[utils/upgrade-safety] No code at ${newImplementation}`);
+  const oldSelectors = extractSelectors(oldCode);
+  const newSelectors = extractSelectors(newCode);
+  return {
+    oldSize: ethers.utils.hexDataLength(oldCode),
+    newSize: ethers.utils.hexDataLength(newCode),
+    sameCode:
+      ethers.utils.hexlify(stripMetadata(ethers.utils.arrayify(oldCode))) ===
+      ethers.utils.hexlify(stripMetadata(ethers.utils.arrayify(newCode))),
+    addedFunctions: newSelectors.filter((s) => !oldSelectors.includes(s)).map(describeSelector),
+    removedFunctions: oldSelectors.filter((s) => !newSelectors.includes(s)).map(describeSelector),
+  };
+}
@@ -0,0 +1,255 @@
+import * as fs from "fs";
+import axios from "axios";
+import { ethers } from "ethers";
+import { artifacts, ethers as hardhatEthers, run, tenderly } from "hardhat";
+import { CompilerOutputContract } from "hardhat/types";
+import deploymentGraph from "../entities/deployment-graph";
+import { NetworkEntity } from "../entities/networks";
+import { compareAddress } from "./address";
+import { CREATE2_FACTORY } from "./create2";
+import { getMissingRequirements } from "./requirements";
+import { readDeploymentHistory } from "./deployment-history";
+import { getNetworkByChainId, resolveRepoPath } from "./network";
+
+export type VerificationProvider = "tenderly" | "etherscan" | "sourcify";
+
+export const VERIFICATION_PROVIDERS: ReadonlyArray<VerificationProvider> = ["tenderly", "etherscan", "sourcify"];
+
+export type VerificationStatus = {
+  status: "verified" | "failed";
+  attempts: number;
+  error?: string;
+  timestamp: number;
+};
+
+export type VerificationRecord = {
+  contract: string;
+  providers: { [provider in VerificationProvider]?: VerificationStatus };
+};
+
+// By lower case address
+export type VerificationRecords = { [address: string]: VerificationRecord };
+
+export type VerificationRequest = {
+  address: string;
+  name: string;
+  // Resolved from the deployment record when left out
+  constructorArguments?: Array<any>;
+};
+
+export type VerificationResult = {
+  provider: VerificationProvider;
+  result: "verified" | "failed" | "skipped";
+  detail: string;
+};
+
+const SOURCIFY_URL = "https://sourcify.dev/server";
+const RETRY_DELAYS_MS = [5000, 15000, 45000];
+// Explorers index new contracts with a delay and rate limit their APIs, these go away on retry
+const TRANSIENT_ERRORS =
+  /timeout|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up|rate limit|too many requests|\b(429|502|503|504)\b|does not have bytecode|unable to locate contractcode|pending in queue|try again/i;
+const ALREADY_VERIFIED = /already verified|already been verified/i;
+
+function _recordsPath(entity: NetworkEntity): string {
+  return entity.configPath.replace(/\.json$/, ".verifications.json");
+}
+
+export function readVerificationRecords(chainId: number): VerificationRecords {
+  const filePath = resolveRepoPath(_recordsPath(getNetworkByChainId(chainId)));
+  if (!fs.existsSync(filePath)) return {};
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as VerificationRecords;
+}
+
+function _recordVerification(
+  chainId: number,
+  address: string,
+  contract: string,
+  result: VerificationResult,
+  attempts: number
+) {
+  if (result.result === "skipped") return;
+  const entity = getNetworkByChainId(chainId);
+  const records = readVerificationRecords(chainId);
+  const record = records[address.toLowerCase()] || { contract, providers: {} };
+  record.contract = contract;
+  record.providers[result.provider] = {
+    status: result.result,
+    attempts,
+    error: result.result === "failed" ? result.detail : undefined,
+    timestamp: Math.floor(Date.now() / 1000),
+  };
+  records[address.toLowerCase()] = record;
+  fs.writeFileSync(resolveRepoPath(_recordsPath(entity)), JSON.stringify(records, null, 2));
+}
+
+/**
+ * Providers to verify with, comma-separated, from VERIFY_PROVIDERS by default and Tenderly when unset.
+ */
+export function getVerificationProviders(
+  spec: string = process.env.VERIFY_PROVIDERS || "tenderly"
+): Array<VerificationProvider> {
+  const providers = spec
+    .split(",")
+    .map((provider) => provider.trim())
+    .filter(Boolean);
+  const unknown = providers.filter((provider) => !VERIFICATION_PROVIDERS.includes(provider as VerificationProvider));
+  if (unknown.length > 0)
+    throw new Error(
+      `[utils/verification] Unknown verification provider ${unknown.join(", ")}, expected ${VERIFICATION_PROVIDERS.join(
+        ", "
+      )}`
+    );
+  return providers as Array<VerificationProvider>;
+}
+
+function _missingRequirements(chainId: number, provider: VerificationProvider): Array<string> {
+  if (provider === "tenderly") return getMissingRequirements(chainId, ["tenderly"]);
+  if (provider === "etherscan") return getMissingRequirements(chainId, ["etherscan"]);
+  return [];
+}
+
+/**
+ * Finds the constructor arguments of a contract in the transaction that created it, as recorded
+ * in the deployment history. Contracts whose constructor takes nothing need no record.
+ */
+export async function resolveConstructorArguments(chainId: number, address: string, name: string): Promise<Array<any>> {
+  const factory = await hardhatEthers.getContractFactory(name);
+  const inputs = factory.interface.deploy.inputs;
+  if (inputs.length === 0) return [];
+
+  const entry = readDeploymentHistory(getNetworkByChainId(chainId))
+    .entries.filter((each) => each.txHash && each.newAddress.toLowerCase() === address.toLowerCase())
+    .pop();
+  if (!entry)
+    throw new Error(`[utils/verification] No deployment of ${address} is recorded, pass the constructor arguments`);
+  const tx = await hardhatEthers.provider.getTransaction(entry.txHash);
+  // The CREATE2 factory takes a salt followed by the creation code, other factories build theirs
+  const create2 = !!tx && !!tx.to && compareAddress(tx.to, CREATE2_FACTORY);
+  const creationCode = !tx ? "" : create2 ? `0x${tx.data.substring(66)}` : tx.data;
+  if (!tx || (tx.to && !create2) || creationCode.length <= factory.bytecode.length)
+    throw new Error(
+      `[utils/verification] ${entry.txHash} does not create ${name} directly, pass the constructor arguments`
+    );
+  const encoded = `0x${creationCode.substring(factory.bytecode.length)}`;
+  return Array.from(ethers.utils.defaultAbiCoder.decode(inputs, encoded));
+}
+
+// Solc emits the metadata, hardhat leaves it out of its output type
+type CompilerOutputContractWithMetadata = CompilerOutputContract & { metadata: string };
+
+async function _verifySourcify(chainId: number, address: string, name: string) {
+  const checked = await axios.get(`${SOURCIFY_URL}/check-by-addresses`, {
+    params: { addresses: address, chainIds: chainId },
+  });
+  if (checked.data.length > 0 && ["perfect", "partial"].includes(checked.data[0].status)) return;
+
+  const artifact = await artifacts.readArtifact(name);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  if (!buildInfo) throw new Error(`[utils/verification] No build info for ${name}, compile first`);
+  const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName];
+  const { metadata } = output as CompilerOutputContractWithMetadata;
+  const files: { [file: string]: string } = { "metadata.json": metadata };
+  for (const source of Object.keys(JSON.parse(metadata).sources))
+    files[source] = buildInfo.input.sources[source].content;
+
+  const response = await axios.post(`${SOURCIFY_URL}/verify`, { address, chain: String(chainId), files });
+  const status = response.data.result && response.data.result[0] && response.data.result[0].status;
+  if (status !== "perfect" && status !== "partial")
+    throw new Error(`[utils/verification] Sourcify did not match ${name}: ${JSON.stringify(response.data)}`);
+}
+
+async function _verifyWith(
+  chainId: number,
+  provider: VerificationProvider,
+  request: VerificationRequest,
+  constructorArguments: () => Promise<Array<any>>
+) {
+  switch (provider) {
+    case "tenderly":
+      return await tenderly.verify({ address: request.address, name: request.name });
+    case "etherscan":
+      return await run("verify:verify", {
+        address: request.address,
+        constructorArguments: await constructorArguments(),
+      });
+    case "sourcify":
+      return await _verifySourcify(chainId, request.address, request.name);
+  }
+}
+
+function _errorMessage(e: any): string {
+  return (e && (e.response ? `${e.response.status} ${JSON.stringify(e.response.data)}` : e.message)) || String(e);
+}
+
+/**
+ * Verifies a deployed contract with every provider, retrying transient failures, and records the
+ * outcome per address next to the address book. Failures are logged and returned rather than
+ * thrown so that a deployment script carries on, `hmx Verification verify-all` catches up later.
+ */
+export async function verifyContract(
+  request: VerificationRequest,
+  providers: Array<VerificationProvider> = getVerificationProviders()
+): Promise<Array<VerificationResult>> {
+  const chainId = (await hardhatEthers.provider.getNetwork()).chainId;
+  if (getNetworkByChainId(chainId).hardhatNetworks.includes("hardhat")) {
+    console.log(`[utils/verification] Skipping verification of ${request.name} on a local chain`);
+    return providers.map((provider) => ({ provider, result: "skipped", detail: "local chain" }));
+  }
+
+  let constructorArguments = request.constructorArguments;
+  const resolveArguments = async () => {
+    if (!constructorArguments)
+      constructorArguments = await resolveConstructorArguments(chainId, request.address, request.name);
+    return constructorArguments;
+  };
+
+  const results: Array<VerificationResult> = [];
+  for (const provider of providers) {
+    const missing = _missingRequirements(chainId, provider);
+    if (missing.length > 0) {
+      console.warn(`[utils/verification] Skipping ${provider}: ${missing.join(", ")}`);
+      results.push({ provider, result: "skipped", detail: missing.join(", ") });
+      continue;
+    }
+
+    let attempts = 0;
+    let result: VerificationResult | undefined;
+    while (!result) {
+      attempts++;
+      console.log(`[utils/verification] Verifying ${request.name} at ${request.address} on ${provider}...`);
+      try {
+        await _verifyWith(chainId, provider, request, resolveArguments);
+        result = { provider, result: "verified", detail: "" };
+      } catch (e) {
+        const message = _errorMessage(e);
+        if (ALREADY_VERIFIED.test(message)) result = { provider, result: "verified", detail: "already verified" };
+        else if (TRANSIENT_ERRORS.test(message) && attempts <= RETRY_DELAYS_MS.length) {
+          const delay = RETRY_DELAYS_MS[attempts - 1];
+          console.warn(`[utils/verification] ${provider} failed (${message}), retrying in ${delay / 1000}s...`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        } else result = { provider, result: "failed", detail: message };
+      }
+    }
+    if (result.result === "failed")
+      console.error(`[utils/verification] ❌ ${request.name} at ${request.address} on ${provider}: ${result.detail}`);
+    else console.log(`[utils/verification] ✅ ${request.name} at ${request.address} on ${provider}`);
+    _recordVerification(chainId, request.address, request.name, result, attempts);
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Contract name behind an address book entry: the one it was last verified as, else the one
+ * its latest deployment recorded, else the one the deployment graph deploys there.
+ */
+export function resolveContractName(chainId: number, key: string, address: string): string | undefined {
+  const record = readVerificationRecords(chainId)[address.toLowerCase()];
+  if (record) return record.contract;
+  const entry = readDeploymentHistory(getNetworkByChainId(chainId))
+    .entries.filter((each) => each.key === key && each.contract)
+    .pop();
+  if (entry) return entry.contract;
+  const node = deploymentGraph.nodes.find((each) => each.key === key);
+  return node ? node.contract : undefined;
+}
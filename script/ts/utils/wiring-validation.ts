@@ -0,0 +1,213 @@
+import { ethers } from "ethers";
+import deploymentGraph from "../entities/deployment-graph";
+import marketRegistry, { getRegistryAssetId } from "../entities/market-registry";
+import { getAddressBookKey } from "./abi-decoder";
+import { getAddressBookEntry, loadConfig } from "./config";
+import { readWiringStep } from "./deployment-orchestrator";
+
+export type WiringResult = "pass" | "fail" | "skip";
+
+export type WiringEdge = {
+  // Address book key of the contract read
+  contract: string;
+  // e.g. `tradeService()` or `serviceExecutors(services.trade, handlers.bot)`
+  edge: string;
+  expected: string;
+  actual: string;
+  result: WiringResult;
+};
+
+// Pointer getters and the address book key each of them should return
+const POINTERS: { [contract: string]: { [getter: string]: string } } = {
+  "handlers.crossMargin": { crossMarginService: "services.crossMargin", pyth: "oracles.ecoPyth2" },
+  "handlers.limitTrade": {
+    tradeService: "services.trade",
+    pyth: "oracles.ecoPyth2",
+    weth: "tokens.weth",
+    limitTradeHelper: "helpers.limitTrade",
+  },
+  "handlers.liquidity": { liquidityService: "services.liquidity", pyth: "oracles.ecoPyth2" },
+  "handlers.bot": {
+    tradeService: "services.trade",
+    liquidationService: "services.liquidation",
+    crossMarginService: "services.crossMargin",
+    pyth: "oracles.ecoPyth2",
+  },
+  "handlers.ext01": {
+    crossMarginService: "services.crossMargin",
+    liquidationService: "services.liquidation",
+    liquidityService: "services.liquidity",
+    tradeService: "services.trade",
+    pyth: "oracles.ecoPyth2",
+  },
+  "handlers.rebalanceHLPv2": { service: "services.rebalanceHLPv2" },
+  "services.crossMargin": {
+    configStorage: "storages.config",
+    vaultStorage: "storages.vault",
+    perpStorage: "storages.perp",
+    calculator: "calculator",
+    convertedSglpStrategy: "strategies.convertedGlpStrategy",
+  },
+  "services.trade": {
+    configStorage: "storages.config",
+    vaultStorage: "storages.vault",
+    perpStorage: "storages.perp",
+    tradeHelper: "helpers.trade",
+    calculator: "calculator",
+  },
+  "services.liquidation": {
+    configStorage: "storages.config",
+    vaultStorage: "storages.vault",
+    perpStorage: "storages.perp",
+    tradeHelper: "helpers.trade",
+    calculator: "calculator",
+  },
+  "services.liquidity": {
+    configStorage: "storages.config",
+    vaultStorage: "storages.vault",
+    perpStorage: "storages.perp",
+  },
+  "services.rebalanceHLPv2": { configStorage: "storages.config", vaultStorage: "storages.vault" },
+  "helpers.trade": {
+    configStorage: "storages.config",
+    vaultStorage: "storages.vault",
+    perpStorage: "storages.perp",
+    calculator: "calculator",
+    adaptiveFeeCalculator: "adaptiveFeeCalculator",
+    orderbookOracle: "oracles.orderbook",
+  },
+  calculator: {
+    oracle: "oracles.middleware",
+    configStorage: "storages.config",
+    vaultStorage: "storages.vault",
+    perpStorage: "storages.perp",
+    tradeHelper: "helpers.trade",
+  },
+  "storages.config": {
+    calculator: "calculator",
+    oracle: "oracles.middleware",
+    hlp: "tokens.hlp",
+    weth: "tokens.weth",
+    switchCollateralRouter: "extension.switchCollateralRouter",
+  },
+  "oracles.pythAdapter": { pyth: "oracles.ecoPyth2" },
+};
+
+// In the order set by configs/ConfigStorage/set-trade-service-hooks.ts
+const TRADE_SERVICE_HOOKS = ["hooks.tlc", "hooks.tradingStaking"];
+
+// Adapters deriving their price from other prices, the others read it on chain
+const CALC_PRICE_ADAPTERS = ["dix"];
+
+function _label(chainId: number, address: string): string {
+  if (address === ethers.constants.AddressZero) return "none";
+  const key = getAddressBookKey(chainId, address);
+  return key ? `${key} (${address})` : address;
+}
+
+async function _read(
+  provider: ethers.providers.Provider,
+  address: string,
+  signature: string,
+  args: Array<any> = []
+): Promise<any> {
+  const fragment = ethers.utils.FunctionFragment.from(`function ${signature}`);
+  return await new ethers.Contract(address, [fragment], provider)[fragment.name](...args);
+}
+
+/**
+ * Reads every edge of the wiring of the deployment: the pointers of handlers, services and helpers,
+ * the executors and updaters set up by the deployment graph, the TradeService hooks and the price
+ * adapters of the lenses. Edges of which either end is not in the address book are skipped.
+ */
+export async function validateWiring(chainId: number, provider: ethers.providers.Provider): Promise<Array<WiringEdge>> {
+  const config = loadConfig(chainId);
+  const edges: Array<WiringEdge> = [];
+  const skip = (contract: string, edge: string, reason: string) =>
+    edges.push({ contract, edge, expected: reason, actual: "", result: "skip" });
+  const compare = (contract: string, edge: string, expected: string, actual: string, display?: [string, string]) =>
+    edges.push({
+      contract,
+      edge,
+      expected: display ? display[0] : expected,
+      actual: display ? display[1] : actual,
+      result: expected.toLowerCase() === actual.toLowerCase() ? "pass" : "fail",
+    });
+  const readEdge = async (contract: string, edge: string, read: () => Promise<void>) => {
+    try {
+      await read();
+    } catch (e) {
+      edges.push({ contract, edge, expected: "", actual: `reverted: ${(e as Error).message}`, result: "fail" });
+    }
+  };
+
+  for (const [contract, getters] of Object.entries(POINTERS)) {
+    const address = getAddressBookEntry(config, contract);
+    for (const [getter, expectedKey] of Object.entries(getters)) {
+      const edge = `${getter}()`;
+      const expected = getAddressBookEntry(config, expectedKey);
+      if (!address) skip(contract, edge, `${contract} not in the address book`);
+      else if (!expected) skip(contract, edge, `${expectedKey} not in the address book`);
+      else
+        await readEdge(contract, edge, async () => {
+          const actual: string = await _read(provider, address, `${getter}() view returns (address)`);
+          compare(contract, edge, expected, actual, [_label(chainId, expected), _label(chainId, actual)]);
+        });
+    }
+  }
+
+  for (const step of deploymentGraph.wiring.filter((each) => each.check)) {
+    const refs = [step.contract, ...step.args.map((arg) => (typeof arg === "object" ? arg.ref : undefined))];
+    const edge = `${step.check}(${refs.slice(1, -1).filter(Boolean).join(", ")})`;
+    // Pointers such as ConfigStorage.calculator() are set up by the graph too
+    if (edges.some((each) => each.contract === step.contract && each.edge === edge)) continue;
+    const absent = refs.find((key) => key && !getAddressBookEntry(config, key));
+    if (absent) skip(step.contract, edge, `${absent} not in the address book`);
+    else
+      await readEdge(step.contract, edge, async () => {
+        const { expected, actual } = await readWiringStep(provider, config, step);
+        const display = ethers.utils.isAddress(expected)
+          ? ([_label(chainId, expected), _label(chainId, actual)] as [string, string])
+          : undefined;
+        compare(step.contract, edge, expected, actual, display);
+      });
+  }
+
+  const configStorage = getAddressBookEntry(config, "storages.config");
+  const expectedHooks = TRADE_SERVICE_HOOKS.map((key) => getAddressBookEntry(config, key));
+  if (!configStorage || expectedHooks.some((hook) => !hook))
+    skip("storages.config", "getTradeServiceHooks()", "storages.config or a hook not in the address book");
+  else
+    await readEdge("storages.config", "getTradeServiceHooks()", async () => {
+      const hooks: Array<string> = await _read(
+        provider,
+        configStorage,
+        "getTradeServiceHooks() view returns (address[])"
+      );
+      compare("storages.config", "getTradeServiceHooks()", expectedHooks.join(","), hooks.join(","), [
+        TRADE_SERVICE_HOOKS.join(", "),
+        hooks.map((hook) => getAddressBookKey(chainId, hook) || hook).join(", "),
+      ]);
+    });
+
+  for (const asset of marketRegistry.assets) {
+    if (!asset.price || !("priceAdapter" in asset.price)) continue;
+    const adapterKey = `oracles.priceAdapters.${asset.price.priceAdapter}`;
+    const lens = CALC_PRICE_ADAPTERS.includes(asset.price.priceAdapter)
+      ? "oracles.calcPriceLens"
+      : "oracles.onChainPriceLens";
+    const edge = `priceAdapterById(${asset.symbol})`;
+    const lensAddress = getAddressBookEntry(config, lens);
+    const expected = getAddressBookEntry(config, adapterKey);
+    if (!lensAddress) skip(lens, edge, `${lens} not in the address book`);
+    else if (!expected) skip(lens, edge, `${adapterKey} not in the address book`);
+    else
+      await readEdge(lens, edge, async () => {
+        const actual: string = await _read(provider, lensAddress, "priceAdapterById(bytes32) view returns (address)", [
+          getRegistryAssetId(asset),
+        ]);
+        compare(lens, edge, expected, actual, [_label(chainId, expected), _label(chainId, actual)]);
+      });
+  }
+  return edges;
+}
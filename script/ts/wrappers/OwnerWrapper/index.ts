@@ -3,17 +3,31 @@ import SafeWrapper from "../SafeWrapper";
 import TimelockWrapper from "../TimelockWrapper";
 import { OwnableUpgradeable__factory } from "../../../../typechain";
 import { loadConfig } from "../../utils/config";
+import { compareAddress } from "../../utils/address";
+import { isDryRun } from "../../utils/cli-context";
+import { simulateTransaction } from "../../utils/simulation";
+import { decodeCalldata, getAddressBookKey } from "../../utils/abi-decoder";
+import { TimelockQueueRequest } from "../TimelockWrapper/type";
+import { OwnerCall, OwnerExecOptions, OwnerRoute } from "./type";
+
+// Timelock-like contracts expose admin() instead of owner()
+const OWNER_GETTERS = ["owner", "admin"];
+const MAX_OWNERSHIP_DEPTH = 5;
 
 export class OwnerWrapper {
+  chainId: number;
   timelockWrapper: TimelockWrapper;
   safeWrapper: SafeWrapper;
   signer: ethers.Signer;
+  proxyAdmin: string;
 
   constructor(chainId: number, signer: ethers.Signer) {
     const config = loadConfig(chainId);
+    this.chainId = chainId;
     this.timelockWrapper = new TimelockWrapper(chainId, signer);
     this.safeWrapper = new SafeWrapper(chainId, config.safe, signer);
     this.signer = signer;
+    this.proxyAdmin = config.proxyAdmin;
   }
 
   async authExec(to: string, data: string) {
@@ -23,20 +37,172 @@ export class OwnerWrapper {
     const timelockAddress = this.timelockWrapper.getAddress();
     const safeWrapperAddress = this.safeWrapper.getAddress();
 
-    if (owner === signerAddress) {
+    if (compareAddress(owner, timelockAddress)) {
+      // Queueing simulates on its own in dry-run mode, from whoever the Timelock admin is
+      console.log(`[wrapper/Owner] Timelock is the owner of ${to}`);
+      await this._queueOnTimelock(to, data);
+    } else if (isDryRun()) {
+      await simulateTransaction(this.chainId, { from: owner, to, data, label: `authExec as the owner of ${to}` });
+    } else if (compareAddress(owner, signerAddress)) {
       console.log(`[wrapper/Owner] Signer is the owner of ${to}`);
       console.log(`[wrapper/Owner] Executing tx right away...`);
       const tx = await this.signer.sendTransaction({ to, data });
       console.log(`[wrapper/Owner] Tx: ${tx.hash}`);
-    } else if (owner === timelockAddress) {
-      throw new Error("Not implemented when owner is Timelock yet");
-    } else if (owner === safeWrapperAddress) {
+    } else if (compareAddress(owner, safeWrapperAddress)) {
       console.log(`[wrapper/Owner] Safe is the owner of ${to}`);
       console.log(`[wrapper/Owner] Proposing tx...`);
       const tx = await this.safeWrapper.proposeTransaction(to, 0, data);
       console.log(`[wrapper/Owner] Tx: ${tx}`);
     } else {
-      throw new Error("Unknown owner");
+      const chain = await this._ownershipChain(to);
+      throw new Error(
+        `[wrapper/Owner] Cannot execute on ${to} as its owner, ownership chain: ${chain.join(" -> ")}. ${
+          compareAddress(owner, this.proxyAdmin)
+            ? "ProxyAdmin can only upgrade and change admins, it cannot forward calls."
+            : "Only the signer, the Safe and the Timelock can be acted as."
+        }`
+      );
+    }
+  }
+
+  /**
+   * The way to act as the owner of `to`, throws when neither the signer, the Safe nor the
+   * Timelock owns it.
+   */
+  async getRoute(to: string): Promise<OwnerRoute> {
+    const owner = await OwnableUpgradeable__factory.connect(to, this.signer).owner();
+    if (compareAddress(owner, this.timelockWrapper.getAddress())) return "timelock";
+    if (compareAddress(owner, this.safeWrapper.getAddress())) return "safe";
+    if (compareAddress(owner, await this.signer.getAddress())) return "signer";
+    const chain = await this._ownershipChain(to);
+    throw new Error(`[wrapper/Owner] Cannot execute on ${to} as its owner, ownership chain: ${chain.join(" -> ")}`);
+  }
+
+  /**
+   * Executes several calls as the owners of their targets, so that the change needs one approval
+   * per owner: the Safe-owned calls go in one proposal and the Timelock-owned ones are queued
+   * with the same eta. Calls of different owners cannot be made atomic.
+   */
+  async authExecMany(calls: Array<OwnerCall>, opts?: OwnerExecOptions): Promise<Array<OwnerRoute>> {
+    const routes: Array<OwnerRoute> = [];
+    for (const call of calls) routes.push(await this.getRoute(call.to));
+    const routed = (route: OwnerRoute) => calls.filter((_, i) => routes[i] === route);
+
+    for (const call of routed("signer")) {
+      const info = call.info || call.to;
+      if (isDryRun()) {
+        await simulateTransaction(this.chainId, {
+          from: await this.signer.getAddress(),
+          to: call.to,
+          data: call.data,
+          label: info,
+        });
+        continue;
+      }
+      console.log(`[wrapper/Owner] Executing ${info} as the signer...`);
+      const tx = await this.signer.sendTransaction({ to: call.to, data: call.data });
+      await tx.wait();
+      console.log(`[wrapper/Owner] Tx: ${tx.hash}`);
+    }
+
+    const safeCalls = routed("safe");
+    if (safeCalls.length > 0) {
+      console.log(`[wrapper/Owner] Proposing ${safeCalls.length} calls owned by the Safe...`);
+      const batch = this.safeWrapper.createBatch();
+      for (const call of safeCalls) batch.add(call.to, 0, call.data, call.info);
+      const txs = await batch.propose();
+      console.log(`[wrapper/Owner] Tx: ${txs.join(", ")}`);
+    }
+
+    const timelockCalls = routed("timelock");
+    if (timelockCalls.length > 0) {
+      const eta = opts && opts.eta ? opts.eta : await this.timelockWrapper.earliestEta();
+      console.log(`[wrapper/Owner] Queueing ${timelockCalls.length} calls owned by the Timelock...`);
+      const queued = await this.timelockWrapper.queueTransactions(
+        timelockCalls.map((call) => this._toQueueRequest(call.to, call.data, call.info)),
+        eta
+      );
+      console.log(`[wrapper/Owner] Executable after ${new Date(eta * 1000).toISOString()} with:`);
+      for (const tx of queued) console.log(`[wrapper/Owner] ${tx.executionTransaction}`);
+    }
+    return routes;
+  }
+
+  // The Timelock takes a signature and its encoded params, so the calldata has to be split back up
+  private _toQueueRequest(to: string, data: string, info?: string): TimelockQueueRequest {
+    const call = decodeCalldata(data, getAddressBookKey(this.chainId, to));
+    if (!call) throw new Error(`[wrapper/Owner] Cannot decode ${data.substring(0, 10)} to queue it on the Timelock`);
+    const paramTypes = call.fragment.inputs.map((input) => input.format(ethers.utils.FormatTypes.full));
+    const params = call.fragment.inputs.map((_, i) => call.args[i]);
+    if (ethers.utils.defaultAbiCoder.encode(paramTypes, params) !== ethers.utils.hexDataSlice(data, 4))
+      throw new Error(`[wrapper/Owner] Re-encoding ${call.fragment.format()} does not give the original calldata`);
+    return {
+      info: info || `${call.contractName}.${call.fragment.name}`,
+      target: to,
+      value: 0,
+      signature: call.fragment.format(),
+      paramTypes,
+      params,
+    };
+  }
+
+  private async _queueOnTimelock(to: string, data: string) {
+    const request = this._toQueueRequest(to, data);
+    const timelockAdmin = await this.timelockWrapper.owner();
+    console.log(
+      `[wrapper/Owner] Timelock admin is ${
+        compareAddress(timelockAdmin, this.safeWrapper.getAddress()) ? "the Safe" : timelockAdmin
+      }, queueing ${request.info}...`
+    );
+    const eta = await this.timelockWrapper.earliestEta();
+    const queued = await this.timelockWrapper.queueTransaction(
+      request.info,
+      to,
+      0,
+      request.signature,
+      request.paramTypes,
+      request.params,
+      eta
+    );
+    console.log(`[wrapper/Owner] Executable after ${new Date(eta * 1000).toISOString()} with:`);
+    console.log(`[wrapper/Owner] ${queued.executionTransaction}`);
+  }
+
+  private async _label(address: string): Promise<string> {
+    if (compareAddress(address, await this.signer.getAddress())) return `${address} (signer)`;
+    // Safe, Timelock and ProxyAdmin are in the address book too
+    const key = getAddressBookKey(this.chainId, address);
+    return key ? `${address} (${key})` : address;
+  }
+
+  // Follows owner()/admin() from `address` up to an EOA, a known actor or a contract without either
+  private async _ownershipChain(address: string): Promise<Array<string>> {
+    const provider = this.signer.provider!;
+    const chain = [await this._label(address)];
+    const visited = new Set([address.toLowerCase()]);
+    let current = address;
+    for (let depth = 0; depth < MAX_OWNERSHIP_DEPTH; depth++) {
+      let next: string | undefined;
+      for (const getter of OWNER_GETTERS) {
+        try {
+          const contract = new ethers.Contract(current, [`function ${getter}() view returns (address)`], provider);
+          next = await contract[getter]();
+          break;
+        } catch (e) {
+          // Not exposed by this contract
+        }
+      }
+      if (!next || visited.has(next.toLowerCase())) break;
+      visited.add(next.toLowerCase());
+      chain.push(await this._label(next));
+      current = next;
+      if (
+        compareAddress(next, await this.signer.getAddress()) ||
+        compareAddress(next, this.safeWrapper.getAddress()) ||
+        (await provider.getCode(next)) === "0x"
+      )
+        break;
     }
+    return chain;
   }
 }
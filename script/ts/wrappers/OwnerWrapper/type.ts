@@ -0,0 +1,12 @@
+export type OwnerCall = {
+  to: string;
+  data: string;
+  info?: string;
+};
+
+export type OwnerRoute = "signer" | "safe" | "timelock";
+
+export type OwnerExecOptions = {
+  // Timelock eta of the queued calls, defaults to the earliest one
+  eta?: number;
+};
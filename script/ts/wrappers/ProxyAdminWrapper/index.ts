@@ -4,8 +4,12 @@ import SafeWrapper from "../SafeWrapper";
 import TimelockWrapper from "../TimelockWrapper";
 import { loadConfig } from "../../utils/config";
 import { compareAddress } from "../../utils/address";
+import { decodeCalldata, formatDecodedCall, getAddressBookKey } from "../../utils/abi-decoder";
+import { checkStorageLayout, diffImplementations } from "../../utils/upgrade-safety";
+import { ProxyAdminUpgradeOptions, ProxyAdminUpgradeRoute, ProxyUpgrade } from "./type";
 
 export default class {
+  chainId: number;
   proxyAdmin: ethers.Contract;
   timelockWrapper: TimelockWrapper;
   safeWrapper: SafeWrapper;
@@ -13,52 +17,132 @@ export default class {
 
   constructor(chainId: number, signer: ethers.Signer) {
     const config = loadConfig(chainId);
+    this.chainId = chainId;
     this.proxyAdmin = new ethers.Contract(config.proxyAdmin, ProxyAdminAbi, signer);
     this.timelockWrapper = new TimelockWrapper(chainId, signer);
     this.safeWrapper = new SafeWrapper(chainId, config.safe, signer);
     this.signer = signer;
   }
 
-  async upgrade(proxyAddress: string, implementationAddress: string) {
+  async upgrade(
+    proxyAddress: string,
+    implementationAddress: string,
+    opts?: ProxyAdminUpgradeOptions
+  ): Promise<ProxyAdminUpgradeRoute> {
+    return this.upgradeMany([{ proxy: proxyAddress, implementation: implementationAddress }], opts);
+  }
+
+  async upgradeAndCall(
+    proxyAddress: string,
+    implementationAddress: string,
+    data: string,
+    opts?: ProxyAdminUpgradeOptions
+  ): Promise<ProxyAdminUpgradeRoute> {
+    return this.upgradeMany([{ proxy: proxyAddress, implementation: implementationAddress, data }], opts);
+  }
+
+  /**
+   * Shows what changes between the current and the new implementation and checks that the
+   * storage layout of the new one, as recorded in the OpenZeppelin manifest, is compatible.
+   */
+  async checkUpgrade(upgrade: ProxyUpgrade, opts?: ProxyAdminUpgradeOptions) {
+    const key = getAddressBookKey(this.chainId, upgrade.proxy);
+    const current: string = await this.proxyAdmin.getProxyImplementation(upgrade.proxy);
+    console.log(`[wrapper/ProxyAdmin] ${upgrade.proxy}${key ? ` (${key})` : ""}`);
+    console.log(`[wrapper/ProxyAdmin]   implementation: ${current} -> ${upgrade.implementation}`);
+    if (compareAddress(current, upgrade.implementation))
+      throw new Error(`[wrapper/ProxyAdmin] ${upgrade.proxy} is already at ${upgrade.implementation}`);
+
+    const diff = await diffImplementations(this.proxyAdmin.provider, current, upgrade.implementation);
+    console.log(`[wrapper/ProxyAdmin]   code size: ${diff.oldSize} -> ${diff.newSize} bytes`);
+    if (diff.sameCode) console.warn(`[wrapper/ProxyAdmin]   ⚠️ Same code as the current implementation`);
+    for (const f of diff.addedFunctions) console.log(`[wrapper/ProxyAdmin]   + ${f}`);
+    for (const f of diff.removedFunctions) console.log(`[wrapper/ProxyAdmin]   - ${f}`);
+
+    if (upgrade.data) {
+      const call = decodeCalldata(upgrade.data, key);
+      console.log(`[wrapper/ProxyAdmin]   then calls ${call ? formatDecodedCall(call) : upgrade.data}`);
+    }
+
+    const unsafe = opts && opts.unsafeSkipStorageCheck;
+    const storage = checkStorageLayout(this.chainId, current, upgrade.implementation);
+    if (!storage || !storage.compatible) {
+      const reason = storage
+        ? `has an incompatible storage layout:\n${storage.explanation}`
+        : "cannot be checked, both implementations have to be in the OpenZeppelin manifest";
+      if (!unsafe) throw new Error(`[wrapper/ProxyAdmin] Upgrade of ${upgrade.proxy} ${reason}`);
+      console.warn(`[wrapper/ProxyAdmin]   ⚠️ Storage layout ${reason}, proceeding as asked`);
+    } else {
+      console.log(`[wrapper/ProxyAdmin]   storage layout: compatible`);
+    }
+  }
+
+  /**
+   * Upgrades several proxies as one governance change: one Safe proposal, or one batch of
+   * Timelock transactions with the same eta.
+   */
+  async upgradeMany(upgrades: Array<ProxyUpgrade>, opts?: ProxyAdminUpgradeOptions): Promise<ProxyAdminUpgradeRoute> {
+    for (const upgrade of upgrades) await this.checkUpgrade(upgrade, opts);
+
     const owner = await this.proxyAdmin.owner();
     const signer = await this.signer.getAddress();
     const timelockOwner = this.timelockWrapper.getAddress();
 
     if (compareAddress(owner, this.safeWrapper.getAddress())) {
-      // Safe is the owner of the ProxyAdmin
-      console.log(`[wrapper/PrpxyAdmin] Safe is the owner of the ProxyAdmin`);
-      console.log(`[wrapper/ProxyAdmin] Proposing upgrade of ${proxyAddress} to ${implementationAddress}`);
-      await this.safeWrapper.proposeTransaction(
-        this.proxyAdmin.address,
-        0,
-        this.proxyAdmin.interface.encodeFunctionData("upgrade", [proxyAddress, implementationAddress])
-      );
+      console.log(`[wrapper/ProxyAdmin] Safe is the owner of the ProxyAdmin`);
+      const batch = this.safeWrapper.createBatch();
+      for (const upgrade of upgrades)
+        batch.add(this.proxyAdmin.address, 0, this._encode(upgrade), `upgrade ${upgrade.proxy}`);
+      await batch.propose();
       console.log(`[wrapper/ProxyAdmin] Done`);
+      return "safe";
     } else if (compareAddress(owner, timelockOwner)) {
-      console.log(`[wrapper/PrpxyAdmin] Timelock is the owner of the ProxyAdmin`);
-      console.log(`[wrapper/ProxyAdmin] Queueing upgrade of ${proxyAddress} to ${implementationAddress}`);
-      // Timelock is the owner of the ProxyAdmin
-      const minimumDelay = await this.timelockWrapper.minimumDelay();
-      // Add 15 minutes to the current timestamp + minimumDelay
-      const eta = Math.floor(Date.now() / 1000) + Number(minimumDelay.toString()) + 900;
-      await this.timelockWrapper.queueTransaction(
-        "Upgrade Proxy",
-        this.proxyAdmin.address,
-        0,
-        "upgrade(address,address)",
-        ["address", "address"],
-        [proxyAddress, implementationAddress],
+      console.log(`[wrapper/ProxyAdmin] Timelock is the owner of the ProxyAdmin`);
+      const eta = opts && opts.eta ? opts.eta : await this.timelockWrapper.earliestEta();
+      await this.timelockWrapper.queueTransactions(
+        upgrades.map((upgrade) =>
+          upgrade.data
+            ? {
+                info: `Upgrade Proxy ${upgrade.proxy} and call`,
+                target: this.proxyAdmin.address,
+                value: 0,
+                signature: "upgradeAndCall(address,address,bytes)",
+                paramTypes: ["address", "address", "bytes"],
+                params: [upgrade.proxy, upgrade.implementation, upgrade.data],
+              }
+            : {
+                info: `Upgrade Proxy ${upgrade.proxy}`,
+                target: this.proxyAdmin.address,
+                value: 0,
+                signature: "upgrade(address,address)",
+                paramTypes: ["address", "address"],
+                params: [upgrade.proxy, upgrade.implementation],
+              }
+        ),
         eta
       );
       console.log(`[wrapper/ProxyAdmin] Done`);
+      return "timelock";
     } else if (compareAddress(owner, signer)) {
-      // Signer is the owner of the ProxyAdmin
-      console.log(`[wrapper/PrpxyAdmin] Signer is the owner of the ProxyAdmin`);
-      console.log(`[wrapper/ProxyAdmin] Upgrading ${proxyAddress} to ${implementationAddress}`);
-      await this.proxyAdmin.upgrade(proxyAddress, implementationAddress);
+      console.log(`[wrapper/ProxyAdmin] Signer is the owner of the ProxyAdmin`);
+      for (const upgrade of upgrades) {
+        console.log(`[wrapper/ProxyAdmin] Upgrading ${upgrade.proxy} to ${upgrade.implementation}`);
+        const tx = await this.signer.sendTransaction({ to: this.proxyAdmin.address, data: this._encode(upgrade) });
+        await tx.wait();
+      }
       console.log(`[wrapper/ProxyAdmin] Done`);
-    } else {
-      throw new Error("ProxyAdmin is not owned by Safe or Timelock");
+      return "signer";
     }
+    throw new Error("ProxyAdmin is not owned by Safe or Timelock");
+  }
+
+  private _encode(upgrade: ProxyUpgrade): string {
+    return upgrade.data
+      ? this.proxyAdmin.interface.encodeFunctionData("upgradeAndCall", [
+          upgrade.proxy,
+          upgrade.implementation,
+          upgrade.data,
+        ])
+      : this.proxyAdmin.interface.encodeFunctionData("upgrade", [upgrade.proxy, upgrade.implementation]);
   }
 }
@@ -0,0 +1,16 @@
+export type ProxyUpgrade = {
+  proxy: string;
+  implementation: string;
+  // Initializer calldata, upgrades with `upgradeAndCall` when set
+  data?: string;
+};
+
+export type ProxyAdminUpgradeOptions = {
+  // Timelock eta, defaults to the earliest one
+  eta?: number;
+  // Proceed when the storage layouts cannot be compared or are incompatible
+  unsafeSkipStorageCheck?: boolean;
+};
+
+// Who carried the upgrade out: done right away by the signer, or pending in the Safe or the Timelock
+export type ProxyAdminUpgradeRoute = "signer" | "safe" | "timelock";
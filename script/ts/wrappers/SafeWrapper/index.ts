@@ -1,19 +1,40 @@
 import Safe from "@safe-global/safe-core-sdk";
-import { EthAdapter, SafeTransactionDataPartial } from "@safe-global/safe-core-sdk-types";
+import {
+  EthAdapter,
+  MetaTransactionData,
+  SafeMultisigTransactionResponse,
+  SafeTransactionDataPartial,
+} from "@safe-global/safe-core-sdk-types";
 import EthersAdapter from "@safe-global/safe-ethers-lib";
 import SafeServiceClient from "@safe-global/safe-service-client";
 import { ethers } from "ethers";
 import chains from "../../entities/chains";
-import { SafeProposeTransactionOptions } from "./type";
+import { isDryRun } from "../../utils/cli-context";
+import { simulateTransaction } from "../../utils/simulation";
+import {
+  buildSafeOfflineFile,
+  buildSafeOfflineTransaction,
+  getSafeAbi,
+  getSafeOfflineFilePath,
+  getSafeTxHash,
+  listSafeOfflineFiles,
+  signSafeTxHash,
+  writeSafeOfflineFile,
+} from "../../utils/safe-offline";
+import { getSafeOfflineDir } from "../../utils/safe-offline-dir";
+import { SafeBatchCall, SafeBatchOptions, SafeProposeTransactionOptions } from "./type";
 
 export default class SafeWrapper {
+  private _chainId: number;
   private _safeAddress: string;
   private _ethAdapter: EthAdapter;
   private _safeServiceClient: SafeServiceClient;
   private _signer: ethers.Signer;
+  private _nextReservedNonce: number = 0;
 
   constructor(chainId: number, safeAddress: string, signer: ethers.Signer) {
     const chainInfo = chains[chainId];
+    this._chainId = chainId;
     this._safeAddress = safeAddress;
     this._ethAdapter = new EthersAdapter({
       ethers,
@@ -49,41 +70,173 @@ export default class SafeWrapper {
     }
   }
 
+  /**
+   * Transactions of the Safe service that are not executed yet, in nonce order. Several
+   * transactions share a nonce when one replaces another, only one of them can be executed.
+   */
+  async getPendingTransactions(): Promise<Array<SafeMultisigTransactionResponse>> {
+    const safeSdk = await Safe.create({
+      ethAdapter: this._ethAdapter,
+      safeAddress: this._safeAddress,
+    });
+    const pendingTxsResp = await this._safeServiceClient.getPendingTransactions(
+      this._safeAddress,
+      await safeSdk.getNonce()
+    );
+    return [...pendingTxsResp.results].sort((a, b) => a.nonce - b.nonce);
+  }
+
+  async getNonceAndThreshold(): Promise<{ nonce: number; threshold: number }> {
+    const safeSdk = await Safe.create({
+      ethAdapter: this._ethAdapter,
+      safeAddress: this._safeAddress,
+    });
+    return { nonce: await safeSdk.getNonce(), threshold: await safeSdk.getThreshold() };
+  }
+
+  async executeTransaction(safeTransaction: SafeMultisigTransactionResponse): Promise<string> {
+    const safeSdk = await Safe.create({
+      ethAdapter: this._ethAdapter,
+      safeAddress: this._safeAddress,
+    });
+    const result = await safeSdk.executeTransaction(safeTransaction);
+    if (result.transactionResponse) await result.transactionResponse.wait();
+    return result.hash;
+  }
+
   async proposeTransaction(
     to: string,
     value: ethers.BigNumberish,
     data: string,
     opts?: SafeProposeTransactionOptions
   ): Promise<string> {
-    const safeSdk = await Safe.create({
-      ethAdapter: this._ethAdapter,
-      safeAddress: this._safeAddress,
-    });
+    if (isDryRun()) {
+      await simulateTransaction(this._chainId, {
+        from: this._safeAddress,
+        to,
+        value,
+        data,
+        label: "Safe proposal",
+      });
+      return ethers.constants.HashZero;
+    }
+
+    return this._propose({ to, value: value.toString(), data }, opts);
+  }
+
+  /**
+   * Starts a batch of calls that is proposed as a single MultiSend transaction, see `SafeBatch`.
+   */
+  createBatch(opts?: SafeBatchOptions): SafeBatch {
+    return new SafeBatch(this, opts);
+  }
 
-    let whichNonce = 0;
-    if (opts) {
-      // Handling nonce
-      if (opts.nonce) {
-        // If options has nonce, use it
-        whichNonce = opts.nonce;
-      } else {
-        // If options has no nonce, get next nonce from safe service
-        whichNonce = await this._safeServiceClient.getNextNonce(this._safeAddress);
+  /**
+   * Proposes `calls` as one MultiSend transaction, executed by the Safe through delegatecall.
+   */
+  async proposeMultiSend(calls: Array<SafeBatchCall>, opts?: SafeProposeTransactionOptions): Promise<string> {
+    if (isDryRun()) {
+      // MultiSend runs the calls in the context of the Safe, simulating them one by one from it is equivalent
+      for (let i = 0; i < calls.length; i++) {
+        await simulateTransaction(this._chainId, {
+          from: this._safeAddress,
+          to: calls[i].to,
+          value: calls[i].value,
+          data: calls[i].data,
+          label: `Safe MultiSend call ${i + 1}/${calls.length}${calls[i].label ? `: ${calls[i].label}` : ""}`,
+        });
+      }
+      return ethers.constants.HashZero;
+    }
+
+    return this._propose(
+      calls.map((call) => ({ to: call.to, value: ethers.BigNumber.from(call.value).toString(), data: call.data })),
+      opts
+    );
+  }
+
+  /**
+   * Proposes an empty transaction from the Safe to itself at `nonce`, the way the Safe UI rejects
+   * the transactions pending at a nonce: executing it uses up the nonce.
+   */
+  async proposeRejection(nonce: number): Promise<string> {
+    return this.proposeTransaction(this._safeAddress, 0, "0x", { nonce, replace: true });
+  }
+
+  /**
+   * Nonces of the transactions waiting for execution, from the Safe service or from the files
+   * written in offline mode.
+   */
+  async getPendingNonces(): Promise<Array<number>> {
+    const offlineDir = getSafeOfflineDir();
+    let nonces: Array<number>;
+    if (offlineDir) {
+      const onChain = await this._getOnChainNonce().catch(() => 0);
+      nonces = listSafeOfflineFiles(offlineDir, this._safeAddress)
+        .map((f) => f.safe.transaction.nonce)
+        .filter((nonce) => nonce >= onChain);
+    } else {
+      nonces = (await this.getPendingTransactions()).map((tx) => tx.nonce);
+    }
+    return [...new Set(nonces)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Reserves `count` consecutive nonces for proposals created together. Asking the service for
+   * the next nonce before each proposal hands out the same nonce until the service has indexed
+   * the previous one. Reservations are kept for the lifetime of the wrapper.
+   *
+   * Given a nonce, the range starts there and must not collide with pending transactions,
+   * unless `replace` is set to propose replacements for them.
+   */
+  async reserveNonces(count: number, opts?: SafeProposeTransactionOptions): Promise<Array<number>> {
+    let start: number;
+    if (opts && opts.nonce !== undefined) {
+      start = opts.nonce;
+      if (!opts.replace) {
+        const collisions = (await this.getPendingNonces()).filter((nonce) => nonce >= start && nonce < start + count);
+        if (collisions.length > 0)
+          throw new Error(
+            `[wrapper/SafeWrapper] Nonce ${collisions.join(", ")} of ${
+              this._safeAddress
+            } already has pending transactions, replace them on purpose or pick another nonce`
+          );
       }
     } else {
-      // If options is undefined, get next nonce from safe service
-      whichNonce = await this._safeServiceClient.getNextNonce(this._safeAddress);
+      if (opts && opts.replace) throw new Error("[wrapper/SafeWrapper] Replacing needs the nonce to replace");
+      const offlineDir = getSafeOfflineDir();
+      start = Math.max(
+        offlineDir
+          ? await this._nextOfflineNonce(offlineDir)
+          : await this._safeServiceClient.getNextNonce(this._safeAddress),
+        this._nextReservedNonce
+      );
     }
+    this._nextReservedNonce = Math.max(this._nextReservedNonce, start + count);
+    return Array.from({ length: count }, (_, i) => start + i);
+  }
+
+  private async _propose(
+    safeTransactionData: SafeTransactionDataPartial | Array<MetaTransactionData>,
+    opts?: SafeProposeTransactionOptions
+  ): Promise<string> {
+    const [nonce] = await this.reserveNonces(1, opts);
+    const offlineDir = getSafeOfflineDir();
+    if (offlineDir)
+      return this._proposeOffline(
+        offlineDir,
+        Array.isArray(safeTransactionData) ? safeTransactionData : [safeTransactionData],
+        nonce
+      );
 
-    const safeTransactionData: SafeTransactionDataPartial = {
-      to,
-      value: value.toString(),
-      data,
-      nonce: whichNonce,
-    };
+    const safeSdk = await Safe.create({
+      ethAdapter: this._ethAdapter,
+      safeAddress: this._safeAddress,
+    });
 
     const safeTransaction = await safeSdk.createTransaction({
-      safeTransactionData,
+      safeTransactionData: Array.isArray(safeTransactionData) ? safeTransactionData : { ...safeTransactionData, nonce },
+      options: Array.isArray(safeTransactionData) ? { nonce } : undefined,
     });
     const senderAddress = await this._signer.getAddress();
     const safeTxHash = await safeSdk.getTransactionHash(safeTransaction);
@@ -99,4 +252,170 @@ export default class SafeWrapper {
 
     return safeTxHash;
   }
+
+  /**
+   * Writes the proposal, signed by the signer, as a Transaction Builder file instead of sending it
+   * to the transaction service. Other owners sign it with `commands/Safe/sign-offline.ts`.
+   */
+  private async _proposeOffline(
+    offlineDir: string,
+    safeTransactionData: Array<MetaTransactionData>,
+    nonce: number
+  ): Promise<string> {
+    const calls = safeTransactionData.map(({ to, value, data }) => ({ to, value, data }));
+    const tx = buildSafeOfflineTransaction(this._chainId, calls, nonce);
+    const safeTxHash = getSafeTxHash(this._chainId, this._safeAddress, tx);
+    const file = buildSafeOfflineFile(
+      this._chainId,
+      this._safeAddress,
+      calls,
+      tx,
+      await signSafeTxHash(this._signer, safeTxHash)
+    );
+    const filePath = getSafeOfflineFilePath(offlineDir, file);
+    writeSafeOfflineFile(filePath, file);
+    console.log(`[wrapper/SafeWrapper] Offline mode, wrote nonce ${nonce} to ${filePath}`);
+    return safeTxHash;
+  }
+
+  // Next nonce after the Safe and the proposals already written, the Safe is skipped when unreachable
+  private async _nextOfflineNonce(offlineDir: string): Promise<number> {
+    const written = listSafeOfflineFiles(offlineDir, this._safeAddress).map((f) => f.safe.transaction.nonce + 1);
+    let onChain: number | undefined;
+    try {
+      onChain = await this._getOnChainNonce();
+    } catch (e) {
+      // Air-gapped
+    }
+    if (onChain === undefined && written.length === 0)
+      throw new Error("[wrapper/SafeWrapper] Offline mode cannot read the Safe nonce, pass one to the command");
+    return Math.max(onChain || 0, ...written);
+  }
+
+  private async _getOnChainNonce(): Promise<number> {
+    const provider = this._signer.provider || chains[this._chainId].jsonRpcProvider;
+    return (await new ethers.Contract(this._safeAddress, getSafeAbi(), provider).nonce()).toNumber();
+  }
+}
+
+/**
+ * Collects calls for the Safe and proposes them as MultiSend transactions, so that signers
+ * review and sign one change instead of one transaction per call. Calls are split into
+ * several proposals, with consecutive nonces, when they exceed the gas or size limits.
+ */
+export class SafeBatch {
+  private _safeWrapper: SafeWrapper;
+  private _opts: SafeBatchOptions;
+  private _calls: Array<SafeBatchCall> = [];
+  private _proposedIn: Array<string> = [];
+
+  constructor(safeWrapper: SafeWrapper, opts?: SafeBatchOptions) {
+    this._safeWrapper = safeWrapper;
+    this._opts = opts || {};
+  }
+
+  get calls(): Array<SafeBatchCall> {
+    return this._calls;
+  }
+
+  // Safe tx hash of the proposal carrying each call, in the order of the calls, once proposed
+  get proposedIn(): Array<string> {
+    return this._proposedIn;
+  }
+
+  add(to: string, value: ethers.BigNumberish, data: string, label?: string): SafeBatch {
+    this._calls.push({ to, value, data, label });
+    return this;
+  }
+
+  // Each call is packed as operation (1) + to (20) + value (32) + data length (32) + data
+  private _packedSize(call: SafeBatchCall): number {
+    return 85 + ethers.utils.hexDataLength(call.data);
+  }
+
+  private async _estimateGas(provider: ethers.providers.Provider, call: SafeBatchCall): Promise<number> {
+    try {
+      const gas = await provider.estimateGas({
+        from: this._safeWrapper.getAddress(),
+        to: call.to,
+        value: call.value,
+        data: call.data,
+      });
+      return gas.toNumber();
+    } catch (e) {
+      // A call may depend on an earlier one of the batch, e.g. an approval
+      console.warn(
+        `[wrapper/SafeBatch] Cannot estimate gas of ${call.label || call.to}, counting it as the full limit`
+      );
+      return this._opts.maxGasPerBatch!;
+    }
+  }
+
+  /**
+   * Splits the calls into chunks that each stay within the configured limits, keeping their order.
+   */
+  async split(provider?: ethers.providers.Provider): Promise<Array<Array<SafeBatchCall>>> {
+    const { maxGasPerBatch, maxBytesPerBatch, maxCallsPerBatch } = this._opts;
+    if (maxGasPerBatch && !provider) throw new Error("[wrapper/SafeBatch] Splitting by gas needs a provider");
+
+    const chunks: Array<Array<SafeBatchCall>> = [];
+    let chunk: Array<SafeBatchCall> = [];
+    let gas = 0;
+    let bytes = 0;
+    for (const call of this._calls) {
+      const callGas = maxGasPerBatch ? await this._estimateGas(provider!, call) : 0;
+      const callBytes = this._packedSize(call);
+      const exceeds =
+        (maxGasPerBatch !== undefined && gas + callGas > maxGasPerBatch) ||
+        (maxBytesPerBatch !== undefined && bytes + callBytes > maxBytesPerBatch) ||
+        (maxCallsPerBatch !== undefined && chunk.length + 1 > maxCallsPerBatch);
+      if (exceeds && chunk.length > 0) {
+        chunks.push(chunk);
+        chunk = [];
+        gas = 0;
+        bytes = 0;
+      }
+      chunk.push(call);
+      gas += callGas;
+      bytes += callBytes;
+    }
+    if (chunk.length > 0) chunks.push(chunk);
+    return chunks;
+  }
+
+  /**
+   * Proposes the calls and returns the Safe tx hash of every proposal. A chunk of a single call
+   * is proposed as a plain transaction.
+   */
+  async propose(provider?: ethers.providers.Provider): Promise<Array<string>> {
+    if (this._calls.length === 0) {
+      console.log("[wrapper/SafeBatch] Nothing to propose");
+      return [];
+    }
+    const chunks = await this.split(provider);
+    // Dry runs only simulate the calls, reserving would query the transaction service for nothing
+    const nonces: Array<number | undefined> = isDryRun()
+      ? chunks.map(() => undefined)
+      : await this._safeWrapper.reserveNonces(chunks.length, this._opts);
+    const safeTxHashes: Array<string> = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      const opts = { nonce: nonces[i], replace: this._opts.replace };
+      console.log(
+        `[wrapper/SafeBatch] Proposing ${chunks.length > 1 ? `batch ${i + 1}/${chunks.length} with ` : ""}${
+          chunk.length
+        } calls${nonces[i] !== undefined ? ` at nonce ${nonces[i]}` : ""}...`
+      );
+      for (const call of chunk)
+        console.log(`[wrapper/SafeBatch]   - ${call.label || `${call.to} ${call.data.substring(0, 10)}`}`);
+      const safeTxHash =
+        chunk.length === 1
+          ? await this._safeWrapper.proposeTransaction(chunk[0].to, chunk[0].value, chunk[0].data, opts)
+          : await this._safeWrapper.proposeMultiSend(chunk, opts);
+      console.log(`[wrapper/SafeBatch] Proposed: ${safeTxHash}`);
+      safeTxHashes.push(safeTxHash);
+      this._proposedIn.push(...chunk.map(() => safeTxHash));
+    }
+    return safeTxHashes;
+  }
 }
@@ -1,3 +1,23 @@
+import { ethers } from "ethers";
+
 export type SafeProposeTransactionOptions = {
   nonce?: number;
+  // Propose at `nonce` even though transactions are pending there, see `SafeWrapper.reserveNonces`
+  replace?: boolean;
+};
+
+export type SafeBatchCall = {
+  to: string;
+  value: ethers.BigNumberish;
+  data: string;
+  label?: string;
+};
+
+export type SafeBatchOptions = {
+  // Nonce of the first proposal, the next ones follow it
+  nonce?: number;
+  replace?: boolean;
+  maxGasPerBatch?: number;
+  maxBytesPerBatch?: number;
+  maxCallsPerBatch?: number;
 };
@@ -3,8 +3,16 @@ import SafeWrapper from "../SafeWrapper";
 import { loadConfig } from "../../utils/config";
 import { abi as TimelockAbi } from "../../../../abis/Timelock.json";
 import { compareAddress } from "../../utils/address";
-import { TimelockWrapperTransaction } from "./type";
+import { TimelockQueueRequest, TimelockWrapperTransaction } from "./type";
 import chains from "../../entities/chains";
+import { isDryRun } from "../../utils/cli-context";
+import { simulateTransaction } from "../../utils/simulation";
+import {
+  getTimelockTxHash,
+  recordTimelockTransaction,
+  TimelockLedgerStatus,
+  updateTimelockLedgerEntry,
+} from "../../utils/timelock-ledger";
 
 export default class TimelockWrapper {
   private chainId: number;
@@ -35,6 +43,12 @@ export default class TimelockWrapper {
     return await this.timelock.MINIMUM_DELAY();
   }
 
+  // Earliest eta worth queueing with, by default 15 minutes of slack so that a Safe proposal has time to be signed
+  async earliestEta(slackSeconds: number = 900): Promise<number> {
+    const minimumDelay = await this.minimumDelay();
+    return Math.floor(Date.now() / 1000) + Number(minimumDelay.toString()) + slackSeconds;
+  }
+
   interface(): ethers.utils.Interface {
     return this.timelock.interface;
   }
@@ -54,7 +68,24 @@ export default class TimelockWrapper {
     const timelockAdmin = await this.timelock.admin();
 
     let txHash = "";
-    if (compareAddress(timelockAdmin, signerAddress)) {
+    // Dry runs and fork mode leave the ledger alone, nothing was queued on the real chain
+    let ledgerStatus: TimelockLedgerStatus | undefined;
+    let ledgerBlock = 0;
+    if (isDryRun()) {
+      await simulateTransaction(this.chainId, {
+        from: timelockAdmin,
+        to: this.timelock.address,
+        data: this.timelock.interface.encodeFunctionData("queueTransaction", [
+          target,
+          value,
+          signature,
+          ethers.utils.defaultAbiCoder.encode(paramTypes, params),
+          eta,
+        ]),
+        label: `queue ${info}`,
+      });
+      txHash = ethers.constants.HashZero;
+    } else if (compareAddress(timelockAdmin, signerAddress)) {
       console.log(`[wrapper/TimelockWrapper] Queue tx for: ${info}`);
       const queueTx = await this.timelock.queueTransaction(
         target,
@@ -64,12 +95,14 @@ export default class TimelockWrapper {
         eta,
         overrides
       );
-      await queueTx.wait();
+      ledgerBlock = (await queueTx.wait()).blockNumber;
       txHash = queueTx.hash;
+      ledgerStatus = "queued";
     } else if (compareAddress(timelockAdmin, this.safe.getAddress())) {
       if (!this.forkMode) {
         console.log(`[wrapper/TimelockWrapper] Propose tx for: ${info}`);
         info = `MultiSign: ${info}`;
+        ledgerBlock = await this.timelock.provider.getBlockNumber();
         txHash = await this.safe.proposeTransaction(
           this.timelock.address,
           "0",
@@ -81,6 +114,7 @@ export default class TimelockWrapper {
             eta,
           ])
         );
+        ledgerStatus = "proposed";
       } else {
         console.log(`[wrapper/TimelockWrapper] 🍴 Fork mode is ON, skip proposing tx and queue directly as multisig`);
         const jsonRpcProvider = chains[this.chainId].jsonRpcProvider;
@@ -99,38 +133,68 @@ export default class TimelockWrapper {
     } else {
       throw new Error("MaybeMultisigTimelock: Unknown admin");
     }
-    const paramTypesStr = paramTypes.map((p) => `'${p}'`);
-    const paramsStr = params.map((p) => {
-      if (Array.isArray(p)) {
-        const vauleWithQuote = p.map((p) => {
-          if (typeof p === "string") return `'${p}'`;
-          return JSON.stringify(p);
-        });
-        return `[${vauleWithQuote}]`;
-      }
+    console.log(`[wrapper/TimelockWrapper] ⛓ Queued at: ${txHash}`);
+    const transaction = this._toTransaction(info, txHash, target, value, signature, paramTypes, params, etaBN);
+    if (ledgerStatus) {
+      const entry = recordTimelockTransaction(transaction, ledgerStatus, ledgerBlock);
+      console.log(`[wrapper/TimelockWrapper] Recorded ${entry.txHash} in the Timelock ledger`);
+    }
+    return transaction;
+  }
 
-      if (typeof p === "string") {
-        return `'${p}'`;
-      }
+  /**
+   * Queues several transactions with the same eta. With the Safe as admin they are proposed as
+   * one MultiSend, so that signers approve the whole change at once.
+   */
+  async queueTransactions(
+    requests: Array<TimelockQueueRequest>,
+    eta: ethers.BigNumberish
+  ): Promise<Array<TimelockWrapperTransaction>> {
+    const timelockAdmin = await this.timelock.admin();
+    if (isDryRun() || this.forkMode || !compareAddress(timelockAdmin, this.safe.getAddress())) {
+      const transactions: Array<TimelockWrapperTransaction> = [];
+      for (const r of requests)
+        transactions.push(
+          await this.queueTransaction(r.info, r.target, r.value, r.signature, r.paramTypes, r.params, eta)
+        );
+      return transactions;
+    }
 
-      return p;
+    const proposedBlock = await this.timelock.provider.getBlockNumber();
+    const batch = this.safe.createBatch();
+    for (const r of requests) {
+      batch.add(
+        this.timelock.address,
+        0,
+        this.timelock.interface.encodeFunctionData("queueTransaction", [
+          r.target,
+          r.value,
+          r.signature,
+          ethers.utils.defaultAbiCoder.encode(r.paramTypes, r.params),
+          eta,
+        ]),
+        `queue ${r.info}`
+      );
+    }
+    console.log(`[wrapper/TimelockWrapper] Propose ${requests.length} txs as one batch`);
+    const txHashes = await batch.propose();
+    console.log(`[wrapper/TimelockWrapper] ⛓ Queued at: ${txHashes.join(", ")}`);
+    // A large batch is split into several proposals, each request is recorded with the one carrying it
+    return requests.map((r, i) => {
+      const transaction = this._toTransaction(
+        `MultiSign: ${r.info}`,
+        batch.proposedIn[i],
+        r.target,
+        r.value,
+        r.signature,
+        r.paramTypes,
+        r.params,
+        ethers.BigNumber.from(eta)
+      );
+      const entry = recordTimelockTransaction(transaction, "proposed", proposedBlock);
+      console.log(`[wrapper/TimelockWrapper] Recorded ${entry.txHash} in the Timelock ledger`);
+      return transaction;
     });
-
-    const executionTx = `await timelock.executeTransaction('${target}', '${value}', '${signature}', ethers.utils.defaultAbiCoder.encode([${paramTypesStr}], [${paramsStr}]), '${eta}')`;
-    console.log(`[wrapper/TimelockWrapper] ⛓ Queued at: ${txHash}`);
-    return {
-      info: info,
-      chainId: this.chainId,
-      queuedAt: txHash,
-      executedAt: "",
-      executionTransaction: executionTx,
-      target,
-      value: ethers.BigNumber.from(value).toString(),
-      signature,
-      paramTypes,
-      params,
-      eta: etaBN.toString(),
-    };
   }
 
   async executeTransaction(
@@ -151,7 +215,21 @@ export default class TimelockWrapper {
     const timelockAdmin = await this.timelock.admin();
 
     let txHash = "";
-    if (compareAddress(timelockAdmin, signerAddress)) {
+    if (isDryRun()) {
+      await simulateTransaction(this.chainId, {
+        from: timelockAdmin,
+        to: this.timelock.address,
+        data: this.timelock.interface.encodeFunctionData("executeTransaction", [
+          target,
+          value,
+          signature,
+          ethers.utils.defaultAbiCoder.encode(paramTypes, params),
+          eta,
+        ]),
+        label: `execute ${info}`,
+      });
+      txHash = ethers.constants.HashZero;
+    } else if (compareAddress(timelockAdmin, signerAddress)) {
       const queueTx = await this.timelock.executeTransaction(
         target,
         value,
@@ -163,6 +241,10 @@ export default class TimelockWrapper {
       await queueTx.wait();
       txHash = queueTx.hash;
       console.log("[wrapper/TimelockWrapper] ⛓ Executed at:", txHash);
+      updateTimelockLedgerEntry(this.chainId, this._txHash(target, value, signature, paramTypes, params, eta), {
+        status: "executed",
+        executedAt: txHash,
+      });
     } else if (compareAddress(timelockAdmin, this.safe.getAddress())) {
       if (!this.forkMode) {
         txHash = await this.safe.proposeTransaction(
@@ -177,6 +259,9 @@ export default class TimelockWrapper {
           ])
         );
         console.log("[wrapper/TimelockWrapper] Proposed at:", txHash);
+        updateTimelockLedgerEntry(this.chainId, this._txHash(target, value, signature, paramTypes, params, eta), {
+          status: "executing",
+        });
       } else {
         console.log(`[wrapper/TimelockWrapper] 🍴 Fork mode is ON, skip proposing tx and execute directly as multisig`);
         const jsonRpcProvider = chains[this.chainId].jsonRpcProvider;
@@ -192,6 +277,8 @@ export default class TimelockWrapper {
           )
         ).hash;
       }
+    } else {
+      throw new Error("MaybeMultisigTimelock: Unknown admin");
     }
     console.log(`[wrapper/TimelockWrapper] Done.`);
 
@@ -209,4 +296,113 @@ export default class TimelockWrapper {
       eta: etaBN.toString(),
     };
   }
+
+  async cancelTransaction(
+    info: string,
+    target: string,
+    value: ethers.BigNumberish,
+    signature: string,
+    paramTypes: Array<string>,
+    params: Array<any>,
+    eta: ethers.BigNumberish,
+    overrides?: ethers.Overrides
+  ): Promise<string> {
+    console.log(`[wrapper/TimelockWrapper] Cancel tx for: ${info}`);
+    const signerAddress = await this.signer.getAddress();
+    const timelockAdmin = await this.timelock.admin();
+    const args = [target, value, signature, ethers.utils.defaultAbiCoder.encode(paramTypes, params), eta];
+
+    let txHash = "";
+    if (isDryRun()) {
+      await simulateTransaction(this.chainId, {
+        from: timelockAdmin,
+        to: this.timelock.address,
+        data: this.timelock.interface.encodeFunctionData("cancelTransaction", args),
+        label: `cancel ${info}`,
+      });
+      txHash = ethers.constants.HashZero;
+    } else if (compareAddress(timelockAdmin, signerAddress)) {
+      const cancelTx = await this.timelock.cancelTransaction(...args, overrides || {});
+      await cancelTx.wait();
+      txHash = cancelTx.hash;
+      console.log("[wrapper/TimelockWrapper] ⛓ Cancelled at:", txHash);
+      updateTimelockLedgerEntry(this.chainId, this._txHash(target, value, signature, paramTypes, params, eta), {
+        status: "cancelled",
+        cancelledAt: txHash,
+      });
+    } else if (compareAddress(timelockAdmin, this.safe.getAddress())) {
+      if (!this.forkMode) {
+        // The ledger entry stays pending until reconciled, the Safe may never execute this
+        txHash = await this.safe.proposeTransaction(
+          this.timelock.address,
+          "0",
+          this.timelock.interface.encodeFunctionData("cancelTransaction", args)
+        );
+        console.log("[wrapper/TimelockWrapper] Proposed at:", txHash);
+      } else {
+        console.log(`[wrapper/TimelockWrapper] 🍴 Fork mode is ON, skip proposing tx and cancel directly as multisig`);
+        const jsonRpcProvider = chains[this.chainId].jsonRpcProvider;
+        const multiSigAsSigner = jsonRpcProvider.getSigner(this.safe.getAddress());
+        const timelockAsMultiSig = new ethers.Contract(this.timelock.address, TimelockAbi, multiSigAsSigner);
+        txHash = (await timelockAsMultiSig.cancelTransaction(...args)).hash;
+      }
+    } else {
+      throw new Error("MaybeMultisigTimelock: Unknown admin");
+    }
+    return txHash;
+  }
+
+  private _toTransaction(
+    info: string,
+    txHash: string,
+    target: string,
+    value: ethers.BigNumberish,
+    signature: string,
+    paramTypes: Array<string>,
+    params: Array<any>,
+    eta: ethers.BigNumber
+  ): TimelockWrapperTransaction {
+    const paramTypesStr = paramTypes.map((p) => `'${p}'`);
+    const paramsStr = params.map((p) => {
+      if (Array.isArray(p)) {
+        const vauleWithQuote = p.map((p) => {
+          if (typeof p === "string") return `'${p}'`;
+          return JSON.stringify(p);
+        });
+        return `[${vauleWithQuote}]`;
+      }
+
+      if (typeof p === "string") {
+        return `'${p}'`;
+      }
+
+      return p;
+    });
+
+    const executionTx = `await timelock.executeTransaction('${target}', '${value}', '${signature}', ethers.utils.defaultAbiCoder.encode([${paramTypesStr}], [${paramsStr}]), '${eta}')`;
+    return {
+      info: info,
+      chainId: this.chainId,
+      queuedAt: txHash,
+      executedAt: "",
+      executionTransaction: executionTx,
+      target,
+      value: ethers.BigNumber.from(value).toString(),
+      signature,
+      paramTypes,
+      params,
+      eta: eta.toString(),
+    };
+  }
+
+  private _txHash(
+    target: string,
+    value: ethers.BigNumberish,
+    signature: string,
+    paramTypes: Array<string>,
+    params: Array<any>,
+    eta: ethers.BigNumberish
+  ): string {
+    return getTimelockTxHash(target, value, signature, ethers.utils.defaultAbiCoder.encode(paramTypes, params), eta);
+  }
 }
@@ -1,3 +1,5 @@
+import { ethers } from "ethers";
+
 export type TimelockWrapperTransaction = {
   info: string;
   chainId: number;
@@ -11,3 +13,12 @@ export type TimelockWrapperTransaction = {
   params: Array<any>;
   eta: string;
 };
+
+export type TimelockQueueRequest = {
+  info: string;
+  target: string;
+  value: ethers.BigNumberish;
+  signature: string;
+  paramTypes: Array<string>;
+  params: Array<any>;
+};
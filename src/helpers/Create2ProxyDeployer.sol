@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: BUSL-1.1
+// This code is made available under the terms and conditions of the Business Source License 1.1 (BUSL-1.1).
+// The act of publishing this code is driven by the aim to promote transparency and facilitate its utilization for educational purposes.
+
+pragma solidity 0.8.18;
+
+// deps
+import { TransparentUpgradeableProxy } from "@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol";
+import { OwnableUpgradeable } from "@openzeppelin-upgradeable/contracts/access/OwnableUpgradeable.sol";
+
+/// @notice Creates TransparentUpgradeableProxy with CREATE2 and initializes them in the same transaction,
+/// so that nobody can initialize a proxy before its deployer does. Proxies are created pointing to this
+/// contract and owned by it, their address only depends on the caller and the salt.
+contract Create2ProxyDeployer {
+  /**
+   * Events
+   */
+  event LogDeployProxy(address indexed caller, bytes32 salt, address proxy, address implementation);
+
+  /// @notice Creates a proxy, upgrades it to `_implementation` calling `_initData`, then hands the
+  /// proxy over to `_proxyAdmin` and its ownership over to the caller.
+  /// @param _salt Salt of the proxy, mixed with the caller.
+  /// @param _implementation Implementation of the proxy.
+  /// @param _proxyAdmin ProxyAdmin of the proxy.
+  /// @param _initData Calldata of the initializer, which has to make this contract the owner.
+  /// @return _proxy Address of the proxy.
+  function deployProxy(
+    bytes32 _salt,
+    address _implementation,
+    address _proxyAdmin,
+    bytes calldata _initData
+  ) external returns (address _proxy) {
+    TransparentUpgradeableProxy _created = new TransparentUpgradeableProxy{
+      salt: keccak256(abi.encode(msg.sender, _salt))
+    }(address(this), address(this), "");
+    _created.upgradeToAndCall(_implementation, _initData);
+    // The admin cannot call through the proxy, hand it over before transferring the ownership
+    _created.changeAdmin(_proxyAdmin);
+    _proxy = address(_created);
+    OwnableUpgradeable(_proxy).transferOwnership(msg.sender);
+
+    emit LogDeployProxy(msg.sender, _salt, _proxy, _implementation);
+  }
+}
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: BUSL-1.1
+// This code is made available under the terms and conditions of the Business Source License 1.1 (BUSL-1.1).
+// The act of publishing this code is driven by the aim to promote transparency and facilitate its utilization for educational purposes.
+
+pragma solidity 0.8.18;
+
+/// Forge
+import { Test } from "forge-std/Test.sol";
+
+/// OZ
+import { ProxyAdmin } from "@openzeppelin/contracts/proxy/transparent/ProxyAdmin.sol";
+import { TransparentUpgradeableProxy } from "@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol";
+
+/// HMX
+import { Create2ProxyDeployer } from "@hmx/helpers/Create2ProxyDeployer.sol";
+import { PythAdapter } from "@hmx/oracles/PythAdapter.sol";
+
+contract Create2ProxyDeployer_Test is Test {
+  Create2ProxyDeployer internal proxyDeployer;
+  ProxyAdmin internal proxyAdmin;
+  PythAdapter internal implementation;
+
+  address internal constant ALICE = address(0xA11CE);
+  address internal constant BOB = address(0xB0B);
+  address internal constant PYTH = address(0x9999);
+  bytes32 internal constant SALT = keccak256("hmx:PythAdapter.proxy:1");
+
+  function setUp() public {
+    proxyDeployer = new Create2ProxyDeployer();
+    proxyAdmin = new ProxyAdmin();
+    implementation = new PythAdapter();
+  }
+
+  function _deploy(address _caller) internal returns (address) {
+    vm.prank(_caller);
+    return
+      proxyDeployer.deployProxy(
+        SALT,
+        address(implementation),
+        address(proxyAdmin),
+        abi.encodeWithSelector(PythAdapter.initialize.selector, PYTH)
+      );
+  }
+
+  function testCorrectness_WhenDeployProxy_ShouldBeInitializedAndOwnedByCaller() external {
+    address _proxy = _deploy(ALICE);
+
+    assertEq(PythAdapter(_proxy).owner(), ALICE);
+    assertEq(address(PythAdapter(_proxy).pyth()), PYTH);
+    assertEq(proxyAdmin.getProxyAdmin(TransparentUpgradeableProxy(payable(_proxy))), address(proxyAdmin));
+    assertEq(proxyAdmin.getProxyImplementation(TransparentUpgradeableProxy(payable(_proxy))), address(implementation));
+  }
+
+  function testCorrectness_WhenDeployProxy_ShouldOnlyDependOnCallerAndSalt() external {
+    bytes32 _initCodeHash = keccak256(
+      abi.encodePacked(
+        type(TransparentUpgradeableProxy).creationCode,
+        abi.encode(address(proxyDeployer), address(proxyDeployer), "")
+      )
+    );
+    address _expected = address(
+      uint160(
+        uint256(
+          keccak256(
+            abi.encodePacked(bytes1(0xff), address(proxyDeployer), keccak256(abi.encode(ALICE, SALT)), _initCodeHash)
+          )
+        )
+      )
+    );
+
+    assertEq(_deploy(ALICE), _expected);
+    assertTrue(_deploy(BOB) != _expected);
+  }
+
+  function testRevert_WhenDeployProxyTwice() external {
+    _deploy(ALICE);
+    vm.expectRevert();
+    _deploy(ALICE);
+  }
+}